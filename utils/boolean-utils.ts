@@ -1,13 +1,22 @@
 // utils/boolean-utils.ts
 
+import { FluentValue } from "./fluent-value";
+
 /**
  * @class BooleanUtils
  * @description A utility class for performing common boolean operations
  * and validations in a chainable, fluent manner. Designed for easy use
  * without needing the 'new' keyword, and for straightforward retrieval
  * of the final boolean result.
+ * Call `immutable()` before sharing a flag, e.g. a base permission reused by several checks,
+ * so that deriving a check from it never changes it.
+ * @example
+ * const isAdmin = BooleanUtils.of(true).immutable();
+ * const canDelete = isAdmin.and(false);
+ * isAdmin.value; // true (unchanged)
+ * canDelete.value; // false
  */
-class BooleanUtils {
+class BooleanUtils extends FluentValue {
   /**
    * @private
    * @description The private instance variable to hold the current boolean value.
@@ -21,6 +30,7 @@ class BooleanUtils {
    * @param {boolean} initialValue The boolean to start chaining operations on.
    */
   private constructor(initialValue: boolean) {
+    super();
     // Ensure the initial value is always treated as a boolean type.
     this.currentBoolean = Boolean(initialValue);
   }
@@ -43,6 +53,30 @@ class BooleanUtils {
     return new BooleanUtils(Boolean(initialValue));
   }
 
+  /**
+   * @method equals
+   * @description Checks whether another value is a BooleanUtils instance holding the same boolean,
+   * whatever its mode.
+   * @param {unknown} other The value to compare against.
+   * @returns {boolean} True if both instances hold the same value, false otherwise.
+   * @example
+   * BooleanUtils.of(1).equals(BooleanUtils.of(true)); // true
+   * BooleanUtils.of(true).equals(true); // false
+   */
+  equals(other: unknown): boolean {
+    return other instanceof BooleanUtils && other.currentBoolean === this.currentBoolean;
+  }
+
+  /**
+   * @protected
+   * @method copy
+   * @description Creates a mutable instance holding the same boolean.
+   * @returns {this} The copy.
+   */
+  protected copy(): this {
+    return new BooleanUtils(this.currentBoolean) as this;
+  }
+
   /**
    * @method and
    * @description Performs a logical AND operation with the current boolean value and one or more other values.
@@ -56,10 +90,11 @@ class BooleanUtils {
    * BooleanUtils.of(true).and(1, false, "hello").value; // false
    */
   and(...values: any[]): this {
-    for (const val of values) {
-      this.currentBoolean = this.currentBoolean && Boolean(val);
-    }
-    return this;
+    return this.apply((target) => {
+      for (const val of values) {
+        target.currentBoolean = target.currentBoolean && Boolean(val);
+      }
+    });
   }
 
   /**
@@ -75,10 +110,11 @@ class BooleanUtils {
    * BooleanUtils.of(false).or(0, "hello", null).value; // true
    */
   or(...values: any[]): this {
-    for (const val of values) {
-      this.currentBoolean = this.currentBoolean || Boolean(val);
-    }
-    return this;
+    return this.apply((target) => {
+      for (const val of values) {
+        target.currentBoolean = target.currentBoolean || Boolean(val);
+      }
+    });
   }
 
   /**
@@ -90,8 +126,9 @@ class BooleanUtils {
    * BooleanUtils.of(false).not().value; // true
    */
   not(): this {
-    this.currentBoolean = !this.currentBoolean;
-    return this;
+    return this.apply((target) => {
+      target.currentBoolean = !target.currentBoolean;
+    });
   }
 
   /**
@@ -107,8 +144,9 @@ class BooleanUtils {
    * BooleanUtils.of(false).xor(false).value; // false
    */
   xor(value: any): this {
-    this.currentBoolean = this.currentBoolean !== Boolean(value);
-    return this;
+    return this.apply((target) => {
+      target.currentBoolean = target.currentBoolean !== Boolean(value);
+    });
   }
 
   /**
@@ -264,6 +302,12 @@ const complexCondition = BooleanUtils.of("active") // true
   .xor(BooleanUtils.of(0).isFalsy()).value; // false XOR true = true
 console.log("Complex Condition:", complexCondition); // Output: true
 
+// Example 6: Immutable mode
+const featureFlag = BooleanUtils.of(true).immutable();
+const inverted = featureFlag.not();
+console.log("Immutable flag:", featureFlag.value, "inverted:", inverted.value); // true inverted: false
+console.log("Inverted equals false?", inverted.equals(BooleanUtils.of(false))); // true
+
 // Note: Validation methods (isTrue, isFalse, isTruthy, isFalsy) return a boolean
 // and do not return 'this', as their purpose is to provide an answer,
 // not to continue the boolean transformation chain.
@@ -0,0 +1,193 @@
+/**
+ * @module case-utils
+ * @description Word splitting and case conversion for `StringUtils`: identifier styles
+ * (camelCase, PascalCase, snake_case, kebab-case, CONSTANT_CASE) and title case with
+ * language-specific minor words. English, French and Spanish minor words are built in;
+ * other languages can be added with `registerMinorWords`.
+ */
+
+/**
+ * @typedef {string} CaseStyle
+ * @description The identifier styles `convertCase()` can write:
+ * - `"camel"`: "xmlHttpRequest"
+ * - `"pascal"`: "XmlHttpRequest"
+ * - `"snake"`: "xml_http_request"
+ * - `"kebab"`: "xml-http-request"
+ * - `"constant"`: "XML_HTTP_REQUEST"
+ */
+export type CaseStyle = "camel" | "pascal" | "snake" | "kebab" | "constant";
+
+/**
+ * @private
+ * @constant WORD_CHUNK
+ * @description A run of letters (with their combining marks) and digits, i.e. text between separators.
+ */
+const WORD_CHUNK = /[\p{L}\p{M}\p{N}]+/gu;
+
+/**
+ * @private
+ * @constant TITLE_WORD
+ * @description A word of running text, apostrophes included ("don't", "l'homme").
+ */
+const TITLE_WORD = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*/gu;
+
+/**
+ * @private
+ * @constant PHRASE_BREAK
+ * @description Punctuation after which a title starts a new phrase, whose first word is capitalized.
+ */
+const PHRASE_BREAK = /[:;.!?—–]/u;
+
+/**
+ * @private
+ * @function lower
+ * @description Lowercases text for a locale, or with the locale-independent Unicode mapping
+ * when no locale is given.
+ */
+const lower = (text: string, locale?: string): string =>
+  locale === undefined ? text.toLowerCase() : text.toLocaleLowerCase(locale);
+
+/**
+ * @private
+ * @function upper
+ * @description Uppercases text for a locale, or with the locale-independent Unicode mapping
+ * when no locale is given.
+ */
+const upper = (text: string, locale?: string): string =>
+  locale === undefined ? text.toUpperCase() : text.toLocaleUpperCase(locale);
+
+/**
+ * @private
+ * @function capitalizeFirst
+ * @description Uppercases the first character of a word (a whole code point, so astral
+ * letters are not split) and leaves the rest as it is.
+ */
+const capitalizeFirst = (word: string, locale?: string): string => {
+  const [first = ""] = word;
+  return upper(first, locale) + word.slice(first.length);
+};
+
+/**
+ * @private
+ * @constant minorWordLists
+ * @description The words a title keeps in lowercase (articles, short conjunctions and
+ * prepositions), keyed by language subtag (e.g., 'en').
+ */
+const minorWordLists = new Map<string, ReadonlySet<string>>([
+  ["en", new Set("a an and as at but by for in nor of on or per the to vs via".split(" "))],
+  ["fr", new Set("à au aux de des du en et la le les ou par pour sur un une".split(" "))],
+  ["es", new Set("a al con de del e el en la las lo los ni o para por u un una y".split(" "))],
+]);
+
+/**
+ * @function registerMinorWords
+ * @description Adds or replaces the minor words of a language, which `toTitleCase()` keeps in
+ * lowercase unless they start or end the title. Languages without a list capitalize every word.
+ * @param {string} language A language subtag (e.g., 'it'). Regional variants ('it-CH') use it too.
+ * @param {string[]} words The minor words, in lowercase.
+ * @example
+ * registerMinorWords("it", ["il", "la", "di", "e", "per"]);
+ * toTitleCase("la vita e la morte", "it"); // "La Vita e la Morte"
+ */
+export const registerMinorWords = (language: string, words: string[]): void => {
+  minorWordLists.set(language.toLowerCase(), new Set(words));
+};
+
+/**
+ * @function splitWords
+ * @description Splits text into words, the way identifiers and phrases are written: at any
+ * character that is not a letter or a digit (spaces, tabs, `_`, `-`, `.`...), between a
+ * lowercase letter or digit and an uppercase letter ("iPhone"), and before the last capital of
+ * an acronym followed by a lowercase letter ("XMLHttp"). Apostrophes are dropped ("don't").
+ * Letters of every script are understood, including accented and astral ones.
+ * @param {string} text The text to split.
+ * @returns {string[]} The words, with their original case.
+ * @example
+ * splitWords("XMLHttpRequest"); // ["XML", "Http", "Request"]
+ * splitWords("user_id\tcreatedAt"); // ["user", "id", "created", "At"]
+ * splitWords("utf8Encoder v2"); // ["utf8", "Encoder", "v2"]
+ */
+export const splitWords = (text: string): string[] =>
+  (text.replace(/['’]/gu, "").match(WORD_CHUNK) ?? []).flatMap((chunk) =>
+    chunk
+      .replace(/([\p{Ll}\p{N}]\p{M}*)(\p{Lu})/gu, "$1\0$2")
+      .replace(/(\p{Lu}\p{M}*)(\p{Lu}\p{M}*\p{Ll})/gu, "$1\0$2")
+      .split("\0"),
+  );
+
+/**
+ * @function convertCase
+ * @description Rewrites text as an identifier in the given style, from its words (see `splitWords`).
+ * Acronyms are treated as words, so "XMLHttpRequest" becomes "xmlHttpRequest" in camel case.
+ * @param {string} text The text to convert.
+ * @param {CaseStyle} style The style to write.
+ * @param {string} [locale] The locale whose case mappings to use (e.g., 'tr' for the dotted and
+ * dotless i). Defaults to the locale-independent mappings, so identifiers do not depend on the
+ * machine they are generated on.
+ * @returns {string} The converted text; empty if it has no words.
+ * @example
+ * convertCase("XMLHttpRequest", "snake"); // "xml_http_request"
+ * convertCase("background color", "camel"); // "backgroundColor"
+ * convertCase("max-retry count", "constant"); // "MAX_RETRY_COUNT"
+ */
+export const convertCase = (text: string, style: CaseStyle, locale?: string): string => {
+  const words = splitWords(text).map((word) => lower(word, locale));
+  switch (style) {
+    case "camel":
+      return words
+        .map((word, index) => (index === 0 ? word : capitalizeFirst(word, locale)))
+        .join("");
+    case "pascal":
+      return words.map((word) => capitalizeFirst(word, locale)).join("");
+    case "snake":
+      return words.join("_");
+    case "kebab":
+      return words.join("-");
+    case "constant":
+      return words.map((word) => upper(word, locale)).join("_");
+  }
+};
+
+/**
+ * @function toTitleCase
+ * @description Capitalizes the words of a title, leaving the text between them untouched.
+ * Minor words of the language ("of", "the"...) stay lowercase unless they start or end the title
+ * or follow a colon or a dash. Words that already have capitals inside ("iPhone", "McDonald",
+ * "NASA") are kept as they are, and a title written entirely in capitals is lowercased first.
+ * @param {string} text The title.
+ * @param {string} [locale] Its locale, for the minor words and case mappings (e.g., 'tr' turns
+ * "istanbul" into "İstanbul"). Defaults to the runtime locale.
+ * @returns {string} The title-cased text.
+ * @example
+ * toTitleCase("the lord of the rings", "en"); // "The Lord of the Rings"
+ * toTitleCase("a guide to the iPhone:\tthe basics", "en"); // "A Guide to the iPhone:\tThe Basics"
+ * toTitleCase("izmir istanbul", "tr"); // "İzmir İstanbul"
+ */
+export const toTitleCase = (text: string, locale?: string): string => {
+  const resolvedLocale = locale ?? new Intl.NumberFormat().resolvedOptions().locale;
+  const minorWords = minorWordLists.get(new Intl.Locale(resolvedLocale).language) ?? new Set();
+  const source = /\p{Ll}/u.test(text) ? text : text.toLocaleLowerCase(resolvedLocale);
+  const matches = [...source.matchAll(TITLE_WORD)];
+  let result = "";
+  let position = 0;
+  matches.forEach((match, index) => {
+    const word = match[0];
+    const separator = source.slice(position, match.index);
+    const startsPhrase = index === 0 || PHRASE_BREAK.test(separator);
+    const isMinor =
+      !startsPhrase &&
+      index !== matches.length - 1 &&
+      minorWords.has(word.toLocaleLowerCase(resolvedLocale));
+    const [first = ""] = word;
+    const hasInnerCapital = /\p{Lu}/u.test(word.slice(first.length));
+    result +=
+      separator +
+      (hasInnerCapital
+        ? word
+        : isMinor
+          ? word.toLocaleLowerCase(resolvedLocale)
+          : capitalizeFirst(word, resolvedLocale));
+    position = match.index + word.length;
+  });
+  return result + source.slice(position);
+};
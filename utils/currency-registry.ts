@@ -0,0 +1,345 @@
+/**
+ * @interface CurrencyDefinition
+ * @description Describes a currency the way ISO 4217 does, plus a display symbol.
+ */
+export interface CurrencyDefinition {
+  /**
+   * @description The alphabetic code (e.g., 'USD'). Always stored in uppercase.
+   */
+  code: string;
+  /**
+   * @description The three-digit ISO 4217 numeric code (e.g., '840'), kept as a string to
+   * preserve leading zeros. Custom currencies (loyalty points, vouchers...) usually have none.
+   */
+  numericCode?: string;
+  /**
+   * @description The minor-unit exponent, i.e. the number of decimal places
+   * (2 for USD cents, 0 for JPY, 3 for KWD fils).
+   */
+  minorUnit: number;
+  /**
+   * @description The symbol used when displaying amounts (e.g., '$', '€', 'pts').
+   */
+  symbol: string;
+}
+
+/**
+ * @class UnknownCurrencyError
+ * @description Thrown when a currency code is neither an ISO 4217 currency nor a registered custom one.
+ */
+export class UnknownCurrencyError extends Error {
+  /**
+   * @param {string} code The code that could not be found.
+   */
+  constructor(public readonly code: string) {
+    super(`Unknown currency "${code}". Register it with CurrencyRegistry.register() first.`);
+    this.name = "UnknownCurrencyError";
+  }
+}
+
+/**
+ * @private
+ * @constant ISO_4217_CURRENCIES
+ * @description The active ISO 4217 currencies as [code, numeric code, minor unit, symbol].
+ * Fund codes and precious metals are left out on purpose, except for the few funds
+ * (CLF, UYW) that are commonly used as units of account.
+ */
+const ISO_4217_CURRENCIES: [string, string, number, string][] = [
+  ["AED", "784", 2, "د.إ"],
+  ["AFN", "971", 2, "؋"],
+  ["ALL", "008", 2, "L"],
+  ["AMD", "051", 2, "֏"],
+  ["AOA", "973", 2, "Kz"],
+  ["ARS", "032", 2, "$"],
+  ["AUD", "036", 2, "A$"],
+  ["AWG", "533", 2, "ƒ"],
+  ["AZN", "944", 2, "₼"],
+  ["BAM", "977", 2, "KM"],
+  ["BBD", "052", 2, "$"],
+  ["BDT", "050", 2, "৳"],
+  ["BGN", "975", 2, "лв"],
+  ["BHD", "048", 3, ".د.ب"],
+  ["BIF", "108", 0, "FBu"],
+  ["BMD", "060", 2, "$"],
+  ["BND", "096", 2, "$"],
+  ["BOB", "068", 2, "Bs"],
+  ["BRL", "986", 2, "R$"],
+  ["BSD", "044", 2, "$"],
+  ["BTN", "064", 2, "Nu."],
+  ["BWP", "072", 2, "P"],
+  ["BYN", "933", 2, "Br"],
+  ["BZD", "084", 2, "$"],
+  ["CAD", "124", 2, "CA$"],
+  ["CDF", "976", 2, "FC"],
+  ["CHF", "756", 2, "CHF"],
+  ["CLF", "990", 4, "UF"],
+  ["CLP", "152", 0, "$"],
+  ["CNY", "156", 2, "¥"],
+  ["COP", "170", 2, "$"],
+  ["CRC", "188", 2, "₡"],
+  ["CUP", "192", 2, "$"],
+  ["CVE", "132", 2, "$"],
+  ["CZK", "203", 2, "Kč"],
+  ["DJF", "262", 0, "Fdj"],
+  ["DKK", "208", 2, "kr"],
+  ["DOP", "214", 2, "RD$"],
+  ["DZD", "012", 2, "د.ج"],
+  ["EGP", "818", 2, "E£"],
+  ["ERN", "232", 2, "Nfk"],
+  ["ETB", "230", 2, "Br"],
+  ["EUR", "978", 2, "€"],
+  ["FJD", "242", 2, "$"],
+  ["FKP", "238", 2, "£"],
+  ["GBP", "826", 2, "£"],
+  ["GEL", "981", 2, "₾"],
+  ["GHS", "936", 2, "GH₵"],
+  ["GIP", "292", 2, "£"],
+  ["GMD", "270", 2, "D"],
+  ["GNF", "324", 0, "FG"],
+  ["GTQ", "320", 2, "Q"],
+  ["GYD", "328", 2, "$"],
+  ["HKD", "344", 2, "HK$"],
+  ["HNL", "340", 2, "L"],
+  ["HTG", "332", 2, "G"],
+  ["HUF", "348", 2, "Ft"],
+  ["IDR", "360", 2, "Rp"],
+  ["ILS", "376", 2, "₪"],
+  ["INR", "356", 2, "₹"],
+  ["IQD", "368", 3, "ع.د"],
+  ["IRR", "364", 2, "﷼"],
+  ["ISK", "352", 0, "kr"],
+  ["JMD", "388", 2, "$"],
+  ["JOD", "400", 3, "د.ا"],
+  ["JPY", "392", 0, "¥"],
+  ["KES", "404", 2, "KSh"],
+  ["KGS", "417", 2, "с"],
+  ["KHR", "116", 2, "៛"],
+  ["KMF", "174", 0, "CF"],
+  ["KPW", "408", 2, "₩"],
+  ["KRW", "410", 0, "₩"],
+  ["KWD", "414", 3, "د.ك"],
+  ["KYD", "136", 2, "$"],
+  ["KZT", "398", 2, "₸"],
+  ["LAK", "418", 2, "₭"],
+  ["LBP", "422", 2, "ل.ل"],
+  ["LKR", "144", 2, "Rs"],
+  ["LRD", "430", 2, "$"],
+  ["LSL", "426", 2, "L"],
+  ["LYD", "434", 3, "ل.د"],
+  ["MAD", "504", 2, "د.م."],
+  ["MDL", "498", 2, "L"],
+  ["MGA", "969", 2, "Ar"],
+  ["MKD", "807", 2, "ден"],
+  ["MMK", "104", 2, "K"],
+  ["MNT", "496", 2, "₮"],
+  ["MOP", "446", 2, "MOP$"],
+  ["MRU", "929", 2, "UM"],
+  ["MUR", "480", 2, "₨"],
+  ["MVR", "462", 2, "Rf"],
+  ["MWK", "454", 2, "MK"],
+  ["MXN", "484", 2, "MX$"],
+  ["MYR", "458", 2, "RM"],
+  ["MZN", "943", 2, "MT"],
+  ["NAD", "516", 2, "$"],
+  ["NGN", "566", 2, "₦"],
+  ["NIO", "558", 2, "C$"],
+  ["NOK", "578", 2, "kr"],
+  ["NPR", "524", 2, "₨"],
+  ["NZD", "554", 2, "NZ$"],
+  ["OMR", "512", 3, "ر.ع."],
+  ["PAB", "590", 2, "B/."],
+  ["PEN", "604", 2, "S/"],
+  ["PGK", "598", 2, "K"],
+  ["PHP", "608", 2, "₱"],
+  ["PKR", "586", 2, "₨"],
+  ["PLN", "985", 2, "zł"],
+  ["PYG", "600", 0, "₲"],
+  ["QAR", "634", 2, "ر.ق"],
+  ["RON", "946", 2, "lei"],
+  ["RSD", "941", 2, "дин."],
+  ["RUB", "643", 2, "₽"],
+  ["RWF", "646", 0, "FRw"],
+  ["SAR", "682", 2, "ر.س"],
+  ["SBD", "090", 2, "$"],
+  ["SCR", "690", 2, "₨"],
+  ["SDG", "938", 2, "ج.س."],
+  ["SEK", "752", 2, "kr"],
+  ["SGD", "702", 2, "S$"],
+  ["SHP", "654", 2, "£"],
+  ["SLE", "925", 2, "Le"],
+  ["SOS", "706", 2, "Sh"],
+  ["SRD", "968", 2, "$"],
+  ["SSP", "728", 2, "£"],
+  ["STN", "930", 2, "Db"],
+  ["SVC", "222", 2, "₡"],
+  ["SYP", "760", 2, "£"],
+  ["SZL", "748", 2, "E"],
+  ["THB", "764", 2, "฿"],
+  ["TJS", "972", 2, "SM"],
+  ["TMT", "934", 2, "m"],
+  ["TND", "788", 3, "د.ت"],
+  ["TOP", "776", 2, "T$"],
+  ["TRY", "949", 2, "₺"],
+  ["TTD", "780", 2, "$"],
+  ["TWD", "901", 2, "NT$"],
+  ["TZS", "834", 2, "TSh"],
+  ["UAH", "980", 2, "₴"],
+  ["UGX", "800", 0, "USh"],
+  ["USD", "840", 2, "$"],
+  ["UYU", "858", 2, "$U"],
+  ["UYW", "927", 4, "UYW"],
+  ["UZS", "860", 2, "soʻm"],
+  ["VED", "926", 2, "Bs.D"],
+  ["VES", "928", 2, "Bs.S"],
+  ["VND", "704", 0, "₫"],
+  ["VUV", "548", 0, "VT"],
+  ["WST", "882", 2, "WS$"],
+  ["XAF", "950", 0, "FCFA"],
+  ["XCD", "951", 2, "EC$"],
+  ["XCG", "532", 2, "Cg"],
+  ["XOF", "952", 0, "CFA"],
+  ["XPF", "953", 0, "₣"],
+  ["YER", "886", 2, "﷼"],
+  ["ZAR", "710", 2, "R"],
+  ["ZMW", "967", 2, "ZK"],
+  ["ZWG", "924", 2, "ZiG"],
+];
+
+/**
+ * @class CurrencyRegistry
+ * @description A registry of every currency MoneyUtils knows about: the built-in ISO 4217 list
+ * plus any custom currency registered at runtime. MoneyUtils relies on it to infer the scale of
+ * an amount and to reject unknown currency codes.
+ * Like a service class, it only exposes static methods and holds a single shared registry.
+ * @example
+ * CurrencyRegistry.get("JPY").minorUnit; // 0
+ * CurrencyRegistry.register({ code: "PTS", minorUnit: 0, symbol: "pts" });
+ * CurrencyRegistry.has("pts"); // true
+ */
+export class CurrencyRegistry {
+  /**
+   * @private
+   * @description The registered currencies, keyed by their uppercase code.
+   */
+  private static currencies = new Map<string, CurrencyDefinition>(
+    ISO_4217_CURRENCIES.map(([code, numericCode, minorUnit, symbol]) => [
+      code,
+      { code, numericCode, minorUnit, symbol },
+    ]),
+  );
+
+  /**
+   * @private
+   * @description The codes of the built-in ISO 4217 currencies.
+   */
+  private static isoCodes = new Set(ISO_4217_CURRENCIES.map(([code]) => code));
+
+  /**
+   * @static
+   * @method register
+   * @description Adds a custom currency (e.g., loyalty points) to the registry.
+   * @param {CurrencyDefinition} definition The currency to register. The code is normalized to uppercase.
+   * @returns {CurrencyDefinition} The stored definition.
+   * @throws {RangeError} If the code is empty or already registered, or the minor unit is not a non-negative integer.
+   * @example
+   * CurrencyRegistry.register({ code: "PTS", minorUnit: 0, symbol: "pts" });
+   * MoneyUtils.of(1500, "PTS").format(); // "1,500 pts"
+   */
+  static register(definition: CurrencyDefinition): CurrencyDefinition {
+    const code = definition.code.trim().toUpperCase();
+    if (code.length === 0) {
+      throw new RangeError("A currency code cannot be empty.");
+    }
+    if (CurrencyRegistry.currencies.has(code)) {
+      throw new RangeError(`The currency "${code}" is already registered.`);
+    }
+    if (!Number.isInteger(definition.minorUnit) || definition.minorUnit < 0) {
+      throw new RangeError(`The minor unit of "${code}" must be a non-negative integer.`);
+    }
+    const stored = { ...definition, code };
+    CurrencyRegistry.currencies.set(code, stored);
+    return stored;
+  }
+
+  /**
+   * @static
+   * @method unregister
+   * @description Removes a custom currency. Built-in ISO 4217 currencies cannot be removed.
+   * @param {string} code The code of the custom currency.
+   * @returns {boolean} True if a currency was removed, false if it was not registered.
+   * @throws {RangeError} If `code` is a built-in ISO 4217 currency.
+   */
+  static unregister(code: string): boolean {
+    const normalized = code.trim().toUpperCase();
+    if (CurrencyRegistry.isIso(normalized)) {
+      throw new RangeError(`The ISO 4217 currency "${normalized}" cannot be unregistered.`);
+    }
+    return CurrencyRegistry.currencies.delete(normalized);
+  }
+
+  /**
+   * @static
+   * @method get
+   * @description Looks up a currency by code, case-insensitively.
+   * @param {string} code The currency code (e.g., 'usd' or 'USD').
+   * @returns {CurrencyDefinition} The currency definition.
+   * @throws {UnknownCurrencyError} If the currency is not registered.
+   */
+  static get(code: string): CurrencyDefinition {
+    const definition = CurrencyRegistry.currencies.get(code.trim().toUpperCase());
+    if (definition === undefined) {
+      throw new UnknownCurrencyError(code);
+    }
+    return definition;
+  }
+
+  /**
+   * @static
+   * @method has
+   * @description Checks whether a currency code is registered, case-insensitively.
+   * @param {string} code The currency code.
+   * @returns {boolean} True if the currency is known, false otherwise.
+   */
+  static has(code: string): boolean {
+    return CurrencyRegistry.currencies.has(code.trim().toUpperCase());
+  }
+
+  /**
+   * @static
+   * @method isIso
+   * @description Checks whether a registered currency is a built-in ISO 4217 one (as opposed to a
+   * custom currency). `Intl.NumberFormat` only knows how to display the former.
+   * @param {string} code The currency code.
+   * @returns {boolean} True for ISO 4217 currencies, false for custom or unknown ones.
+   */
+  static isIso(code: string): boolean {
+    return CurrencyRegistry.isoCodes.has(code.trim().toUpperCase());
+  }
+
+  /**
+   * @static
+   * @method findByNumericCode
+   * @description Looks up an ISO 4217 currency by its numeric code (e.g., from a card network message).
+   * @param {string | number} numericCode The numeric code, with or without leading zeros (e.g., '008' or 8).
+   * @returns {CurrencyDefinition | undefined} The currency, or undefined if none matches.
+   */
+  static findByNumericCode(numericCode: string | number): CurrencyDefinition | undefined {
+    const normalized = String(numericCode).padStart(3, "0");
+    for (const definition of CurrencyRegistry.currencies.values()) {
+      if (definition.numericCode === normalized) {
+        return definition;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * @static
+   * @method list
+   * @description Returns every registered currency, sorted by code.
+   * @returns {CurrencyDefinition[]} The registered currencies.
+   */
+  static list(): CurrencyDefinition[] {
+    return [...CurrencyRegistry.currencies.values()].sort((a, b) => a.code.localeCompare(b.code));
+  }
+}
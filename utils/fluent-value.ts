@@ -0,0 +1,112 @@
+/**
+ * @module fluent-value
+ * @description The mutable and immutable modes shared by the fluent utils (`BooleanUtils`,
+ * `StringUtils`, `NumberUtils` and `MoneyUtils`). Each class only says how to copy its state
+ * and what makes two instances equal; switching modes, cloning and applying changes live here.
+ */
+
+/**
+ * @class FluentValue
+ * @description Base class of a chainable value. By default, operations modify the instance they
+ * are called on. After `immutable()`, they leave it untouched and return a new frozen instance
+ * instead, with the same fluent API, which makes the value safe to share.
+ */
+export abstract class FluentValue {
+  /**
+   * @private
+   * @description Whether operations return new frozen instances instead of modifying this one.
+   */
+  private immutableMode = false;
+
+  /**
+   * @protected
+   * @method copy
+   * @description Creates a mutable, unfrozen instance with the same state (value and settings).
+   * @returns {this} The copy.
+   */
+  protected abstract copy(): this;
+
+  /**
+   * @method equals
+   * @description Checks structural equality with another value. Each class defines which parts
+   * of its state count; the mode (mutable or immutable) never does.
+   * @param {unknown} other The value to compare against.
+   * @returns {boolean} True if `other` holds the same value, false otherwise.
+   */
+  abstract equals(other: unknown): boolean;
+
+  /**
+   * @method immutable
+   * @description Returns a frozen copy in immutable mode, or this instance if it already is.
+   * This instance itself is left as it is.
+   * @returns {this} The immutable instance.
+   */
+  immutable(): this {
+    return this.immutableMode ? this : this.inMode(this.copy(), true);
+  }
+
+  /**
+   * @method mutable
+   * @description Returns a mutable copy, whose operations modify it in place (e.g., to run a long
+   * calculation on a shared value without creating an instance per step).
+   * @returns {this} The mutable copy.
+   */
+  mutable(): this {
+    return this.copy();
+  }
+
+  /**
+   * @method clone
+   * @description Returns an independent copy in the same mode as this instance.
+   * @returns {this} The copy.
+   */
+  clone(): this {
+    return this.inMode(this.copy(), this.immutableMode);
+  }
+
+  /**
+   * @property {boolean} isImmutable
+   * @description A getter property telling whether operations return new frozen instances
+   * (immutable mode) or modify this instance (the default).
+   * @returns {boolean} True in immutable mode, false otherwise.
+   */
+  get isImmutable(): boolean {
+    return this.immutableMode;
+  }
+
+  /**
+   * @protected
+   * @method apply
+   * @description Runs a state change on this instance when it is mutable, or on a copy that is
+   * then frozen when it is immutable. Chainable operations go through it, so both modes share
+   * a single implementation.
+   * @param {(target: this) => void} update The change to make to the target instance.
+   * @returns {this} The changed instance: this one, or the new frozen copy.
+   */
+  protected apply(update: (target: this) => void): this {
+    if (!this.immutableMode) {
+      update(this);
+      return this;
+    }
+    const copy = this.copy();
+    update(copy);
+    return this.inMode(copy, true);
+  }
+
+  /**
+   * @protected
+   * @method inMode
+   * @description Puts a freshly created instance in a mode, freezing it for immutable mode.
+   * Defaults to this instance's mode, for operations that always return new instances.
+   * @param {T} instance The new, mutable instance.
+   * @param {boolean} [immutable] Whether it must be immutable. Defaults to this instance's mode.
+   * @returns {T} The instance, frozen if immutable.
+   */
+  protected inMode<T extends FluentValue>(instance: T, immutable = this.immutableMode): T {
+    if (immutable) {
+      instance.immutableMode = true;
+      Object.freeze(instance);
+    }
+    return instance;
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * @module fraction-utils
+ * @description Exact rational numbers, as `bigint` numerator / denominator pairs, reachable from
+ * `NumberUtils.fraction()` and `NumberUtils.toFraction()`. Meant for values that users read and
+ * type as fractions, such as recipe quantities ("1 1/2 cups") and imperial measurements ("3/8 in").
+ */
+
+import {
+  DEFAULT_ROUNDING_MODE,
+  DivisionByZeroError,
+  InvalidNumberError,
+  parseDecimal,
+  roundQuotient,
+  type RoundingMode,
+} from "./rounding-utils";
+
+/**
+ * @typedef {string} FractionFormat
+ * @description How `Fraction.format()` writes a fraction:
+ * - `"mixed"`: a whole number and a proper fraction ("1 1/2", "-3/8", "2").
+ * - `"improper"`: a single fraction ("3/2", "-3/8", "2").
+ * - `"unicode"`: a mixed number with a vulgar fraction character where one exists ("1½", "⅜"),
+ *   as printed in recipes; other fractions are written as in the mixed format.
+ */
+export type FractionFormat = "mixed" | "improper" | "unicode";
+
+/**
+ * @class FractionParseError
+ * @description Thrown when `Fraction.parse()` cannot read a string as a fraction.
+ */
+export class FractionParseError extends Error {
+  /**
+   * @param {string} input The string that failed to parse.
+   * @param {string} reason A human-readable explanation of what is wrong with it.
+   */
+  constructor(
+    public readonly input: string,
+    reason: string,
+  ) {
+    super(`Cannot parse "${input}" as a fraction: ${reason}`);
+    this.name = "FractionParseError";
+  }
+}
+
+/**
+ * @private
+ * @constant VULGAR_FRACTIONS
+ * @description The Unicode vulgar fraction characters, by the fraction they stand for.
+ */
+const VULGAR_FRACTIONS: Record<string, string> = {
+  "1/2": "½",
+  "1/3": "⅓",
+  "2/3": "⅔",
+  "1/4": "¼",
+  "3/4": "¾",
+  "1/5": "⅕",
+  "2/5": "⅖",
+  "3/5": "⅗",
+  "4/5": "⅘",
+  "1/6": "⅙",
+  "5/6": "⅚",
+  "1/7": "⅐",
+  "1/8": "⅛",
+  "3/8": "⅜",
+  "5/8": "⅝",
+  "7/8": "⅞",
+  "1/9": "⅑",
+  "1/10": "⅒",
+};
+
+/**
+ * @function absBigInt
+ * @description Returns the absolute value of a bigint.
+ * @param {bigint} value The value.
+ * @returns {bigint} Its absolute value.
+ */
+export const absBigInt = (value: bigint): bigint => (value < 0n ? -value : value);
+
+/**
+ * @function gcdOf
+ * @description Returns the greatest common divisor of two integers with Euclid's algorithm.
+ * @param {bigint} a The first integer.
+ * @param {bigint} b The second integer.
+ * @returns {bigint} Their greatest common divisor, never negative (0 only if both are 0).
+ */
+export const gcdOf = (a: bigint, b: bigint): bigint => {
+  [a, b] = [absBigInt(a), absBigInt(b)];
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+};
+
+/**
+ * @class Fraction
+ * @description An exact rational number, always stored in lowest terms with a positive
+ * denominator, so two equal fractions have the same numerator and denominator.
+ * Instances are immutable: every operation returns a new Fraction.
+ * @example
+ * Fraction.parse("1 1/2").multiply(Fraction.of(2, 3)).format(); // "1"
+ * Fraction.of(1, 3).add(Fraction.of(1, 6)).toString(); // "1/2"
+ */
+export class Fraction {
+  /**
+   * @private constructor
+   * @description The constructor is private. Use `Fraction.of()`, `Fraction.parse()`,
+   * `NumberUtils.fraction()` or `NumberUtils.toFraction()`.
+   * @param {bigint} numerator The numerator, with the sign of the fraction.
+   * @param {bigint} denominator The denominator. Must be positive and coprime with the numerator.
+   */
+  private constructor(
+    public readonly numerator: bigint,
+    public readonly denominator: bigint,
+  ) {
+    Object.freeze(this);
+  }
+
+  /**
+   * @private
+   * @static
+   * @method reduce
+   * @description Creates a fraction in lowest terms, with a positive denominator.
+   * @param {bigint} numerator The numerator.
+   * @param {bigint} denominator The denominator. Must not be zero.
+   * @returns {Fraction} The reduced fraction.
+   */
+  private static reduce(numerator: bigint, denominator: bigint): Fraction {
+    const divisor = gcdOf(numerator, denominator) * (denominator < 0n ? -1n : 1n);
+    return new Fraction(numerator / divisor, denominator / divisor);
+  }
+
+  /**
+   * @private
+   * @static
+   * @method toFraction
+   * @description Reads an operand exactly: a Fraction as is, and a number, decimal string or
+   * bigint through its exact decimal value (0.375 is 3/8).
+   * @param {Fraction | number | string | bigint} value The operand.
+   * @param {string} operation The public method receiving it, for error messages.
+   * @returns {Fraction} The operand as a fraction.
+   * @throws {InvalidNumberError} If `value` is not a finite decimal number.
+   */
+  private static toFraction(
+    value: Fraction | number | string | bigint,
+    operation: string,
+  ): Fraction {
+    if (value instanceof Fraction) {
+      return value;
+    }
+    const decimal = parseDecimal(value);
+    if (decimal === null) {
+      throw new InvalidNumberError(value, operation);
+    }
+    return Fraction.reduce(decimal.numerator, decimal.denominator);
+  }
+
+  /**
+   * @static
+   * @method of
+   * @description Creates a fraction from a numerator and a denominator, reduced to lowest terms.
+   * Both may be decimals, so `Fraction.of(0.375)` is 3/8 and `Fraction.of(1.5, 2)` is 3/4.
+   * @param {Fraction | number | string | bigint} numerator The numerator.
+   * @param {Fraction | number | string | bigint} [denominator=1] The denominator. Must not be zero.
+   * @returns {Fraction} The new fraction.
+   * @throws {InvalidNumberError} If either part is not a finite decimal number.
+   * @throws {DivisionByZeroError} If the denominator is zero.
+   * @example
+   * Fraction.of(6, 8).toString(); // "3/4"
+   * Fraction.of(3, -9).toString(); // "-1/3"
+   * Fraction.of("0.1").toString(); // "1/10"
+   */
+  static of(
+    numerator: Fraction | number | string | bigint,
+    denominator: Fraction | number | string | bigint = 1n,
+  ): Fraction {
+    return Fraction.toFraction(numerator, "of").divideBy(
+      Fraction.toFraction(denominator, "of"),
+      "of",
+    );
+  }
+
+  /**
+   * @static
+   * @method parse
+   * @description Reads a fraction as people type it: an integer ("2"), a decimal ("0.75"),
+   * a fraction ("3/8"), a mixed number ("1 1/2" or "1-1/2"), or a vulgar fraction character
+   * ("½", "1½"), with an optional sign. The fraction slash "⁄" is accepted too.
+   * @param {string} input The string to read (e.g., "1 1/2"), without any unit.
+   * @returns {Fraction} The fraction, reduced to lowest terms.
+   * @throws {FractionParseError} If `input` is not a well-formed fraction, or its denominator is zero.
+   * @example
+   * Fraction.parse("1 1/2").toString(); // "3/2"
+   * Fraction.parse("-2 3/4").toString(); // "-11/4"
+   * Fraction.parse("1½").toString(); // "3/2"
+   * Fraction.parse("3/8").value; // 0.375
+   */
+  static parse(input: string): Fraction {
+    let text = input.trim().replace(/⁄/g, "/").replace(/^−/, "-");
+    for (const [fraction, character] of Object.entries(VULGAR_FRACTIONS)) {
+      text = text.replace(character, ` ${fraction}`);
+    }
+    const match = /^([+-]?)\s*(?:(\d+(?:\.\d+)?)|(?:(\d+)(?:\s+|-))?(\d+)\s*\/\s*(\d+))$/.exec(
+      text.trim(),
+    );
+    if (match === null) {
+      throw new FractionParseError(input, "expected a number, a fraction or a mixed number.");
+    }
+    const [, sign, plain, whole = "0", numerator, denominator] = match;
+    if (denominator !== undefined && BigInt(denominator) === 0n) {
+      throw new FractionParseError(input, "the denominator is zero.");
+    }
+    const magnitude =
+      plain !== undefined
+        ? Fraction.toFraction(plain, "parse")
+        : Fraction.reduce(
+            BigInt(whole) * BigInt(denominator) + BigInt(numerator),
+            BigInt(denominator),
+          );
+    return sign === "-" ? magnitude.negate() : magnitude;
+  }
+
+  /**
+   * @method add
+   * @description Adds another value, exactly.
+   * @param {Fraction | number | string | bigint} other The value to add.
+   * @returns {Fraction} The sum.
+   * @throws {InvalidNumberError} If `other` is not a Fraction or a finite decimal number.
+   * @example
+   * Fraction.of(1, 2).add(Fraction.of(1, 3)).toString(); // "5/6"
+   */
+  add(other: Fraction | number | string | bigint): Fraction {
+    const operand = Fraction.toFraction(other, "add");
+    return Fraction.reduce(
+      this.numerator * operand.denominator + operand.numerator * this.denominator,
+      this.denominator * operand.denominator,
+    );
+  }
+
+  /**
+   * @method subtract
+   * @description Subtracts another value, exactly.
+   * @param {Fraction | number | string | bigint} other The value to subtract.
+   * @returns {Fraction} The difference.
+   * @throws {InvalidNumberError} If `other` is not a Fraction or a finite decimal number.
+   * @example
+   * Fraction.of(3, 4).subtract(Fraction.of(1, 8)).toString(); // "5/8"
+   */
+  subtract(other: Fraction | number | string | bigint): Fraction {
+    return this.add(Fraction.toFraction(other, "subtract").negate());
+  }
+
+  /**
+   * @method multiply
+   * @description Multiplies by another value, exactly (e.g., to scale a recipe).
+   * @param {Fraction | number | string | bigint} other The value to multiply by.
+   * @returns {Fraction} The product.
+   * @throws {InvalidNumberError} If `other` is not a Fraction or a finite decimal number.
+   * @example
+   * Fraction.parse("3/4").multiply(1.5).format(); // "1 1/8"
+   */
+  multiply(other: Fraction | number | string | bigint): Fraction {
+    const operand = Fraction.toFraction(other, "multiply");
+    return Fraction.reduce(
+      this.numerator * operand.numerator,
+      this.denominator * operand.denominator,
+    );
+  }
+
+  /**
+   * @method divide
+   * @description Divides by another value, exactly.
+   * @param {Fraction | number | string | bigint} other The value to divide by. Must not be zero.
+   * @returns {Fraction} The quotient.
+   * @throws {InvalidNumberError} If `other` is not a Fraction or a finite decimal number.
+   * @throws {DivisionByZeroError} If `other` is zero.
+   * @example
+   * Fraction.of(1, 2).divide(Fraction.of(1, 4)).toString(); // "2"
+   */
+  divide(other: Fraction | number | string | bigint): Fraction {
+    return this.divideBy(Fraction.toFraction(other, "divide"), "divide");
+  }
+
+  /**
+   * @private
+   * @method divideBy
+   * @description Implements `divide()` and `of()`.
+   * @param {Fraction} divisor The fraction to divide by.
+   * @param {string} operation The public method, for error messages.
+   * @returns {Fraction} The quotient.
+   * @throws {DivisionByZeroError} If `divisor` is zero.
+   */
+  private divideBy(divisor: Fraction, operation: string): Fraction {
+    if (divisor.numerator === 0n) {
+      throw new DivisionByZeroError(operation);
+    }
+    return Fraction.reduce(
+      this.numerator * divisor.denominator,
+      this.denominator * divisor.numerator,
+    );
+  }
+
+  /**
+   * @method negate
+   * @description Returns the opposite of the fraction.
+   * @returns {Fraction} The negated fraction.
+   */
+  negate(): Fraction {
+    return new Fraction(-this.numerator, this.denominator);
+  }
+
+  /**
+   * @method limitDenominator
+   * @description Returns the closest fraction whose denominator does not exceed `maxDenominator`,
+   * found with continued fractions (convergents and semiconvergents), e.g. to recover 1/3 from
+   * 0.333 or a simple ratio from a measured value.
+   * @param {number | bigint} maxDenominator The largest allowed denominator. Must be a positive integer.
+   * @returns {Fraction} The best approximation (this fraction if its denominator is small enough).
+   * @throws {RangeError} If `maxDenominator` is not a positive integer.
+   * @example
+   * Fraction.of("3.141592653589793").limitDenominator(1000).toString(); // "355/113"
+   * Fraction.of("0.333").limitDenominator(10).toString(); // "1/3"
+   */
+  limitDenominator(maxDenominator: number | bigint): Fraction {
+    if (
+      typeof maxDenominator === "number"
+        ? !Number.isSafeInteger(maxDenominator) || maxDenominator < 1
+        : maxDenominator < 1n
+    ) {
+      throw new RangeError("The maximum denominator must be a positive integer.");
+    }
+    const max = BigInt(maxDenominator);
+    if (this.denominator <= max) {
+      return this;
+    }
+    // Walk the convergents p/q of the continued fraction of |this| until q exceeds the limit
+    let [p0, q0, p1, q1] = [0n, 1n, 1n, 0n];
+    let [n, d] = [absBigInt(this.numerator), this.denominator];
+    for (;;) {
+      const a = n / d;
+      const q2 = q0 + a * q1;
+      if (q2 > max) {
+        break;
+      }
+      [p0, q0, p1, q1] = [p1, q1, p0 + a * p1, q2];
+      [n, d] = [d, n - a * d];
+    }
+    // The best approximation is the last convergent or the largest semiconvergent that fits
+    const k = (max - q0) / q1;
+    const magnitude = Fraction.reduce(absBigInt(this.numerator), this.denominator);
+    const semiconvergent = Fraction.reduce(p0 + k * p1, q0 + k * q1);
+    const convergent = Fraction.reduce(p1, q1);
+    const best =
+      convergent.subtract(magnitude).abs().compareTo(semiconvergent.subtract(magnitude).abs()) <= 0
+        ? convergent
+        : semiconvergent;
+    return this.numerator < 0n ? best.negate() : best;
+  }
+
+  /**
+   * @method abs
+   * @description Returns the absolute value of the fraction.
+   * @returns {Fraction} The fraction without its sign.
+   */
+  abs(): Fraction {
+    return this.numerator < 0n ? this.negate() : this;
+  }
+
+  /**
+   * @method compareTo
+   * @description Compares the fraction with another value, exactly.
+   * @param {Fraction | number | string | bigint} other The value to compare against.
+   * @returns {number} -1 if this fraction is smaller, 0 if they are equal, 1 if it is larger.
+   * @throws {InvalidNumberError} If `other` is not a Fraction or a finite decimal number.
+   * @example
+   * Fraction.of(1, 3).compareTo(0.333); // 1
+   */
+  compareTo(other: Fraction | number | string | bigint): -1 | 0 | 1 {
+    const { numerator } = this.subtract(Fraction.toFraction(other, "compareTo"));
+    return numerator === 0n ? 0 : numerator < 0n ? -1 : 1;
+  }
+
+  /**
+   * @method equals
+   * @description Checks structural equality with another value: it must be a Fraction with the
+   * same value. As fractions are kept in lowest terms, 2/4 equals 1/2.
+   * @param {unknown} other The value to compare against.
+   * @returns {boolean} True if both fractions are equal, false otherwise.
+   */
+  equals(other: unknown): boolean {
+    return (
+      other instanceof Fraction &&
+      other.numerator === this.numerator &&
+      other.denominator === this.denominator
+    );
+  }
+
+  /**
+   * @property {number} value
+   * @description A getter property to retrieve the closest number to the fraction.
+   * @returns {number} The fraction as a number (e.g., 0.375 for 3/8).
+   */
+  get value(): number {
+    const isSafe = (part: bigint) => absBigInt(part) <= BigInt(Number.MAX_SAFE_INTEGER);
+    if (isSafe(this.numerator) && isSafe(this.denominator)) {
+      // Dividing two exact numbers is correctly rounded
+      return Number(this.numerator) / Number(this.denominator);
+    }
+    // Otherwise, divide exactly to more digits than a number can hold, then let Number() round
+    const digits =
+      20 + this.denominator.toString().length - absBigInt(this.numerator).toString().length;
+    const scale = 10n ** BigInt(Math.max(digits, 0));
+    return Number(
+      `${roundQuotient(this.numerator * scale, this.denominator)}e-${Math.max(digits, 0)}`,
+    );
+  }
+
+  /**
+   * @method toFixed
+   * @description Writes the fraction as a decimal with a fixed number of decimal places.
+   * @param {number} [digits=0] The number of decimal places. Must be a non-negative integer.
+   * @param {RoundingMode} [roundingMode='half-up'] How to round the last digit.
+   * @returns {string} The decimal string (e.g., "0.33" for 1/3 and 2 digits).
+   * @throws {RangeError} If `digits` is not a non-negative integer.
+   * @example
+   * Fraction.of(1, 3).toFixed(4); // "0.3333"
+   * Fraction.of(-5, 8).toFixed(2, 'half-even'); // "-0.62"
+   */
+  toFixed(digits: number = 0, roundingMode: RoundingMode = DEFAULT_ROUNDING_MODE): string {
+    if (!Number.isInteger(digits) || digits < 0) {
+      throw new RangeError("The number of digits must be a non-negative integer.");
+    }
+    const scaled = roundQuotient(
+      this.numerator * 10n ** BigInt(digits),
+      this.denominator,
+      roundingMode,
+    );
+    const sign = scaled < 0n ? "-" : "";
+    const text = absBigInt(scaled)
+      .toString()
+      .padStart(digits + 1, "0");
+    return digits === 0 ? sign + text : `${sign}${text.slice(0, -digits)}.${text.slice(-digits)}`;
+  }
+
+  /**
+   * @method format
+   * @description Writes the fraction for people to read, as a mixed number by default.
+   * @param {FractionFormat} [style='mixed'] 'mixed' ("1 1/2"), 'improper' ("3/2") or 'unicode' ("1½").
+   * @returns {string} The formatted fraction.
+   * @example
+   * Fraction.of(3, 2).format(); // "1 1/2"
+   * Fraction.of(-11, 4).format(); // "-2 3/4"
+   * Fraction.of(3, 2).format('improper'); // "3/2"
+   * Fraction.of(3, 2).format('unicode'); // "1½"
+   * Fraction.of(21, 16).format('unicode'); // "1 5/16"
+   */
+  format(style: FractionFormat = "mixed"): string {
+    if (style === "improper" || this.denominator === 1n) {
+      return this.toString();
+    }
+    const sign = this.numerator < 0n ? "-" : "";
+    const whole = absBigInt(this.numerator) / this.denominator;
+    const proper = `${absBigInt(this.numerator) % this.denominator}/${this.denominator}`;
+    const vulgar = style === "unicode" ? VULGAR_FRACTIONS[proper] : undefined;
+    if (vulgar !== undefined) {
+      return `${sign}${whole === 0n ? "" : whole}${vulgar}`;
+    }
+    return whole === 0n ? `${sign}${proper}` : `${sign}${whole} ${proper}`;
+  }
+
+  /**
+   * @method toString
+   * @description Returns the fraction as "numerator/denominator", or just the numerator for
+   * whole numbers (e.g., "3/2", "-1/3", "2"). `Fraction.parse()` reads it back.
+   * @returns {string} The fraction in lowest terms.
+   */
+  toString(): string {
+    return this.denominator === 1n
+      ? this.numerator.toString()
+      : `${this.numerator}/${this.denominator}`;
+  }
+}
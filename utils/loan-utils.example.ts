@@ -0,0 +1,35 @@
+/**
+ * @file loan-utils.example.ts
+ * @description Runnable examples for AmortizationSchedule. They live outside `loan-utils.ts`, so
+ * that importing it prints nothing. Run them with `npx tsx utils/loan-utils.example.ts`.
+ */
+
+import { AmortizationSchedule } from "./loan-utils";
+import { MoneyUtils } from "./money-utils";
+
+console.log("\n--- AmortizationSchedule Examples ---");
+
+// Fixed-rate amortization: constant payments, the last one absorbs the rounding
+const carLoan = AmortizationSchedule.annuity(MoneyUtils.of(10000), 6.9, 12);
+for (const { period, payment, interest, principal, balance } of carLoan.rows.slice(-2)) {
+  console.log(`#${period}:`, payment.amount, interest.amount, principal.amount, balance.amount);
+} // #11: 864.81 9.86 854.95 859.82, then #12: 864.76 4.94 859.82 0.00
+console.log("Car loan interest:", carLoan.totalInterest.value); // 377.67
+
+// Equal principal: the same share of principal each time, decreasing payments
+const equalPlan = AmortizationSchedule.equalPrincipal(MoneyUtils.of(1000), 12, 3);
+console.log(
+  "Equal principal payments:",
+  equalPlan.rows.map((row) => row.payment.value),
+); // [343.33, 340, 336.67]
+
+// Interest-free installments with fees (buy now, pay later)
+const bnpl = AmortizationSchedule.installments(MoneyUtils.of(99.99, "EUR"), 4, {
+  periodsPerYear: 26,
+  feePerInstallment: MoneyUtils.of(0.5, "EUR"),
+});
+console.log(
+  "BNPL payments:",
+  bnpl.rows.map((row) => row.payment.amount),
+); // ["25.50", "25.50", "25.50", "25.49"]
+console.log("BNPL total:", bnpl.totalPayment.format("de-DE"), "fees:", bnpl.totalFees.value); // 101,99 € fees: 2
@@ -0,0 +1,353 @@
+/**
+ * @module loan-utils
+ * @description Payment plans built on MoneyUtils: fixed-rate amortization (constant payments),
+ * equal-principal amortization (decreasing payments) and interest-free installments with fees.
+ * Every row is rounded to the minor unit, and the last row absorbs the rounding differences so
+ * the remaining balance ends at exactly zero.
+ */
+
+import { MoneyUtils } from "./money-utils";
+import {
+  assertRoundingMode,
+  parseDecimal,
+  roundQuotient,
+  type RoundingMode,
+} from "./rounding-utils";
+
+/**
+ * @interface ScheduleOptions
+ * @description Settings shared by every kind of schedule.
+ */
+export interface ScheduleOptions {
+  /**
+   * @description The number of periods in a year, used to turn the annual rate into a periodic
+   * one (12 for monthly payments, 52 for weekly ones, 26 for bi-weekly ones). Defaults to 12.
+   */
+  periodsPerYear?: number;
+  /**
+   * @description A fee added to every installment (e.g., an account-keeping fee).
+   */
+  feePerInstallment?: MoneyUtils;
+  /**
+   * @description A one-off fee added to the first installment (e.g., an origination fee).
+   */
+  upfrontFee?: MoneyUtils;
+  /**
+   * @description How interest and payments are rounded. Defaults to the principal's rounding mode.
+   */
+  roundingMode?: RoundingMode;
+}
+
+/**
+ * @interface ScheduleRow
+ * @description A single installment. `payment` is always `principal + interest + fee`.
+ */
+export interface ScheduleRow {
+  /**
+   * @description The installment number, starting at 1.
+   */
+  period: number;
+  payment: MoneyUtils;
+  interest: MoneyUtils;
+  principal: MoneyUtils;
+  fee: MoneyUtils;
+  /**
+   * @description The principal still owed after this installment.
+   */
+  balance: MoneyUtils;
+}
+
+/**
+ * @private
+ * @typedef {Function} PrincipalRule
+ * @description Decides the principal repaid by a regular installment (every one but the last),
+ * given the interest of the period, in minor units. The result is capped at the remaining balance.
+ */
+type PrincipalRule = (interest: bigint) => bigint;
+
+/**
+ * @class AmortizationSchedule
+ * @description A repayment plan for a principal, as a list of installment rows plus totals.
+ * Schedules are created with one of the static factories, depending on the kind of plan.
+ */
+export class AmortizationSchedule {
+  /**
+   * @private
+   * @description The installments, in order.
+   */
+  private readonly scheduleRows: ScheduleRow[];
+
+  /**
+   * @private
+   * @description The amount borrowed, used as a zero-valued template for the totals.
+   */
+  private readonly loanPrincipal: MoneyUtils;
+
+  /**
+   * @private constructor
+   * @description Use one of the static factories (`annuity`, `equalPrincipal`, `installments`) instead.
+   */
+  private constructor(principal: MoneyUtils, rows: ScheduleRow[]) {
+    this.loanPrincipal = principal;
+    this.scheduleRows = rows;
+  }
+
+  /**
+   * @static
+   * @method annuity
+   * @description Creates a fixed-rate amortization schedule, where every payment is the same
+   * (a mortgage or a car loan, for instance). Early payments are mostly interest, later ones
+   * mostly principal. The payment is `P * r / (1 - (1 + r)^-n)`, computed exactly, then rounded.
+   * @param {MoneyUtils} principal The amount borrowed. Must be positive.
+   * @param {number | string} annualRate The nominal annual interest rate, as a percentage (e.g., 7.5).
+   * @param {number} periods The number of installments. Must be a positive integer.
+   * @param {ScheduleOptions} [options] The payment frequency, fees and rounding mode.
+   * @returns {AmortizationSchedule} The schedule.
+   * @throws {RangeError} If an argument is out of range.
+   * @throws {CurrencyMismatchError} If a fee is not in the principal's currency.
+   * @throws {ScaleMismatchError} If a fee does not have the principal's scale.
+   * @example
+   * const plan = AmortizationSchedule.annuity(MoneyUtils.of(1000), 12, 3);
+   * plan.rows.map((row) => row.payment.value); // [340.02, 340.02, 340.03]
+   * plan.totalInterest.value; // 20.07
+   */
+  static annuity(
+    principal: MoneyUtils,
+    annualRate: number | string,
+    periods: number,
+    options: ScheduleOptions = {},
+  ): AmortizationSchedule {
+    AmortizationSchedule.assertTerms(principal, periods);
+    const [rateNumerator, rateDenominator] = AmortizationSchedule.periodicRate(annualRate, options);
+    const roundingMode = AmortizationSchedule.roundingModeOf(principal, options);
+    let payment: bigint;
+    if (rateNumerator === 0n) {
+      payment = roundQuotient(principal.minorUnits, BigInt(periods), roundingMode);
+    } else {
+      // P * r / (1 - (1 + r)^-n) with r = a / b is P * a * (b + a)^n / (b * ((b + a)^n - b^n))
+      const growth = (rateDenominator + rateNumerator) ** BigInt(periods);
+      payment = roundQuotient(
+        principal.minorUnits * rateNumerator * growth,
+        rateDenominator * (growth - rateDenominator ** BigInt(periods)),
+        roundingMode,
+      );
+    }
+    return AmortizationSchedule.build(
+      principal,
+      [rateNumerator, rateDenominator],
+      periods,
+      options,
+      (interest) => payment - interest,
+    );
+  }
+
+  /**
+   * @static
+   * @method equalPrincipal
+   * @description Creates an equal-principal schedule, where every installment repays the same
+   * share of the principal plus the interest on the remaining balance, so payments decrease over time.
+   * @param {MoneyUtils} principal The amount borrowed. Must be positive.
+   * @param {number | string} annualRate The nominal annual interest rate, as a percentage (e.g., 7.5).
+   * @param {number} periods The number of installments. Must be a positive integer.
+   * @param {ScheduleOptions} [options] The payment frequency, fees and rounding mode.
+   * @returns {AmortizationSchedule} The schedule.
+   * @throws {RangeError} If an argument is out of range.
+   * @throws {CurrencyMismatchError} If a fee is not in the principal's currency.
+   * @throws {ScaleMismatchError} If a fee does not have the principal's scale.
+   * @example
+   * const plan = AmortizationSchedule.equalPrincipal(MoneyUtils.of(1000), 12, 3);
+   * plan.rows.map((row) => row.payment.value); // [343.33, 340, 336.67]
+   */
+  static equalPrincipal(
+    principal: MoneyUtils,
+    annualRate: number | string,
+    periods: number,
+    options: ScheduleOptions = {},
+  ): AmortizationSchedule {
+    AmortizationSchedule.assertTerms(principal, periods);
+    const rate = AmortizationSchedule.periodicRate(annualRate, options);
+    const roundingMode = AmortizationSchedule.roundingModeOf(principal, options);
+    const share = roundQuotient(principal.minorUnits, BigInt(periods), roundingMode);
+    return AmortizationSchedule.build(principal, rate, periods, options, () => share);
+  }
+
+  /**
+   * @static
+   * @method installments
+   * @description Creates an interest-free installment plan (buy now, pay later), where the
+   * principal is split evenly and only fees are charged on top.
+   * @param {MoneyUtils} principal The purchase amount. Must be positive.
+   * @param {number} periods The number of installments. Must be a positive integer.
+   * @param {ScheduleOptions} [options] The payment frequency, fees and rounding mode.
+   * @returns {AmortizationSchedule} The schedule.
+   * @throws {RangeError} If an argument is out of range.
+   * @throws {CurrencyMismatchError} If a fee is not in the principal's currency.
+   * @throws {ScaleMismatchError} If a fee does not have the principal's scale.
+   * @example
+   * const plan = AmortizationSchedule.installments(MoneyUtils.of(100), 3, { upfrontFee: MoneyUtils.of(2) });
+   * plan.rows.map((row) => row.payment.value); // [35.33, 33.33, 33.34]
+   */
+  static installments(
+    principal: MoneyUtils,
+    periods: number,
+    options: ScheduleOptions = {},
+  ): AmortizationSchedule {
+    return AmortizationSchedule.equalPrincipal(principal, 0, periods, options);
+  }
+
+  /**
+   * @private
+   * @static
+   * @method assertTerms
+   * @description Guards the principal and the number of installments of a schedule.
+   * @throws {RangeError} If the principal is not positive or `periods` is not a positive integer.
+   */
+  private static assertTerms(principal: MoneyUtils, periods: number): void {
+    if (!principal.isPositive()) {
+      throw new RangeError("The principal must be a positive amount.");
+    }
+    if (!Number.isInteger(periods) || periods <= 0) {
+      throw new RangeError("The number of periods must be a positive integer.");
+    }
+  }
+
+  /**
+   * @private
+   * @static
+   * @method periodicRate
+   * @description Converts a nominal annual percentage into the exact rate of a single period,
+   * as a `[numerator, denominator]` pair (e.g., 12% monthly → [12, 1200]).
+   * @throws {RangeError} If the rate is not a non-negative decimal, or the frequency is invalid.
+   */
+  private static periodicRate(
+    annualRate: number | string,
+    { periodsPerYear = 12 }: ScheduleOptions,
+  ): [bigint, bigint] {
+    const fraction = parseDecimal(annualRate);
+    if (fraction === null || fraction.numerator < 0n) {
+      throw new RangeError(
+        `The annual rate must be a non-negative percentage, received "${annualRate}".`,
+      );
+    }
+    if (!Number.isInteger(periodsPerYear) || periodsPerYear <= 0) {
+      throw new RangeError("The number of periods per year must be a positive integer.");
+    }
+    return [fraction.numerator, fraction.denominator * 100n * BigInt(periodsPerYear)];
+  }
+
+  /**
+   * @private
+   * @static
+   * @method roundingModeOf
+   * @description Picks the rounding mode of a schedule: the option if given, else the principal's.
+   */
+  private static roundingModeOf(principal: MoneyUtils, options: ScheduleOptions): RoundingMode {
+    return assertRoundingMode(options.roundingMode ?? principal.roundingMode);
+  }
+
+  /**
+   * @private
+   * @static
+   * @method build
+   * @description Generates the rows shared by every kind of schedule: the interest of a period is
+   * the remaining balance times the periodic rate, the principal repaid follows `principalRule`,
+   * and the last installment repays whatever balance is left so it ends at exactly zero.
+   */
+  private static build(
+    principal: MoneyUtils,
+    [rateNumerator, rateDenominator]: [bigint, bigint],
+    periods: number,
+    options: ScheduleOptions,
+    principalRule: PrincipalRule,
+  ): AmortizationSchedule {
+    const roundingMode = AmortizationSchedule.roundingModeOf(principal, options);
+    const { currency, scale } = principal;
+    const toMoney = (minorUnits: bigint) =>
+      MoneyUtils.fromMinorUnits(minorUnits, currency, scale, principal.roundingMode);
+    // Adding a fee to a zero amount in the principal's currency and scale validates both
+    const toMinorUnits = (fee?: MoneyUtils) => (fee ? toMoney(0n).add(fee).minorUnits : 0n);
+    const feePerInstallment = toMinorUnits(options.feePerInstallment);
+    const upfrontFee = toMinorUnits(options.upfrontFee);
+
+    const rows: ScheduleRow[] = [];
+    let balance = principal.minorUnits;
+    for (let period = 1; period <= periods; period++) {
+      const interest = roundQuotient(balance * rateNumerator, rateDenominator, roundingMode);
+      const repaid =
+        period === periods ? balance : AmortizationSchedule.clamp(principalRule(interest), balance);
+      const fee = feePerInstallment + (period === 1 ? upfrontFee : 0n);
+      balance -= repaid;
+      rows.push({
+        period,
+        payment: toMoney(repaid + interest + fee),
+        interest: toMoney(interest),
+        principal: toMoney(repaid),
+        fee: toMoney(fee),
+        balance: toMoney(balance),
+      });
+    }
+    return new AmortizationSchedule(principal, rows);
+  }
+
+  /**
+   * @private
+   * @static
+   * @method clamp
+   * @description Keeps the principal repaid by a regular installment between zero and the
+   * remaining balance, which can only be exceeded through accumulated rounding on tiny loans.
+   */
+  private static clamp(repaid: bigint, balance: bigint): bigint {
+    if (repaid < 0n) {
+      return 0n;
+    }
+    return repaid > balance ? balance : repaid;
+  }
+
+  /**
+   * @property {ScheduleRow[]} rows
+   * @description A getter property returning the installments, in order.
+   * @returns {ScheduleRow[]} A copy of the rows.
+   */
+  get rows(): ScheduleRow[] {
+    return [...this.scheduleRows];
+  }
+
+  /**
+   * @property {MoneyUtils} totalPayment
+   * @description The sum of every installment: principal, interest and fees.
+   * @returns {MoneyUtils} A new MoneyUtils instance.
+   */
+  get totalPayment(): MoneyUtils {
+    return this.total("payment");
+  }
+
+  /**
+   * @property {MoneyUtils} totalInterest
+   * @description The cost of the credit, excluding fees.
+   * @returns {MoneyUtils} A new MoneyUtils instance.
+   */
+  get totalInterest(): MoneyUtils {
+    return this.total("interest");
+  }
+
+  /**
+   * @property {MoneyUtils} totalFees
+   * @description The sum of every fee.
+   * @returns {MoneyUtils} A new MoneyUtils instance.
+   */
+  get totalFees(): MoneyUtils {
+    return this.total("fee");
+  }
+
+  /**
+   * @private
+   * @method total
+   * @description Adds up one column of the schedule.
+   */
+  private total(column: "payment" | "interest" | "fee"): MoneyUtils {
+    return MoneyUtils.sum(
+      this.scheduleRows.map((row) => row[column]),
+      this.loanPrincipal.currency,
+    );
+  }
+}
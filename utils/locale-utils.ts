@@ -0,0 +1,191 @@
+/**
+ * @module locale-utils
+ * @description Reading numbers written for a locale, shared by `MoneyUtils.parse()` and
+ * `NumberUtils.parse()`. Separators, signs and digits are taken from `Intl.NumberFormat`,
+ * so every locale the runtime knows is supported without any hand-written table.
+ */
+
+/**
+ * @interface LocaleNumberSymbols
+ * @description The characters a locale uses to write numbers, as reported by `Intl.NumberFormat`.
+ */
+export interface LocaleNumberSymbols {
+  group: string;
+  decimal: string;
+  minusSign: string;
+  percentSign: string;
+  /**
+   * @description The sizes of the digit groups: the last one before the decimal separator, then
+   * the ones before it (e.g., `[3, 3]` for "1,234,567", `[3, 2]` for the Indian "12,34,567").
+   */
+  groupSizes: [number, number];
+  /**
+   * @description The locale's digits, indexed by their value (e.g., "٠" to "٩" for Arabic-Indic).
+   */
+  digits: string[];
+}
+
+/**
+ * @interface LocaleDecimal
+ * @description A number read from a locale-specific string, as a plain decimal string
+ * (e.g., "-1234.56") that `parseDecimal` and the `of()` factories understand without any loss.
+ */
+export interface LocaleDecimal {
+  decimal: string;
+  fractionDigits: number;
+}
+
+/**
+ * @constant BIDI_MARKS
+ * @description Invisible direction marks that some locales (Arabic, Hebrew...) wrap around signs and symbols.
+ */
+export const BIDI_MARKS = /[\u200e\u200f\u061c]/g;
+
+/**
+ * @private
+ * @description Cache of the Intl-derived symbols, which are expensive to compute and never change.
+ */
+const localeNumberSymbolsCache = new Map<string, LocaleNumberSymbols>();
+
+/**
+ * @function getLocaleNumberSymbols
+ * @description Reads the group separator, decimal separator, minus sign, percent sign and digits
+ * of a locale from `Intl.NumberFormat.formatToParts`.
+ * @param {string} [locale] The locale (e.g., 'de-DE'). Defaults to the runtime locale.
+ * @returns {LocaleNumberSymbols} The locale's number symbols.
+ */
+export function getLocaleNumberSymbols(locale?: string): LocaleNumberSymbols {
+  const cacheKey = locale ?? "";
+  const cached = localeNumberSymbolsCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const numberParts = new Intl.NumberFormat(locale).formatToParts(-1234567.8);
+  const parts = [
+    ...numberParts,
+    ...new Intl.NumberFormat(locale, { style: "percent" }).formatToParts(1),
+  ];
+  const partValue = (type: Intl.NumberFormatPartTypes, fallback: string): string =>
+    (parts.find((part) => part.type === type)?.value ?? fallback).replace(BIDI_MARKS, "");
+  // "1,234,567" gives the group sizes; locales that do not group fall back to thousands
+  const integerGroups = numberParts
+    .filter(({ type }) => type === "integer")
+    .map(({ value }) => value);
+  const [secondaryGroupSize, primaryGroupSize] =
+    integerGroups.length > 2 ? integerGroups.slice(-2).map(({ length }) => length) : [3, 3];
+  const digitFormatter = new Intl.NumberFormat(locale, { useGrouping: false });
+  const symbols: LocaleNumberSymbols = {
+    group: partValue("group", ","),
+    decimal: partValue("decimal", "."),
+    minusSign: partValue("minusSign", "-"),
+    percentSign: partValue("percentSign", "%"),
+    groupSizes: [primaryGroupSize, secondaryGroupSize],
+    digits: Array.from({ length: 10 }, (_, digit) => digitFormatter.format(digit)),
+  };
+  localeNumberSymbolsCache.set(cacheKey, symbols);
+  return symbols;
+}
+
+/**
+ * @private
+ * @function hasValidGrouping
+ * @description Checks that digit groups are written the way the locale groups them: a first group
+ * of one digit or more, then groups of the locale's sizes (e.g., "1,234,567" but not "1,5" or
+ * "12,34" in 'en-US'), so that a mistyped separator is not silently read as a group separator.
+ * @param {string[]} groups The integer digits, split at the group separators.
+ * @param {[number, number]} groupSizes The locale's last and other group sizes.
+ * @returns {boolean} True if the grouping is valid, false otherwise.
+ */
+function hasValidGrouping(
+  groups: string[],
+  [primarySize, secondarySize]: [number, number],
+): boolean {
+  const [first, ...others] = groups;
+  const last = others.pop();
+  const firstMaxLength = others.length === 0 ? primarySize : secondarySize;
+  return (
+    first.length >= 1 &&
+    first.length <= firstMaxLength &&
+    last?.length === primarySize &&
+    others.every(({ length }) => length === secondarySize)
+  );
+}
+
+/**
+ * @function readLocaleDecimal
+ * @description Reads a number written for a locale, once any currency or percent sign has been
+ * removed: whitespace is ignored, the locale's group and decimal separators and digits are
+ * understood (ASCII digits are always accepted too), and negatives can be written with the
+ * locale's minus sign, before or after the number, or in accounting-style parentheses.
+ * Group separators are optional, but must separate groups of the locale's sizes, so "1,5" is
+ * rejected for 'en-US' rather than read as 15.
+ * @param {string} text The number to read (e.g., "1.234,56" for 'de-DE').
+ * @param {string | undefined} locale The locale it was written for. Defaults to the runtime locale.
+ * @param {(reason: string) => Error} fail Creates the error to throw, from a human-readable
+ * reason, so each caller reports failures with its own error class.
+ * @returns {LocaleDecimal} The number as a plain decimal string, and its number of fraction digits.
+ * @throws {Error} The error created by `fail`, if `text` is not a well-formed number for the locale.
+ * @example
+ * readLocaleDecimal("1.234,56", "de-DE", (reason) => new Error(reason)); // { decimal: "1234.56", fractionDigits: 2 }
+ * readLocaleDecimal("(١٬٢٣٤)", "ar-EG", (reason) => new Error(reason)); // { decimal: "-1234.", fractionDigits: 0 }
+ */
+export function readLocaleDecimal(
+  text: string,
+  locale: string | undefined,
+  fail: (reason: string) => Error,
+): LocaleDecimal {
+  const symbols = getLocaleNumberSymbols(locale);
+  let rest = text.replace(BIDI_MARKS, "").replace(/\s+/g, "");
+
+  // Accounting negatives are wrapped in parentheses: "(1,234.56)"
+  let isNegative = false;
+  if (rest.startsWith("(") && rest.endsWith(")")) {
+    isNegative = true;
+    rest = rest.slice(1, -1);
+  }
+  for (const sign of new Set([symbols.minusSign, "-", "\u2212"])) {
+    if (rest.startsWith(sign) || rest.endsWith(sign)) {
+      isNegative = true;
+      rest = rest.startsWith(sign) ? rest.slice(sign.length) : rest.slice(0, -sign.length);
+      break;
+    }
+  }
+  if (!isNegative && rest.startsWith("+")) {
+    rest = rest.slice(1);
+  }
+
+  // The integer digits, split at the group separators
+  const integerGroups = [""];
+  let fractionDigits: string | null = null;
+  for (const char of rest) {
+    const localDigit = symbols.digits.indexOf(char);
+    const digit = localDigit !== -1 ? String(localDigit) : /[0-9]/.test(char) ? char : null;
+    if (digit !== null) {
+      if (fractionDigits === null) {
+        integerGroups[integerGroups.length - 1] += digit;
+      } else {
+        fractionDigits += digit;
+      }
+    } else if (char === symbols.decimal && fractionDigits === null) {
+      fractionDigits = "";
+    } else if (char === symbols.group && fractionDigits === null) {
+      integerGroups.push("");
+    } else {
+      throw fail(`unexpected character "${char}" for locale ${locale ?? "default"}.`);
+    }
+  }
+  const integerDigits = integerGroups.join("");
+  if (integerDigits === "" && !fractionDigits) {
+    throw fail("it does not contain any digit.");
+  }
+  if (integerGroups.length > 1 && !hasValidGrouping(integerGroups, symbols.groupSizes)) {
+    throw fail(
+      `the group separator "${symbols.group}" is misplaced for locale ${locale ?? "default"}.`,
+    );
+  }
+
+  return {
+    decimal: `${isNegative ? "-" : ""}${integerDigits || "0"}.${fractionDigits ?? ""}`,
+    fractionDigits: fractionDigits?.length ?? 0,
+  };
+}
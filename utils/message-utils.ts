@@ -0,0 +1,564 @@
+/**
+ * @module message-utils
+ * @description ICU MessageFormat templates for `StringUtils.template()`, without an i18n library:
+ * "{count, plural, one {# item} other {# items}} in {name}'s cart". Plural categories come from
+ * `Intl.PluralRules`, numbers and dates are formatted with `Intl.NumberFormat` and
+ * `Intl.DateTimeFormat`, and malformed templates throw a `MessageFormatError` with the position.
+ */
+
+/**
+ * @typedef {string | number | bigint | boolean | Date} MessageValue
+ * @description A value that can fill a template argument.
+ */
+export type MessageValue = string | number | bigint | boolean | Date;
+
+/**
+ * @typedef {Record<string, MessageValue>} MessageValues
+ * @description The values of a template's arguments, by argument name.
+ */
+export type MessageValues = Readonly<Record<string, MessageValue>>;
+
+/**
+ * @class MessageFormatError
+ * @description Thrown when a template is malformed, or when a value is missing or of the wrong type.
+ */
+export class MessageFormatError extends Error {
+  /**
+   * @param {string} template The template that failed.
+   * @param {number} position The index in `template` where the problem is.
+   * @param {string} reason A human-readable explanation of the problem.
+   */
+  constructor(
+    public readonly template: string,
+    public readonly position: number,
+    reason: string,
+  ) {
+    super(`Invalid message "${template}" at position ${position}: ${reason}`);
+    this.name = "MessageFormatError";
+  }
+}
+
+/**
+ * @private
+ * @typedef MessageNode
+ * @description A parsed piece of a template. Arguments keep their position for error messages.
+ */
+type MessageNode =
+  | { type: "text"; text: string }
+  | { type: "pound" }
+  | { type: "argument"; name: string; position: number }
+  | {
+      type: "number";
+      name: string;
+      position: number;
+      options: Intl.NumberFormatOptions;
+    }
+  | {
+      type: "date";
+      name: string;
+      position: number;
+      options: Intl.DateTimeFormatOptions;
+    }
+  | {
+      type: "plural";
+      name: string;
+      position: number;
+      ordinal: boolean;
+      offset: number;
+      options: Map<string, MessageNode[]>;
+    }
+  | { type: "select"; name: string; position: number; options: Map<string, MessageNode[]> };
+
+/**
+ * @private
+ * @constant PLURAL_CATEGORIES
+ * @description The plural categories `Intl.PluralRules` can return, valid as plural selectors.
+ */
+const PLURAL_CATEGORIES = new Set(["zero", "one", "two", "few", "many", "other"]);
+
+/**
+ * @private
+ * @constant DATE_STYLES
+ * @description The styles of `date` and `time` arguments, as in `Intl.DateTimeFormat`.
+ */
+const DATE_STYLES = new Set(["short", "medium", "long", "full"]);
+
+/**
+ * @private
+ * @constant MAX_FRACTION_DIGITS
+ * @description The most fraction digits a precision such as `.00` may ask for: older `Intl`
+ * implementations, such as the one in Node 20, reject more than 20.
+ */
+const MAX_FRACTION_DIGITS = 20;
+
+/**
+ * @private
+ * @function toNumberFormatOptions
+ * @description Reads the style of a `number` argument: `integer`, `percent`, or a skeleton after
+ * "::" made of `currency/EUR`, `compact-short`, `compact-long`, `group-off`,
+ * `precision-integer` and fraction precisions such as `.00` or `.0#`.
+ * @returns {Intl.NumberFormatOptions | null} The options, or null if the style is not supported.
+ */
+const toNumberFormatOptions = (style: string): Intl.NumberFormatOptions | null => {
+  if (style === "integer") {
+    return { maximumFractionDigits: 0 };
+  }
+  if (style === "percent") {
+    return { style: "percent" };
+  }
+  if (!style.startsWith("::")) {
+    return null;
+  }
+  const options: Intl.NumberFormatOptions = {};
+  for (const token of style.slice(2).trim().split(/\s+/)) {
+    const currency = /^currency\/([A-Za-z]{3})$/.exec(token);
+    const precision = /^\.(0*)(#*)$/.exec(token);
+    if (currency !== null) {
+      Object.assign(options, { style: "currency", currency: currency[1].toUpperCase() });
+    } else if (token === "compact-short" || token === "compact-long") {
+      Object.assign(options, { notation: "compact", compactDisplay: token.slice(8) });
+    } else if (token === "group-off") {
+      options.useGrouping = false;
+    } else if (token === "precision-integer") {
+      options.maximumFractionDigits = 0;
+    } else if (precision !== null) {
+      options.minimumFractionDigits = precision[1].length;
+      options.maximumFractionDigits = precision[1].length + precision[2].length;
+    } else {
+      return null;
+    }
+  }
+  return options;
+};
+
+/**
+ * @private
+ * @class MessageParser
+ * @description Parses a template into nodes, following the ICU MessageFormat syntax: arguments in
+ * braces, `#` for the number in plural options, and apostrophes to quote special characters
+ * ("'{'" is a literal brace, "''" a literal apostrophe, and a lone apostrophe, as in "name's",
+ * is kept as it is).
+ */
+class MessageParser {
+  /**
+   * @private
+   * @description The index of the next character to read.
+   */
+  private position = 0;
+
+  /**
+   * @param {string} template The template to parse.
+   */
+  constructor(private readonly template: string) {}
+
+  /**
+   * @method parse
+   * @description Parses the whole template.
+   * @returns {MessageNode[]} Its nodes.
+   * @throws {MessageFormatError} If the template is malformed.
+   */
+  parse(): MessageNode[] {
+    const nodes = this.parseMessage(false);
+    if (this.position < this.template.length) {
+      throw this.error(`unexpected "}" (write '}' to show a brace).`);
+    }
+    return nodes;
+  }
+
+  /**
+   * @private
+   * @method error
+   * @description Creates the error for a problem at a position (the current one by default).
+   */
+  private error(reason: string, position: number = this.position): MessageFormatError {
+    return new MessageFormatError(this.template, position, reason);
+  }
+
+  /**
+   * @private
+   * @method parseMessage
+   * @description Parses text and arguments until a closing brace or the end of the template.
+   * @param {boolean} inPlural Whether this is an option of a plural argument, where `#` is special.
+   */
+  private parseMessage(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = "";
+    const flushText = () => {
+      if (text !== "") {
+        nodes.push({ type: "text", text });
+        text = "";
+      }
+    };
+    while (this.position < this.template.length) {
+      const char = this.template[this.position];
+      if (char === "}") {
+        break;
+      }
+      if (char === "{") {
+        flushText();
+        nodes.push(this.parseArgument());
+      } else if (char === "#" && inPlural) {
+        flushText();
+        nodes.push({ type: "pound" });
+        this.position++;
+      } else if (char === "'") {
+        text += this.parseApostrophe(inPlural);
+      } else {
+        text += char;
+        this.position++;
+      }
+    }
+    flushText();
+    return nodes;
+  }
+
+  /**
+   * @private
+   * @method parseApostrophe
+   * @description Reads an apostrophe: a doubled one, a quoted literal, or a plain apostrophe.
+   * @returns {string} The literal text it stands for.
+   */
+  private parseApostrophe(inPlural: boolean): string {
+    const start = this.position;
+    const next = this.template[start + 1];
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+    if (next !== "{" && next !== "}" && !(next === "#" && inPlural)) {
+      this.position++;
+      return "'";
+    }
+    let text = "";
+    this.position++;
+    while (this.position < this.template.length) {
+      const char = this.template[this.position];
+      if (char === "'" && this.template[this.position + 1] === "'") {
+        text += "'";
+        this.position += 2;
+      } else if (char === "'") {
+        this.position++;
+        return text;
+      } else {
+        text += char;
+        this.position++;
+      }
+    }
+    throw this.error("unterminated quote: a quoted text must end with an apostrophe.", start);
+  }
+
+  /**
+   * @private
+   * @method parseArgument
+   * @description Parses an argument, from its opening brace to its closing brace.
+   */
+  private parseArgument(): MessageNode {
+    const start = this.position;
+    this.position++;
+    const name = this.readWord();
+    if (name === "") {
+      throw this.error("expected an argument name.");
+    }
+    if (this.consume("}")) {
+      return { type: "argument", name, position: start };
+    }
+    if (!this.consume(",")) {
+      throw this.error(`expected "}" or "," after the argument name "${name}".`);
+    }
+    const typeStart = this.position;
+    const type = this.readWord();
+    switch (type) {
+      case "number":
+      case "date":
+      case "time":
+        return this.parseFormattedArgument(name, start, type);
+      case "plural":
+      case "selectordinal":
+      case "select":
+        this.expect(",");
+        return this.parseOptions(name, start, type);
+      default:
+        throw this.error(
+          `unknown argument type "${type}" (expected number, date, time, plural, selectordinal or select).`,
+          typeStart,
+        );
+    }
+  }
+
+  /**
+   * @private
+   * @method parseFormattedArgument
+   * @description Parses the rest of a `number`, `date` or `time` argument: an optional style.
+   */
+  private parseFormattedArgument(
+    name: string,
+    start: number,
+    type: "number" | "date" | "time",
+  ): MessageNode {
+    let style: string | undefined;
+    let styleStart = this.position;
+    if (this.consume(",")) {
+      this.skipSpaces();
+      styleStart = this.position;
+      const end = this.template.indexOf("}", this.position);
+      style = this.template.slice(this.position, end === -1 ? undefined : end).trim();
+      this.position = end === -1 ? this.template.length : end;
+    }
+    this.expect("}");
+    if (type === "number") {
+      const options = style === undefined ? {} : toNumberFormatOptions(style);
+      if (options === null) {
+        throw this.error(
+          `unknown number style "${style}" (expected integer, percent or a "::" skeleton).`,
+          styleStart,
+        );
+      }
+      if ((options.maximumFractionDigits ?? 0) > MAX_FRACTION_DIGITS) {
+        throw this.error(
+          `the precision of "${style}" has more than ${MAX_FRACTION_DIGITS} fraction digits.`,
+          styleStart,
+        );
+      }
+      return { type: "number", name, position: start, options };
+    }
+    if (style !== undefined && !DATE_STYLES.has(style)) {
+      throw this.error(
+        `unknown ${type} style "${style}" (expected short, medium, long or full).`,
+        styleStart,
+      );
+    }
+    const dateStyle = (style ?? "medium") as Intl.DateTimeFormatOptions["dateStyle"];
+    const options: Intl.DateTimeFormatOptions =
+      type === "date" ? { dateStyle } : { timeStyle: dateStyle };
+    return { type: "date", name, position: start, options };
+  }
+
+  /**
+   * @private
+   * @method parseOptions
+   * @description Parses the options of a `plural`, `selectordinal` or `select` argument, up to its
+   * closing brace. Plural arguments may start with an `offset:n`, and all need an `other` option.
+   */
+  private parseOptions(
+    name: string,
+    start: number,
+    type: "plural" | "selectordinal" | "select",
+  ): MessageNode {
+    this.skipSpaces();
+    let offset = 0;
+    if (type === "plural" && this.template.startsWith("offset:", this.position)) {
+      this.position += "offset:".length;
+      const digits = this.readWord();
+      if (!/^\d+$/.test(digits)) {
+        throw this.error("expected a whole number after offset:.");
+      }
+      offset = Number(digits);
+    }
+    const options = new Map<string, MessageNode[]>();
+    for (this.skipSpaces(); !this.consume("}"); this.skipSpaces()) {
+      if (this.position >= this.template.length) {
+        throw this.error(`missing "}" at the end of the ${type} argument "${name}".`, start);
+      }
+      const selectorStart = this.position;
+      const selector = this.consume("=") ? `=${this.readWord()}` : this.readWord();
+      if (
+        type === "select"
+          ? selector === "" || selector.startsWith("=")
+          : !PLURAL_CATEGORIES.has(selector) && !/^=\d+(\.\d+)?$/.test(selector)
+      ) {
+        throw this.error(
+          type === "select"
+            ? "expected a selector word."
+            : "expected a plural category (zero, one, two, few, many, other) or an exact value (=0).",
+          selectorStart,
+        );
+      }
+      if (options.has(selector)) {
+        throw this.error(`duplicate selector "${selector}".`, selectorStart);
+      }
+      this.expect("{");
+      options.set(selector, this.parseMessage(type !== "select"));
+      this.expect("}");
+    }
+    if (!options.has("other")) {
+      throw this.error(`the ${type} argument "${name}" has no "other" option.`, start);
+    }
+    return type === "select"
+      ? { type, name, position: start, options }
+      : {
+          type: "plural",
+          name,
+          position: start,
+          ordinal: type === "selectordinal",
+          offset,
+          options,
+        };
+  }
+
+  /**
+   * @private
+   * @method readWord
+   * @description Reads a name or keyword (letters, digits, `_`), after any whitespace, and the
+   * whitespace after it.
+   * @returns {string} The word; empty if there is none.
+   */
+  private readWord(): string {
+    this.skipSpaces();
+    const pattern = /[\p{L}\p{N}_.-]*/uy;
+    pattern.lastIndex = this.position;
+    const word = pattern.exec(this.template)?.[0] ?? "";
+    this.position += word.length;
+    this.skipSpaces();
+    return word;
+  }
+
+  /**
+   * @private
+   * @method skipSpaces
+   * @description Moves past any whitespace.
+   */
+  private skipSpaces(): void {
+    while (/\s/.test(this.template.charAt(this.position))) {
+      this.position++;
+    }
+  }
+
+  /**
+   * @private
+   * @method consume
+   * @description Moves past a character if it comes next, after any whitespace.
+   * @returns {boolean} True if the character was there.
+   */
+  private consume(char: string): boolean {
+    this.skipSpaces();
+    if (this.template[this.position] !== char) {
+      return false;
+    }
+    this.position++;
+    return true;
+  }
+
+  /**
+   * @private
+   * @method expect
+   * @description Moves past a character that must come next, after any whitespace.
+   * @throws {MessageFormatError} If another character, or the end of the template, comes instead.
+   */
+  private expect(char: string): void {
+    if (!this.consume(char)) {
+      const found = this.template[this.position];
+      throw this.error(
+        found === undefined
+          ? `expected "${char}" but the message ended.`
+          : `expected "${char}" but found "${found}".`,
+      );
+    }
+  }
+}
+
+/**
+ * @function formatMessage
+ * @description Fills an ICU MessageFormat template with values, for a locale. Supported syntax:
+ * - `{name}`: the value; numbers and dates are formatted for the locale.
+ * - `{name, number}`, `{name, number, integer|percent}`, `{price, number, ::currency/EUR}`:
+ *   a formatted number (skeletons also accept `compact-short`, `compact-long`, `group-off`,
+ *   `precision-integer` and precisions such as `.00`, of at most 20 fraction digits).
+ * - `{day, date}`, `{at, time, short}`: a formatted date or time (short, medium, long or full).
+ * - `{count, plural, =0 {none} one {# item} other {# items}}`: the option for the count's plural
+ *   category (`offset:n` subtracts from the count), where `#` is the formatted count.
+ * - `{place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}`: ordinal categories.
+ * - `{gender, select, female {her} male {his} other {their}}`: the option matching the value.
+ * Apostrophes quote special characters: "'{'" shows a brace and "''" an apostrophe.
+ * @param {string} template The template.
+ * @param {MessageValues} values The values of its arguments.
+ * @param {string} [locale] The locale for plural rules and formatting. Defaults to the runtime locale.
+ * @returns {string} The message.
+ * @throws {MessageFormatError} If the template is malformed, or a value is missing, of the wrong type or an invalid date.
+ * @example
+ * formatMessage("{count, plural, one {# item} other {# items}} in {name}'s cart", { count: 3, name: "Ana" }, "en");
+ * // "3 items in Ana's cart"
+ * formatMessage("{count, plural, one {# article} other {# articles}}", { count: 1.5 }, "fr"); // "1,5 article"
+ */
+export const formatMessage = (template: string, values: MessageValues, locale?: string): string => {
+  const valueOf = (name: string, position: number): MessageValue => {
+    const value = Object.hasOwn(values, name) ? values[name] : undefined;
+    if (value === undefined) {
+      throw new MessageFormatError(template, position, `no value was given for "${name}".`);
+    }
+    return value;
+  };
+  const numberOf = (name: string, position: number): number | bigint => {
+    const value = valueOf(name, position);
+    if (typeof value !== "number" && typeof value !== "bigint") {
+      throw new MessageFormatError(template, position, `"${name}" must be a number.`);
+    }
+    return value;
+  };
+  const dateOf = (name: string, position: number): Date | number => {
+    const value = valueOf(name, position);
+    if (!(value instanceof Date) && typeof value !== "number") {
+      throw new MessageFormatError(template, position, `"${name}" must be a Date or a timestamp.`);
+    }
+    // Invalid dates (new Date(NaN)) and timestamps out of the Date range cannot be formatted
+    if (Number.isNaN(new Date(value).valueOf())) {
+      throw new MessageFormatError(template, position, `"${name}" is not a valid date.`);
+    }
+    return value;
+  };
+  const otherOf = (name: string, position: number, options: Map<string, MessageNode[]>) => {
+    const other = options.get("other");
+    if (other === undefined) {
+      throw new MessageFormatError(template, position, `"${name}" has no "other" option.`);
+    }
+    return other;
+  };
+  // `pound` is the number a plural option shows for "#", and null outside plural options, where
+  // the parser keeps "#" as text
+  const format = (nodes: MessageNode[], pound: number | null): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return node.text;
+          case "pound":
+            return pound === null ? "#" : new Intl.NumberFormat(locale).format(pound);
+          case "argument": {
+            const value = valueOf(node.name, node.position);
+            if (typeof value === "number" || typeof value === "bigint") {
+              return new Intl.NumberFormat(locale).format(value);
+            }
+            return value instanceof Date
+              ? new Intl.DateTimeFormat(locale).format(dateOf(node.name, node.position))
+              : String(value);
+          }
+          case "number":
+            return new Intl.NumberFormat(locale, node.options).format(
+              numberOf(node.name, node.position),
+            );
+          case "date":
+            return new Intl.DateTimeFormat(locale, node.options).format(
+              dateOf(node.name, node.position),
+            );
+          case "plural": {
+            const count = Number(numberOf(node.name, node.position));
+            const category = new Intl.PluralRules(locale, {
+              type: node.ordinal ? "ordinal" : "cardinal",
+            }).select(count - node.offset);
+            const option =
+              node.options.get(`=${count}`) ??
+              node.options.get(category) ??
+              otherOf(node.name, node.position, node.options);
+            return format(option, count - node.offset);
+          }
+          case "select": {
+            const value = String(valueOf(node.name, node.position));
+            return format(
+              node.options.get(value) ?? otherOf(node.name, node.position, node.options),
+              null,
+            );
+          }
+        }
+      })
+      .join("");
+  return format(new MessageParser(template).parse(), null);
+};
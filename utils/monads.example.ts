@@ -0,0 +1,33 @@
+/**
+ * @file monads.example.ts
+ * @description Runnable examples for the Either monad. They live outside `monads.ts`, which the
+ * other utils import, so that importing it prints nothing.
+ * Run them with `npx tsx utils/monads.example.ts`.
+ */
+
+import { Either, type IEither } from "./monads";
+
+console.log("\n--- Either Examples ---");
+
+const parseAge = (input: string): IEither<string, number> => {
+  const age = Number(input);
+  return Number.isInteger(age) ? Either.right(age) : Either.left(`"${input}" is not an age.`);
+};
+const checkAdult = (age: number): IEither<string, number> =>
+  age >= 18 ? Either.right(age) : Either.left("Must be 18 or older to proceed.");
+
+for (const input of ["42", "12", "abc"]) {
+  const message = parseAge(input)
+    .flatMap(checkAdult)
+    .map((age) => `Welcome! (${age})`)
+    .fold(
+      (error) => `Rejected: ${error}`,
+      (greeting) => greeting,
+    );
+  console.log(input, "→", message); // Welcome! (42) / Rejected: Must be 18... / Rejected: "abc" is not an age.
+}
+
+const parsedConfig = Either.tryCatch(() => JSON.parse("{ not json"));
+if (parsedConfig.isLeft()) {
+  console.log("Config error:", parsedConfig.value.name); // SyntaxError
+}
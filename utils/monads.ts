@@ -0,0 +1,143 @@
+/**
+ * @module monads
+ * @description The synchronous `Either` monad described in `patterns/monads-either-maybe.md`.
+ * An `Either` holds a failure (`Left`, usually an Error) or a success (`Right`), so the `try*`
+ * methods of the utils can report invalid input as a value instead of throwing or silently
+ * producing a wrong result.
+ */
+
+/**
+ * @interface IEither
+ * @description A value that is either a failure (`Left`) or a success (`Right`), never both.
+ * Operations on a Left are skipped, so a failure flows through a chain until it is handled.
+ */
+export interface IEither<L, R> {
+  /**
+   * @method isLeft
+   * @description Type guard: true if the Either holds a failure, which is then readable as `value`.
+   */
+  isLeft(): this is Left<L, R>;
+
+  /**
+   * @method isRight
+   * @description Type guard: true if the Either holds a success, which is then readable as `value`.
+   */
+  isRight(): this is Right<L, R>;
+
+  /**
+   * @method fold
+   * @description Reduces the Either to a single, non-monadic result by applying one of two functions.
+   */
+  fold<TResult>(onLeft: (value: L) => TResult, onRight: (value: R) => TResult): TResult;
+
+  /**
+   * @method map
+   * @description Transforms the Right value. A Left is passed along unchanged.
+   */
+  map<TNewRight>(f: (value: R) => TNewRight): IEither<L, TNewRight>;
+
+  /**
+   * @method flatMap
+   * @description Chains an operation that can fail itself, i.e. that returns another Either.
+   * A Left is passed along unchanged.
+   */
+  flatMap<TNewRight>(f: (value: R) => IEither<L, TNewRight>): IEither<L, TNewRight>;
+}
+
+/**
+ * @class Left
+ * @description The failure side of an Either.
+ */
+export class Left<L, R> implements IEither<L, R> {
+  /**
+   * @param {L} value The failure, usually an Error.
+   */
+  constructor(public readonly value: L) {}
+
+  isLeft(): this is Left<L, R> {
+    return true;
+  }
+
+  isRight(): this is Right<L, R> {
+    return false;
+  }
+
+  fold<TResult>(onLeft: (value: L) => TResult, _onRight: (value: R) => TResult): TResult {
+    return onLeft(this.value);
+  }
+
+  map<TNewRight>(_f: (value: R) => TNewRight): IEither<L, TNewRight> {
+    return new Left<L, TNewRight>(this.value);
+  }
+
+  flatMap<TNewRight>(_f: (value: R) => IEither<L, TNewRight>): IEither<L, TNewRight> {
+    return new Left<L, TNewRight>(this.value);
+  }
+}
+
+/**
+ * @class Right
+ * @description The success side of an Either.
+ */
+export class Right<L, R> implements IEither<L, R> {
+  /**
+   * @param {R} value The successful result.
+   */
+  constructor(public readonly value: R) {}
+
+  isLeft(): this is Left<L, R> {
+    return false;
+  }
+
+  isRight(): this is Right<L, R> {
+    return true;
+  }
+
+  fold<TResult>(_onLeft: (value: L) => TResult, onRight: (value: R) => TResult): TResult {
+    return onRight(this.value);
+  }
+
+  map<TNewRight>(f: (value: R) => TNewRight): IEither<L, TNewRight> {
+    return new Right<L, TNewRight>(f(this.value));
+  }
+
+  flatMap<TNewRight>(f: (value: R) => IEither<L, TNewRight>): IEither<L, TNewRight> {
+    return f(this.value);
+  }
+}
+
+/**
+ * @constant Either
+ * @description Factories for Either values.
+ */
+export const Either = {
+  /**
+   * @description Wraps a failure.
+   * @example
+   * Either.left<string, number>("Invalid input").map((n) => n * 2); // Left("Invalid input")
+   */
+  left: <L, R>(value: L): IEither<L, R> => new Left<L, R>(value),
+
+  /**
+   * @description Wraps a success.
+   * @example
+   * Either.right<string, number>(5).map((n) => n * 2); // Right(10)
+   */
+  right: <L, R>(value: R): IEither<L, R> => new Right<L, R>(value),
+
+  /**
+   * @description Runs a function that may throw and captures the outcome: its result as a Right,
+   * or the thrown error as a Left (anything thrown that is not an Error is wrapped in one).
+   * This is the bridge between throwing APIs (e.g., strict mode) and Either-returning ones.
+   * @example
+   * Either.tryCatch(() => JSON.parse("{")); // Left(SyntaxError)
+   * Either.tryCatch(() => JSON.parse("{}")); // Right({})
+   */
+  tryCatch: <R>(f: () => R): IEither<Error, R> => {
+    try {
+      return new Right<Error, R>(f());
+    } catch (error) {
+      return new Left<Error, R>(error instanceof Error ? error : new Error(String(error)));
+    }
+  },
+};
@@ -0,0 +1,214 @@
+/**
+ * @file money-utils.example.ts
+ * @description Runnable examples for MoneyUtils and MoneyBag. They live outside `money-utils.ts`
+ * so that importing it prints nothing and leaves the global currency registry as it is (the
+ * examples register custom currencies). Run them with `npx tsx utils/money-utils.example.ts`.
+ */
+
+import { CurrencyRegistry } from "./currency-registry";
+import { MoneyBag, MoneyUtils, StaticExchangeRateProvider } from "./money-utils";
+
+console.log("--- MoneyUtils Examples ---");
+
+// Basic creation and value retrieval
+const price1 = MoneyUtils.of(123.45, "USD");
+console.log("Price 1:", price1.value, price1.currency, "cents:", price1.cents); // 123.45 USD cents: 12345
+
+const price2 = MoneyUtils.of("75.89", "EUR");
+console.log("Price 2:", price2.value, price2.currency, "cents:", price2.cents); // 75.89 EUR cents: 7589
+
+const price3 = MoneyUtils.of(500, "JPY"); // JPY has 0 decimal places in ISO 4217, so the scale is inferred
+console.log("Price 3 (JPY):", price3.value, price3.currency, "cents:", price3.cents); // 500 JPY cents: 500
+
+// Exact decimal parsing and bigint storage
+console.log("1.005 USD cents:", MoneyUtils.of("1.005").cents); // 101 (no floating-point misrounding)
+CurrencyRegistry.register({ code: "ETH", minorUnit: 18, symbol: "Ξ" });
+const weiBalance = MoneyUtils.of("123456.789012345678901234", "ETH");
+console.log("ETH minor units:", weiBalance.minorUnits); // 123456789012345678901234n
+console.log("ETH doubled:", weiBalance.multiply(2).amount); // "246913.578024691357802468"
+
+// Arithmetic operations
+const totalCost = MoneyUtils.of(100.5)
+  .add(20.75, "5.25") // 100.50 + 20.75 + 5.25 = 126.50
+  .subtract(10) // 126.50 - 10 = 116.50
+  .multiply(2) // 116.50 * 2 = 233.00
+  .divide(4).value; // 233.00 / 4 = 58.25
+console.log("Total Cost (chained arithmetic):", totalCost); // Output: 58.25
+
+// Percentage calculations
+const itemPrice = MoneyUtils.of(150);
+const taxAmount = itemPrice.toPercentage(8).value; // 8% of 150 = 12
+console.log("8% of 150:", taxAmount); // Output: 12
+
+const priceWithTax = MoneyUtils.of(150).addPercentage(8).value; // 150 + 8% = 162
+console.log("150 + 8% tax:", priceWithTax); // Output: 162
+
+const discountedPrice = MoneyUtils.of(200).subtractPercentage(25).value; // 200 - 25% = 150
+console.log("200 - 25% discount:", discountedPrice); // Output: 150
+
+// Lossless allocation and splitting
+const invoiceShares = MoneyUtils.of(100).split(3);
+console.log(
+  "100 split in 3:",
+  invoiceShares.map((share) => share.value),
+); // [33.34, 33.33, 33.33]
+
+const payerShares = MoneyUtils.of(0.05).allocate([30, 70]);
+console.log(
+  "0.05 allocated 30/70:",
+  payerShares.map((share) => share.value),
+); // [0.02, 0.03]
+
+const refundShares = MoneyUtils.of(-10).allocate([1, 0, 2]);
+console.log(
+  "-10 allocated 1:0:2:",
+  refundShares.map((share) => share.value),
+); // [-3.34, 0, -6.66]
+
+// Immutable mode: operations return new frozen instances and leave the original untouched
+const cartPrice = MoneyUtils.of(150).immutable();
+const cartTax = cartPrice.toPercentage(8);
+console.log("Immutable price:", cartPrice.value, "tax:", cartTax.value); // 150 tax: 12
+console.log("Price + tax equals 162?", cartPrice.add(cartTax).equals(MoneyUtils.of(162))); // true
+console.log("Price still 150?", cartPrice.value, Object.isFrozen(cartPrice)); // 150 true
+
+// Aggregation: static helpers that never mutate the items
+const lineItems = [MoneyUtils.of(19.99), MoneyUtils.of(5), MoneyUtils.of(12.5)];
+console.log("Sum of line items:", MoneyUtils.sum(lineItems).value); // 37.49
+console.log(
+  "Cheapest / dearest:",
+  MoneyUtils.min(lineItems).value,
+  MoneyUtils.max(lineItems).value,
+); // 5 19.99
+console.log("Average:", MoneyUtils.average(lineItems).value); // 12.5
+console.log("Sorted:", [...lineItems].sort(MoneyUtils.compare).map(String)); // ["5.00 USD", "12.50 USD", "19.99 USD"]
+console.log("First item untouched:", lineItems[0].value); // 19.99
+
+// JSON serialization: lossless minor units, revived anywhere in a payload
+const cartJSON = JSON.stringify({ items: [{ sku: "A1", price: MoneyUtils.of(19.99) }] });
+console.log("Serialized cart:", cartJSON); // {"items":[{"sku":"A1","price":{"amount":"1999","currency":"USD","scale":2}}]}
+const revivedCart = JSON.parse(cartJSON, MoneyUtils.reviver);
+console.log("Revived price:", revivedCart.items[0].price.add(0.01).value); // 20
+console.log(
+  "Hydrated JPY:",
+  MoneyUtils.fromJSON('{"amount":"500","currency":"JPY","scale":0}').value,
+); // 500
+
+// Format presets: accounting negatives, compact dashboards, amounts in words for cheques
+console.log("Accounting:", MoneyUtils.of(-1234.56).format("en-US", "accounting")); // ($1,234.56)
+console.log("Compact:", MoneyUtils.of(1234567).format("en-US", "compact")); // $1.2M
+console.log("Words (en):", MoneyUtils.of(123.45).format("en-US", "words")); // one hundred twenty-three dollars and 45 cents
+console.log("Words (fr):", MoneyUtils.of(1280.01, "EUR").format("fr-FR", "words")); // mille deux cent quatre-vingts euros et 01 centime
+
+// Scales: unit prices held at 4 decimals, totals settled at 2
+const unitPrice = MoneyUtils.of("0.1234", "USD", 4);
+try {
+  MoneyUtils.of(10).add(unitPrice);
+} catch (error) {
+  console.error("Mixed scales:", (error as Error).message); // Scale mismatch: expected 2 decimal places but received 4. ...
+}
+const lineTotal = MoneyUtils.of(10).withScalePolicy("promote").add(unitPrice.clone().multiply(3));
+console.log("Promoted line total:", lineTotal.amount, lineTotal.scale); // 10.3702 4
+console.log("Settled:", lineTotal.rescale(2).amount); // 10.37
+
+// Strict mode and Either-returning constructors: report invalid input instead of wrong totals
+console.log("Lenient:", MoneyUtils.of("abc").value, MoneyUtils.of(10).divide(0).value); // 0 0
+try {
+  MoneyUtils.of(10).strict().divide(0);
+} catch (error) {
+  console.error("Strict:", (error as Error).name); // DivisionByZeroError
+}
+for (const input of ["19.99", "19,99.9"]) {
+  const quantityTotal = MoneyUtils.tryOf(input).map((price) => price.multiply(3).format("en-US"));
+  console.log(
+    `tryOf("${input}") x 3:`,
+    quantityTotal.fold(
+      (error) => `Error: ${error.message}`,
+      (total) => total,
+    ),
+  ); // $59.97 / Error: Invalid number "19,99.9" passed to strictOf().
+}
+console.log("tryDivide by 0 is Left?", MoneyUtils.of(10).tryDivide(0).isLeft()); // true
+
+// Rounding modes: a per-instance default, overridable per call
+const bankersHalf = MoneyUtils.of(0.25, "USD", 2, "half-even").divide(2);
+console.log("0.25 / 2 (half-even):", bankersHalf.value); // 0.12
+console.log("0.25 / 2 (half-up):", MoneyUtils.of(0.25).divide(2).value); // 0.13
+console.log("10 / 3 (ceiling override):", MoneyUtils.of(10).divide(3, "ceiling").value); // 3.34
+
+// Formatting
+const formattedUSD = MoneyUtils.of(12345.67, "USD").format("en-US");
+console.log("Formatted USD (en-US):", formattedUSD); // Output: $12,345.67
+
+const formattedEUR = MoneyUtils.of(9876.54, "EUR").format("de-DE");
+console.log("Formatted EUR (de-DE):", formattedEUR); // Output: 9.876,54 €
+
+const formattedGBP = MoneyUtils.of(50.25, "GBP").format("en-GB", { currencyDisplay: "symbol" });
+console.log("Formatted GBP (en-GB, symbol):", formattedGBP); // Output: £50.25
+
+const formattedJPY = MoneyUtils.of(1234, "JPY").format("ja-JP");
+console.log("Formatted JPY (ja-JP):", formattedJPY); // Output: ¥1,234
+
+// Currency registry: ISO 4217 scales, validation and custom currencies
+console.log("KWD scale:", MoneyUtils.of(1.5, "KWD").scale); // 3
+CurrencyRegistry.register({ code: "PTS", minorUnit: 0, symbol: "pts" });
+console.log("Loyalty points:", MoneyUtils.of(1500, "PTS").format("en-US")); // 1,500 pts
+try {
+  MoneyUtils.of(10, "XYZ");
+} catch (e) {
+  console.log("Unknown currency:", (e as Error).message); // Unknown currency "XYZ". ...
+}
+
+// Parsing formatted strings back (the inverse of format)
+console.log("Parsed de-DE:", MoneyUtils.parse("1.234,56 €", "de-DE").toString()); // 1234.56 EUR
+console.log("Parsed accounting:", MoneyUtils.parse("($1,234.56)", "en-US").value); // -1234.56
+console.log("Parsed round trip:", MoneyUtils.parse(formattedJPY, "ja-JP").toString()); // 1234 JPY
+console.log("Parsed Arabic digits:", MoneyUtils.parse("١٬٢٣٤٫٥٦ ج.م.‏", "ar-EG").toString()); // 1234.56 EGP
+
+// Comparisons
+console.log("\n--- MoneyUtils Comparison Examples ---");
+const amountA = MoneyUtils.of(100);
+const amountB = MoneyUtils.of(100.0);
+const amountC = MoneyUtils.of(100.01);
+const amountD = MoneyUtils.of(99.99);
+
+console.log("100 isEqual 100.00?", amountA.isEqual(amountB)); // true
+console.log("100 isEqual 100.01?", amountA.isEqual(amountC)); // false
+console.log("100 isLessThan 100.01?", amountA.isLessThan(amountC)); // true
+console.log("100 isMoreThan 99.99?", amountA.isMoreThan(amountD)); // true
+console.log("100 isZero?", amountA.isZero()); // false
+console.log("0 isZero?", MoneyUtils.of(0).isZero()); // true
+console.log("-5 isPositive?", MoneyUtils.of(-5).isPositive()); // false
+console.log("-5 isNegative?", MoneyUtils.of(-5).isNegative()); // true
+
+// Chaining with comparisons
+const finalAmount = MoneyUtils.of(50).add(25).subtract(10); // 65
+
+console.log("Is finalAmount (65) less than 70?", finalAmount.isLessThan(70)); // true
+console.log("Is finalAmount (65) equal to 65?", finalAmount.isEqual(65)); // true
+console.log("Is finalAmount (65) positive?", finalAmount.isPositive()); // true
+
+// Handling different currencies in operations
+// Combining two instances in different currencies throws instead of silently adding the raw numbers:
+const usdAmount = MoneyUtils.of(10, "USD", 2);
+const eurAmount = MoneyUtils.of(5, "EUR", 2);
+
+try {
+  usdAmount.add(eurAmount);
+} catch (e) {
+  console.log("Adding EUR to USD:", (e as Error).message); // Currency mismatch: expected USD but received EUR.
+}
+
+// Convert explicitly through an ExchangeRateProvider first:
+const rates = new StaticExchangeRateProvider({ EUR: { USD: 1.1 } });
+const eurInUsd = eurAmount.convertTo("USD", rates);
+console.log("5 EUR in USD:", eurInUsd.value); // 5.5
+console.log("10 USD + 5 EUR:", usdAmount.add(eurInUsd).value); // 15.5
+console.log("10 USD in EUR:", MoneyUtils.of(10, "USD").convertTo("EUR", rates).value); // 9.09
+
+// A MoneyBag keeps one total per currency and converts only when asked to
+const travelExpenses = MoneyBag.of(MoneyUtils.of(10, "USD"), MoneyUtils.of(5, "EUR")).add(
+  MoneyUtils.of(2.5, "EUR"),
+);
+console.log("Expenses:", travelExpenses.toString()); // 7.50 EUR + 10.00 USD
+console.log("Expenses in USD:", travelExpenses.convertTo("USD", rates).value); // 18.25
@@ -1,17 +1,359 @@
+import { CurrencyRegistry } from "./currency-registry";
+import { FluentValue } from "./fluent-value";
+import { BIDI_MARKS, readLocaleDecimal } from "./locale-utils";
+import { Either, type IEither } from "./monads";
+import { spellOutMoney } from "./spell-out-utils";
+import {
+  DEFAULT_ROUNDING_MODE,
+  DivisionByZeroError,
+  InvalidNumberError,
+  assertRoundingMode,
+  parseDecimal,
+  roundQuotient,
+  type DecimalFraction,
+  type RoundingMode,
+} from "./rounding-utils";
+
+/**
+ * @class CurrencyMismatchError
+ * @description Thrown when an operation combines two MoneyUtils instances that
+ * hold different currencies (e.g., adding EUR to USD without converting first).
+ */
+export class CurrencyMismatchError extends Error {
+  /**
+   * @param {string} expected The currency of the instance the operation was called on.
+   * @param {string} received The currency of the other operand.
+   */
+  constructor(
+    public readonly expected: string,
+    public readonly received: string,
+  ) {
+    super(`Currency mismatch: expected ${expected} but received ${received}.`);
+    this.name = "CurrencyMismatchError";
+  }
+}
+
+/**
+ * @typedef {string} ScalePolicy
+ * @description What happens when an operation combines two amounts with different scales
+ * (e.g., a unit price held at 4 decimals added to a total held at 2):
+ * - `"reject"`: throw a ScaleMismatchError, so precision is never gained or lost silently (default).
+ * - `"promote"`: the result takes the larger scale, which is always lossless.
+ */
+export type ScalePolicy = "reject" | "promote";
+
+/**
+ * @class ScaleMismatchError
+ * @description Thrown when an operation combines two MoneyUtils instances with different scales
+ * while the scale policy is 'reject'. Use `rescale()` to align them explicitly.
+ */
+export class ScaleMismatchError extends Error {
+  /**
+   * @param {number} expected The scale of the instance the operation was called on.
+   * @param {number} received The scale of the other operand.
+   */
+  constructor(
+    public readonly expected: number,
+    public readonly received: number,
+  ) {
+    super(
+      `Scale mismatch: expected ${expected} decimal places but received ${received}. ` +
+        `Call rescale() first, or use withScalePolicy('promote').`,
+    );
+    this.name = "ScaleMismatchError";
+  }
+}
+
+/**
+ * @class ExchangeRateNotFoundError
+ * @description Thrown when an ExchangeRateProvider has no rate for a currency pair.
+ */
+export class ExchangeRateNotFoundError extends Error {
+  /**
+   * @param {string} from The source currency code.
+   * @param {string} to The target currency code.
+   */
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+  ) {
+    super(`No exchange rate available from ${from} to ${to}.`);
+    this.name = "ExchangeRateNotFoundError";
+  }
+}
+
+/**
+ * @interface ExchangeRateProvider
+ * @description The contract `MoneyUtils.convertTo()` relies on to look up exchange rates.
+ * Implement it to plug in any rate source (a cached API response, a database table, etc.).
+ */
+export interface ExchangeRateProvider {
+  /**
+   * @method getRate
+   * @description Returns how many units of `to` one unit of `from` is worth.
+   * @param {string} from The source currency code (e.g., 'USD').
+   * @param {string} to The target currency code (e.g., 'EUR').
+   * @returns {number} The exchange rate.
+   * @throws {ExchangeRateNotFoundError} If the provider does not know the pair.
+   */
+  getRate(from: string, to: string): number;
+}
+
+/**
+ * @class StaticExchangeRateProvider
+ * @description An in-memory ExchangeRateProvider backed by a fixed table of rates.
+ * Useful for tests, demos, or rates that are fetched once and cached.
+ * The inverse of a registered pair is derived automatically.
+ * @example
+ * const rates = new StaticExchangeRateProvider({ USD: { EUR: 0.9 } });
+ * rates.getRate("USD", "EUR"); // 0.9
+ * rates.getRate("EUR", "USD"); // 1.111...
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  /**
+   * @private
+   * @description The registered rates, keyed as "FROM:TO".
+   */
+  private rates = new Map<string, number>();
+
+  /**
+   * @param {Record<string, Record<string, number>>} [rates={}] Initial rates, grouped by source currency.
+   */
+  constructor(rates: Record<string, Record<string, number>> = {}) {
+    for (const [from, targets] of Object.entries(rates)) {
+      for (const [to, rate] of Object.entries(targets)) {
+        this.setRate(from, to, rate);
+      }
+    }
+  }
+
+  /**
+   * @method setRate
+   * @description Registers (or replaces) the rate for a currency pair.
+   * @param {string} from The source currency code.
+   * @param {string} to The target currency code.
+   * @param {number} rate How many units of `to` one unit of `from` is worth. Must be positive.
+   * @returns {this} The provider itself, so several rates can be registered in a chain.
+   */
+  setRate(from: string, to: string, rate: number): this {
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new RangeError(`Exchange rate for ${from}/${to} must be a positive number.`);
+    }
+    this.rates.set(`${from}:${to}`, rate);
+    return this;
+  }
+
+  getRate(from: string, to: string): number {
+    if (from === to) {
+      return 1;
+    }
+    const direct = this.rates.get(`${from}:${to}`);
+    if (direct !== undefined) {
+      return direct;
+    }
+    const inverse = this.rates.get(`${to}:${from}`);
+    if (inverse !== undefined) {
+      return 1 / inverse;
+    }
+    throw new ExchangeRateNotFoundError(from, to);
+  }
+}
+
+/**
+ * @class MoneyParseError
+ * @description Thrown when `MoneyUtils.parse()` cannot turn a formatted string back into an amount.
+ */
+export class MoneyParseError extends Error {
+  /**
+   * @param {string} input The string that failed to parse.
+   * @param {string} reason A human-readable explanation of what is wrong with it.
+   */
+  constructor(
+    public readonly input: string,
+    reason: string,
+  ) {
+    super(`Cannot parse "${input}" as money: ${reason}`);
+    this.name = "MoneyParseError";
+  }
+}
+
+/**
+ * @interface MoneyJSON
+ * @description The JSON representation of a MoneyUtils instance, as produced by `toJSON()`.
+ * The amount is kept as a string of minor units so that no precision is lost, even for
+ * amounts beyond `Number.MAX_SAFE_INTEGER` or currencies with 18 decimal places.
+ */
+export interface MoneyJSON {
+  /**
+   * @description The amount in minor units, as an integer string (e.g., "1234" for 12.34 USD).
+   */
+  amount: string;
+  /**
+   * @description The currency code (e.g., 'USD').
+   */
+  currency: string;
+  /**
+   * @description The number of decimal places the minor units represent (e.g., 2 for cents).
+   */
+  scale: number;
+}
+
+/**
+ * @class MoneyJSONError
+ * @description Thrown when `MoneyUtils.fromJSON()` receives a value that is not a valid MoneyJSON.
+ */
+export class MoneyJSONError extends Error {
+  /**
+   * @param {unknown} json The value that failed to hydrate.
+   * @param {string} reason A human-readable explanation of what is wrong with it.
+   */
+  constructor(
+    public readonly json: unknown,
+    reason: string,
+  ) {
+    super(`Cannot read money from JSON: ${reason}`);
+    this.name = "MoneyJSONError";
+  }
+}
+
+/**
+ * @typedef {string} MoneyFormatPreset
+ * @description Named formats for `MoneyUtils.format()`:
+ * - `"standard"`: the locale's usual currency format ("-$1,234.56").
+ * - `"accounting"`: negatives in parentheses where the locale does so, as on invoices ("($1,234.56)").
+ * - `"compact"`: short amounts for dashboards ("$1.2M", "1,2 M €").
+ * - `"words"`: the amount spelled out, as on cheques ("one hundred twenty-three dollars and 45 cents").
+ */
+export type MoneyFormatPreset = "standard" | "accounting" | "compact" | "words";
+
+/**
+ * @constant FORMAT_PRESETS
+ * @description The `Intl.NumberFormat` options behind the presets that Intl can render.
+ * The compact preset clears the fraction digits so Intl picks its usual compact rounding.
+ */
+const FORMAT_PRESETS: Record<Exclude<MoneyFormatPreset, "words">, Intl.NumberFormatOptions> = {
+  standard: {},
+  accounting: { currencySign: "accounting" },
+  compact: {
+    notation: "compact",
+    minimumFractionDigits: undefined,
+    maximumFractionDigits: undefined,
+  },
+};
+
+/**
+ * @private
+ * @description Cache of the currency tokens used by the parser, which are expensive to compute and never change.
+ */
+const currencyTokensCache = new Map<string, string[]>();
+
+/**
+ * @private
+ * @function getCurrencyTokens
+ * @description Lists every way a currency can appear in a string formatted for a locale:
+ * its code, its localized symbol, every plural form of its localized name and, when
+ * `lenient` is set, its narrow symbol and registry symbol. Longest tokens come first, so
+ * "US$" is matched before "$".
+ * @param {string | undefined} locale The locale the string was formatted for.
+ * @param {string} code A registered currency code.
+ * @param {boolean} lenient Whether to include the ambiguous narrow and registry symbols
+ * (e.g., "$"), which are only safe when the currency is already known.
+ * @returns {string[]} The tokens, longest first.
+ */
+function getCurrencyTokens(locale: string | undefined, code: string, lenient: boolean): string[] {
+  const cacheKey = `${locale ?? ""}|${code}|${lenient}`;
+  const cached = currencyTokensCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const tokens = new Set<string>([code]);
+  if (CurrencyRegistry.isIso(code)) {
+    const displays: Intl.NumberFormatOptions["currencyDisplay"][] = lenient
+      ? ["symbol", "name", "narrowSymbol"]
+      : ["symbol", "name"];
+    for (const currencyDisplay of displays) {
+      const formatter = new Intl.NumberFormat(locale, {
+        style: "currency",
+        currency: code,
+        currencyDisplay,
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 2,
+      });
+      // Format one sample per plural category (zero, one, two, few, many, other) to collect
+      // every grammatical form of the name, e.g. "иена", "иены" and "иен" in Russian
+      for (const sample of [0, 1, 2, 3, 5, 11, 100, 1.5]) {
+        const part = formatter.formatToParts(sample).find(({ type }) => type === "currency");
+        if (part !== undefined) {
+          tokens.add(part.value.replace(BIDI_MARKS, "").trim());
+        }
+      }
+    }
+  }
+  if (lenient || !CurrencyRegistry.isIso(code)) {
+    tokens.add(CurrencyRegistry.get(code).symbol);
+  }
+  const sorted = [...tokens].filter(Boolean).sort((a, b) => b.length - a.length);
+  currencyTokensCache.set(cacheKey, sorted);
+  return sorted;
+}
+
+/**
+ * @private
+ * @function detectCurrency
+ * @description Finds which registered currency a formatted string refers to, by looking for
+ * the longest code, localized symbol or localized name it contains.
+ * @param {string} input The formatted string.
+ * @param {string | undefined} locale The locale the string was formatted for.
+ * @returns {string} The detected currency code.
+ * @throws {MoneyParseError} If no currency, or more than one equally good currency, is found.
+ */
+function detectCurrency(input: string, locale: string | undefined): string {
+  const haystack = input.toLowerCase();
+  let bestLength = 0;
+  let matches: string[] = [];
+  for (const { code } of CurrencyRegistry.list()) {
+    const token = getCurrencyTokens(locale, code, false).find((candidate) =>
+      haystack.includes(candidate.toLowerCase()),
+    );
+    if (token === undefined || token.length < bestLength) {
+      continue;
+    }
+    if (token.length > bestLength) {
+      bestLength = token.length;
+      matches = [];
+    }
+    matches.push(code);
+  }
+  if (matches.length === 0) {
+    throw new MoneyParseError(input, "no known currency symbol or code was found.");
+  }
+  if (matches.length > 1) {
+    throw new MoneyParseError(input, `the currency is ambiguous (${matches.join(", ")}).`);
+  }
+  return matches[0];
+}
+
 /**
  * @class MoneyUtils
  * @description A utility class for performing precise monetary calculations
  * and formatting in a chainable, fluent manner. It internally handles values
- * as integers (e.g., cents) to avoid floating-point inaccuracies common
- * with decimal numbers in JavaScript.
+ * as `bigint` integers (e.g., cents) to avoid floating-point inaccuracies common
+ * with decimal numbers in JavaScript, and to stay exact beyond `Number.MAX_SAFE_INTEGER`.
+ * Amounts kept around, such as a price in a store, should be made immutable so that no
+ * calculation derived from them can change them.
+ * @example
+ * const price = MoneyUtils.of(150).immutable();
+ * const tax = price.toPercentage(8);
+ * price.value; // 150 (unchanged)
+ * tax.value; // 12
  */
-class MoneyUtils {
+export class MoneyUtils extends FluentValue {
   /**
    * @private
-   * @description The internal number value, stored as an integer representing
+   * @description The internal value, stored as a `bigint` representing
    * the smallest unit (e.g., cents, where 100 cents = 1 unit of currency).
    */
-  private _cents: number;
+  private _cents: bigint;
 
   /**
    * @private
@@ -27,46 +369,602 @@ class MoneyUtils {
    */
   private _currency: string;
 
+  /**
+   * @private
+   * @description The rounding mode used whenever an operation produces fractions of a minor unit
+   * and the call does not specify its own mode.
+   */
+  private _roundingMode: RoundingMode;
+
+  /**
+   * @private
+   * @description How operations combining this instance with an amount of another scale behave.
+   * See `withScalePolicy()`.
+   */
+  private _scalePolicy: ScalePolicy;
+
+  /**
+   * @private
+   * @description Whether invalid operands and divisions by zero throw typed errors instead of
+   * being silently ignored or turned into zero. See `strict()`.
+   */
+  private _strict: boolean;
+
   /**
    * @private constructor
    * @description The constructor is private to enforce that new instances
    * are always created using the static `MoneyUtils.of()` factory method.
-   * @param {number} cents The initial amount in the smallest currency unit (e.g., cents).
+   * @param {bigint} cents The initial amount in the smallest currency unit (e.g., cents).
    * @param {string} currency The currency code (e.g., 'USD').
    * @param {number} scale The number of decimal places for the currency.
+   * @param {RoundingMode} roundingMode The default rounding mode of the instance.
    */
-  private constructor(cents: number, currency: string, scale: number) {
-    this._cents = Math.round(cents); // Ensure it's an integer
+  private constructor(cents: bigint, currency: string, scale: number, roundingMode: RoundingMode) {
+    super();
+    this._cents = cents;
     this._currency = currency;
     this._scale = Math.max(0, Math.floor(scale)); // Scale must be a non-negative integer
+    this._roundingMode = assertRoundingMode(roundingMode);
+    this._scalePolicy = "reject";
+    this._strict = false;
   }
 
   /**
    * @static
    * @method of
    * @description The primary way to create a new MoneyUtils instance and start a chain.
-   * This method converts a decimal number or string into the internal integer representation.
-   * @param {number | string} initialValue The initial monetary value (e.g., 123.45 or "123.45").
-   * @param {string} [currency='USD'] The currency code (e.g., 'USD', 'EUR'). Defaults to 'USD'.
-   * @param {number} [scale=2] The number of decimal places for the currency (e.g., 2 for cents). Defaults to 2.
+   * This method converts a decimal number, string or bigint into the internal integer representation.
+   * Strings are parsed digit by digit, so no precision is lost along the way; digits beyond
+   * the scale are rounded with `roundingMode`. Invalid input initializes the amount to zero
+   * (use `strictOf()` or `tryOf()` to reject it instead).
+   * @param {number | string | bigint} initialValue The initial monetary value (e.g., 123.45 or "123.45").
+   * @param {string} [currency='USD'] The currency code (e.g., 'USD', 'EUR'), looked up in the
+   * CurrencyRegistry. Defaults to 'USD'.
+   * @param {number} [scale] The number of decimal places for the amount (e.g., 2 for cents).
+   * Defaults to the currency's ISO 4217 minor unit (2 for USD, 0 for JPY, 3 for KWD).
+   * @param {RoundingMode} [roundingMode='half-up'] The default rounding mode of the instance,
+   * used by every operation that does not pass its own mode.
    * @returns {MoneyUtils} A new MoneyUtils instance, enabling method chaining.
+   * @throws {UnknownCurrencyError} If the currency is not registered.
    * @example
    * MoneyUtils.of(123.45, 'USD'); // Represents $123.45
-   * MoneyUtils.of("50.75", 'EUR', 2); // Represents €50.75
-   * MoneyUtils.of(1000, 'JPY', 0); // Represents ¥1000 (no decimals)
+   * MoneyUtils.of("50.75", 'EUR'); // Represents €50.75
+   * MoneyUtils.of(1000, 'JPY'); // Represents ¥1000 (scale 0 inferred from ISO 4217)
+   * MoneyUtils.of(9.99, 'USD', 4); // Represents $9.9900 (explicit scale, e.g. for unit prices)
+   * MoneyUtils.of(10, 'XYZ'); // throws UnknownCurrencyError
+   * MoneyUtils.of("1.005").cents; // 101 (parseFloat-based math would give 100)
+   * MoneyUtils.of("0.125", 'USD', 2, 'half-even').cents; // 12
    */
   static of(
-    initialValue: number | string,
+    initialValue: number | string | bigint,
     currency: string = "USD",
-    scale: number = 2,
+    scale?: number,
+    roundingMode: RoundingMode = DEFAULT_ROUNDING_MODE,
   ): MoneyUtils {
-    const numValue = parseFloat(String(initialValue));
-    if (Number.isNaN(numValue)) {
+    const { code } = CurrencyRegistry.get(currency);
+    const normalizedScale = MoneyUtils._resolveScale(code, scale);
+    const fraction = parseDecimal(initialValue);
+    if (fraction === null) {
       // Handle invalid input gracefully, perhaps by initializing to zero
-      return new MoneyUtils(0, currency, scale);
+      return new MoneyUtils(0n, code, normalizedScale, roundingMode);
+    }
+    const cents = roundQuotient(
+      fraction.numerator * 10n ** BigInt(normalizedScale),
+      fraction.denominator,
+      roundingMode,
+    );
+    return new MoneyUtils(cents, code, normalizedScale, roundingMode);
+  }
+
+  /**
+   * @static
+   * @method strictOf
+   * @description Same as `of()`, but rejects invalid input instead of initializing the amount
+   * to zero, and returns an instance in strict mode (see `strict()`).
+   * @param {number | string | bigint} initialValue The initial monetary value (e.g., 123.45 or "123.45").
+   * @param {string} [currency='USD'] The currency code, looked up in the CurrencyRegistry.
+   * @param {number} [scale] The number of decimal places. Defaults to the currency's minor unit.
+   * @param {RoundingMode} [roundingMode='half-up'] The default rounding mode of the instance.
+   * @returns {MoneyUtils} A new MoneyUtils instance in strict mode.
+   * @throws {InvalidNumberError} If `initialValue` is not a finite decimal number.
+   * @throws {UnknownCurrencyError} If the currency is not registered.
+   * @example
+   * MoneyUtils.strictOf("19.99").value; // 19.99
+   * MoneyUtils.strictOf("abc"); // throws InvalidNumberError
+   */
+  static strictOf(
+    initialValue: number | string | bigint,
+    currency: string = "USD",
+    scale?: number,
+    roundingMode: RoundingMode = DEFAULT_ROUNDING_MODE,
+  ): MoneyUtils {
+    if (parseDecimal(initialValue) === null) {
+      throw new InvalidNumberError(initialValue, "strictOf");
+    }
+    return MoneyUtils.of(initialValue, currency, scale, roundingMode).strict();
+  }
+
+  /**
+   * @static
+   * @method tryOf
+   * @description Same as `strictOf()`, but reports failures as a value: a Left holding the error,
+   * or a Right holding the new strict instance. Handy to validate form input without try/catch.
+   * @param {number | string | bigint} initialValue The initial monetary value (e.g., 123.45 or "123.45").
+   * @param {string} [currency='USD'] The currency code, looked up in the CurrencyRegistry.
+   * @param {number} [scale] The number of decimal places. Defaults to the currency's minor unit.
+   * @param {RoundingMode} [roundingMode='half-up'] The default rounding mode of the instance.
+   * @returns {IEither<Error, MoneyUtils>} An InvalidNumberError or UnknownCurrencyError, or the instance.
+   * @example
+   * MoneyUtils.tryOf("abc").fold((error) => error.message, (price) => price.format()); // 'Invalid number "abc" passed to strictOf().'
+   * MoneyUtils.tryOf("19.99").map((price) => price.multiply(2).value); // Right(39.98)
+   */
+  static tryOf(
+    initialValue: number | string | bigint,
+    currency: string = "USD",
+    scale?: number,
+    roundingMode: RoundingMode = DEFAULT_ROUNDING_MODE,
+  ): IEither<Error, MoneyUtils> {
+    return Either.tryCatch(() => MoneyUtils.strictOf(initialValue, currency, scale, roundingMode));
+  }
+
+  /**
+   * @static
+   * @method fromMinorUnits
+   * @description Creates a MoneyUtils instance directly from an amount in the smallest currency
+   * unit. This is the lossless way to restore amounts that exceed `Number.MAX_SAFE_INTEGER`.
+   * @param {bigint | number | string} minorUnits The amount in minor units (e.g., cents). Must be an integer.
+   * @param {string} [currency='USD'] The currency code, looked up in the CurrencyRegistry. Defaults to 'USD'.
+   * @param {number} [scale] The number of decimal places for the amount. Defaults to the currency's minor unit.
+   * @param {RoundingMode} [roundingMode='half-up'] The default rounding mode of the instance.
+   * @returns {MoneyUtils} A new MoneyUtils instance.
+   * @throws {RangeError} If `minorUnits` is not an integer.
+   * @throws {UnknownCurrencyError} If the currency is not registered.
+   * @example
+   * MoneyUtils.fromMinorUnits(12345n, 'USD').value; // 123.45
+   * CurrencyRegistry.register({ code: 'ETH', minorUnit: 18, symbol: 'Ξ' });
+   * MoneyUtils.fromMinorUnits("123456789012345678901234", 'ETH').amount; // "123456.789012345678901234"
+   */
+  static fromMinorUnits(
+    minorUnits: bigint | number | string,
+    currency: string = "USD",
+    scale?: number,
+    roundingMode: RoundingMode = DEFAULT_ROUNDING_MODE,
+  ): MoneyUtils {
+    const { code } = CurrencyRegistry.get(currency);
+    const fraction = parseDecimal(minorUnits);
+    if (fraction === null || fraction.numerator % fraction.denominator !== 0n) {
+      throw new RangeError(`Minor units must be an integer, received "${String(minorUnits)}".`);
+    }
+    return new MoneyUtils(
+      fraction.numerator / fraction.denominator,
+      code,
+      MoneyUtils._resolveScale(code, scale),
+      roundingMode,
+    );
+  }
+
+  /**
+   * @static
+   * @method parse
+   * @description Parses a string produced by `format()` (or typed by a user in the same style)
+   * back into a MoneyUtils instance. It is the exact inverse of `format()`: the locale's group
+   * and decimal separators, minus sign and digits come from `Intl.NumberFormat.formatToParts`,
+   * so "1.234,56 €" in 'de-DE' or "١٬٢٣٤٫٥٦ ج.م.‏" in 'ar-EG' are understood.
+   * Group separators are optional, but must separate groups of the locale's sizes, so "1,5" is
+   * rejected for 'en-US' rather than read as 15.
+   * Currency symbols, codes and names are accepted, as well as accounting-style negatives
+   * written in parentheses. When `currency` is omitted, it is detected from the string.
+   * The scale is the currency's minor unit, or more if the string has more fraction digits,
+   * so no digit is ever dropped.
+   * @param {string} input The formatted amount (e.g., "$1,234.56", "(1,234.56)", "-12 JPY").
+   * @param {string} [locale] The locale the amount was formatted for. Defaults to the runtime locale.
+   * @param {string} [currency] The expected currency code. Detected from `input` when omitted.
+   * @returns {MoneyUtils} A new MoneyUtils instance.
+   * @throws {MoneyParseError} If the string is not a well-formed amount for the locale, or the
+   * currency cannot be detected.
+   * @throws {UnknownCurrencyError} If `currency` is not registered.
+   * @example
+   * MoneyUtils.parse("1.234,56 €", "de-DE").value; // 1234.56 (EUR)
+   * MoneyUtils.parse("($1,234.56)", "en-US").value; // -1234.56 (USD)
+   * MoneyUtils.parse("1 234,5", "fr-FR", "EUR").amount; // "1234.50"
+   * MoneyUtils.parse("١٬٢٣٤٫٥٦ ج.م.‏", "ar-EG").amount; // "1234.56" (EGP)
+   * MoneyUtils.parse("1.234,56", "en-US", "USD"); // throws MoneyParseError
+   * MoneyUtils.parse("1,5", "en-US", "USD"); // throws MoneyParseError (misplaced group separator)
+   */
+  static parse(input: string, locale?: string, currency?: string): MoneyUtils {
+    const code =
+      currency !== undefined ? CurrencyRegistry.get(currency).code : detectCurrency(input, locale);
+
+    // Drop the first currency token found, trying the longest ones first
+    let rest = input.replace(BIDI_MARKS, "");
+    for (const token of getCurrencyTokens(locale, code, true)) {
+      const index = rest.toLowerCase().indexOf(token.toLowerCase());
+      if (index !== -1) {
+        rest = `${rest.slice(0, index)} ${rest.slice(index + token.length)}`;
+        break;
+      }
+    }
+
+    const { decimal, fractionDigits } = readLocaleDecimal(
+      rest,
+      locale,
+      (reason) => new MoneyParseError(input, reason),
+    );
+    const scale = Math.max(CurrencyRegistry.get(code).minorUnit, fractionDigits);
+    return MoneyUtils.of(decimal, code, scale);
+  }
+
+  /**
+   * @static
+   * @method tryParse
+   * @description Same as `parse()`, but reports failures as a Left holding the error instead of
+   * throwing. The parsed instance is in strict mode.
+   * @param {string} input The formatted amount (e.g., "$1,234.56").
+   * @param {string} [locale] The locale the amount was formatted for. Defaults to the runtime locale.
+   * @param {string} [currency] The expected currency code. Detected from `input` when omitted.
+   * @returns {IEither<Error, MoneyUtils>} A MoneyParseError or UnknownCurrencyError, or the instance.
+   * @example
+   * MoneyUtils.tryParse("1.234,56 €", "de-DE").map((amount) => amount.value); // Right(1234.56)
+   * MoneyUtils.tryParse("12,34,56 €", "de-DE").isLeft(); // true
+   */
+  static tryParse(input: string, locale?: string, currency?: string): IEither<Error, MoneyUtils> {
+    return Either.tryCatch(() => MoneyUtils.parse(input, locale, currency).strict());
+  }
+
+  /**
+   * @static
+   * @method fromJSON
+   * @description Rebuilds a MoneyUtils instance from the output of `toJSON()`, either as an object
+   * or as a JSON string (e.g., read from an API response or from localStorage).
+   * The input is validated, since it usually comes from outside the application.
+   * @param {MoneyJSON | string} json The serialized amount.
+   * @returns {MoneyUtils} A new MoneyUtils instance.
+   * @throws {MoneyJSONError} If `json` is not valid JSON, or not a well-formed MoneyJSON object.
+   * @throws {UnknownCurrencyError} If the currency is not registered.
+   * @example
+   * MoneyUtils.fromJSON({ amount: "1234", currency: "USD", scale: 2 }).value; // 12.34
+   * MoneyUtils.fromJSON('{"amount":"-500","currency":"JPY","scale":0}').value; // -500
+   * MoneyUtils.fromJSON({ amount: 12.34, currency: "USD", scale: 2 }); // throws MoneyJSONError
+   */
+  static fromJSON(json: MoneyJSON | string): MoneyUtils {
+    let data: unknown = json;
+    if (typeof json === "string") {
+      try {
+        data = JSON.parse(json);
+      } catch {
+        throw new MoneyJSONError(json, "the string is not valid JSON.");
+      }
+    }
+    if (typeof data !== "object" || data === null) {
+      throw new MoneyJSONError(json, "expected an object with amount, currency and scale.");
+    }
+    const { amount, currency, scale } = data as Record<string, unknown>;
+    if (typeof amount !== "string" || !/^-?\d+$/.test(amount)) {
+      throw new MoneyJSONError(json, "amount must be a string of integer minor units.");
+    }
+    if (typeof currency !== "string") {
+      throw new MoneyJSONError(json, "currency must be a string.");
+    }
+    if (typeof scale !== "number" || !Number.isInteger(scale) || scale < 0) {
+      throw new MoneyJSONError(json, "scale must be a non-negative integer.");
+    }
+    return MoneyUtils.fromMinorUnits(BigInt(amount), currency, scale);
+  }
+
+  /**
+   * @static
+   * @method reviver
+   * @description A `JSON.parse` reviver that turns every MoneyJSON object of a payload back into
+   * a MoneyUtils instance, however deeply nested. Only objects with exactly the `amount`,
+   * `currency` and `scale` keys are revived; everything else is returned unchanged.
+   * @param {string} key The property name (unused, part of the reviver signature).
+   * @param {unknown} value The parsed value.
+   * @returns {unknown} A MoneyUtils instance for MoneyJSON objects, `value` otherwise.
+   * @throws {MoneyJSONError} If a MoneyJSON-shaped object holds invalid values.
+   * @example
+   * const order = JSON.parse(text, MoneyUtils.reviver);
+   * order.lines[0].price.add(1); // a MoneyUtils instance again
+   */
+  static reviver(key: string, value: unknown): unknown {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return value;
+    }
+    const keys = Object.keys(value).sort();
+    const isMoneyJSON = keys.join() === "amount,currency,scale";
+    return isMoneyJSON ? MoneyUtils.fromJSON(value as MoneyJSON) : value;
+  }
+
+  /**
+   * @static
+   * @method replacer
+   * @description The `JSON.stringify` counterpart of `reviver`. `JSON.stringify` already calls
+   * `toJSON()`, so this is only needed by serializers that accept a replacer but do not call
+   * `toJSON()`, or to configure a persistence layer with a matching serialize/deserialize pair.
+   * @param {string} key The property name (unused, part of the replacer signature).
+   * @param {unknown} value The value being serialized.
+   * @returns {unknown} The MoneyJSON of a MoneyUtils instance, `value` otherwise.
+   * @example
+   * const text = JSON.stringify({ total: MoneyUtils.of(12.34) }, MoneyUtils.replacer);
+   * // '{"total":{"amount":"1234","currency":"USD","scale":2}}'
+   */
+  static replacer(key: string, value: unknown): unknown {
+    return value instanceof MoneyUtils ? value.toJSON() : value;
+  }
+
+  /**
+   * @static
+   * @method sum
+   * @description Adds up a list of amounts into a new instance, leaving every item untouched
+   * (unlike `amounts.reduce((total, amount) => total.add(amount))`, which mutates the first item).
+   * The total starts with the scale, rounding mode and scale policy of the first item, so mixing
+   * scales is rejected unless that item's policy is 'promote'.
+   * @param {MoneyUtils[]} amounts The amounts to add up. They must share the same currency.
+   * @param {string} [currency] The currency of the list, required to sum an empty list to zero.
+   * @returns {MoneyUtils} A new MoneyUtils instance holding the total.
+   * @throws {RangeError} If the list is empty and no currency is given.
+   * @throws {CurrencyMismatchError} If the amounts (or `currency`) do not share the same currency.
+   * @throws {ScaleMismatchError} If the amounts have different scales and the policy is 'reject'.
+   * @example
+   * MoneyUtils.sum([MoneyUtils.of(10), MoneyUtils.of(5.5)]).value; // 15.5
+   * MoneyUtils.sum([], 'EUR').value; // 0
+   */
+  static sum(amounts: MoneyUtils[], currency?: string): MoneyUtils {
+    if (amounts.length === 0) {
+      if (currency === undefined) {
+        throw new RangeError("Cannot sum an empty list of amounts without a currency.");
+      }
+      return MoneyUtils.fromMinorUnits(0n, currency);
     }
-    const cents = numValue * 10 ** scale;
-    return new MoneyUtils(cents, currency, scale);
+    const [first] = amounts;
+    const code = currency === undefined ? first._currency : CurrencyRegistry.get(currency).code;
+    const total = new MoneyUtils(0n, code, first._scale, first._roundingMode);
+    total._scalePolicy = first._scalePolicy;
+    return total.add(...amounts);
+  }
+
+  /**
+   * @static
+   * @method min
+   * @description Returns the smallest amount of a list. The item itself is returned, not a copy,
+   * so it can be used to find the matching line item; the first one wins on a tie.
+   * @param {MoneyUtils[]} amounts The amounts to compare. They must share the same currency.
+   * @returns {MoneyUtils} The smallest amount.
+   * @throws {RangeError} If the list is empty.
+   * @throws {CurrencyMismatchError} If the amounts do not share the same currency.
+   * @example
+   * MoneyUtils.min([MoneyUtils.of(10), MoneyUtils.of(5.5)]).value; // 5.5
+   */
+  static min(amounts: MoneyUtils[]): MoneyUtils {
+    if (amounts.length === 0) {
+      throw new RangeError("Cannot find the minimum of an empty list of amounts.");
+    }
+    return amounts.reduce((min, amount) => (MoneyUtils.compare(amount, min) < 0 ? amount : min));
+  }
+
+  /**
+   * @static
+   * @method max
+   * @description Returns the largest amount of a list. The item itself is returned, not a copy,
+   * so it can be used to find the matching line item; the first one wins on a tie.
+   * @param {MoneyUtils[]} amounts The amounts to compare. They must share the same currency.
+   * @returns {MoneyUtils} The largest amount.
+   * @throws {RangeError} If the list is empty.
+   * @throws {CurrencyMismatchError} If the amounts do not share the same currency.
+   * @example
+   * MoneyUtils.max([MoneyUtils.of(10), MoneyUtils.of(5.5)]).value; // 10
+   */
+  static max(amounts: MoneyUtils[]): MoneyUtils {
+    if (amounts.length === 0) {
+      throw new RangeError("Cannot find the maximum of an empty list of amounts.");
+    }
+    return amounts.reduce((max, amount) => (MoneyUtils.compare(amount, max) > 0 ? amount : max));
+  }
+
+  /**
+   * @static
+   * @method average
+   * @description Returns the mean of a list of amounts as a new instance, rounded to the scale
+   * of their total (see `sum`): the scale of the list, or its largest scale when the first item's
+   * policy is 'promote'.
+   * @param {MoneyUtils[]} amounts The amounts to average. They must share the same currency.
+   * @param {RoundingMode} [roundingMode] How to round the mean. Defaults to the first item's mode.
+   * @returns {MoneyUtils} A new MoneyUtils instance holding the mean.
+   * @throws {RangeError} If the list is empty.
+   * @throws {CurrencyMismatchError} If the amounts do not share the same currency.
+   * @throws {ScaleMismatchError} If the amounts have different scales and the first item's
+   * policy is 'reject' (the default).
+   * @example
+   * MoneyUtils.average([MoneyUtils.of(10), MoneyUtils.of(10), MoneyUtils.of(0.01)]).value; // 6.67
+   * MoneyUtils.average([MoneyUtils.of(1).withScalePolicy('promote'), MoneyUtils.of("0.125", 'USD', 3)]).amount; // "0.563"
+   */
+  static average(amounts: MoneyUtils[], roundingMode?: RoundingMode): MoneyUtils {
+    if (amounts.length === 0) {
+      throw new RangeError("Cannot average an empty list of amounts.");
+    }
+    return MoneyUtils.sum(amounts).divide(amounts.length, roundingMode);
+  }
+
+  /**
+   * @static
+   * @method compare
+   * @description Compares two amounts of the same currency, exactly, whatever their scales
+   * (comparing never loses precision, so it ignores the scale policy).
+   * Its signature makes it usable as an `Array.prototype.sort` comparator.
+   * @param {MoneyUtils} a The first amount.
+   * @param {MoneyUtils} b The second amount.
+   * @returns {number} -1 if `a` is smaller than `b`, 1 if it is larger, 0 if they are equal.
+   * @throws {CurrencyMismatchError} If the amounts do not share the same currency.
+   * @example
+   * [MoneyUtils.of(10), MoneyUtils.of(2), MoneyUtils.of(5)].sort(MoneyUtils.compare); // 2, 5, 10
+   * [MoneyUtils.of(10), MoneyUtils.of(2)].sort((a, b) => MoneyUtils.compare(b, a)); // 10, 2
+   */
+  static compare(a: MoneyUtils, b: MoneyUtils): -1 | 0 | 1 {
+    a._assertSameCurrency(b);
+    const scale = Math.max(a._scale, b._scale);
+    const left = a._cents * 10n ** BigInt(scale - a._scale);
+    const right = b._cents * 10n ** BigInt(scale - b._scale);
+    if (left === right) {
+      return 0;
+    }
+    return left < right ? -1 : 1;
+  }
+
+  /**
+   * @private
+   * @static
+   * @method _resolveScale
+   * @description Picks the scale of a new instance: the explicit one when given,
+   * otherwise the currency's minor unit from the CurrencyRegistry.
+   * @param {string} currency A registered currency code.
+   * @param {number} [scale] An explicit scale.
+   * @returns {number} A non-negative integer scale.
+   */
+  private static _resolveScale(currency: string, scale?: number): number {
+    if (scale === undefined) {
+      return CurrencyRegistry.get(currency).minorUnit;
+    }
+    return Math.max(0, Math.floor(scale)); // Scale must be a non-negative integer
+  }
+
+  /**
+   * @method withRoundingMode
+   * @description Changes the default rounding mode used by the following operations of the chain.
+   * Any operation can still override it for a single call.
+   * @param {RoundingMode} mode The new default rounding mode.
+   * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @throws {RangeError} If `mode` is not a known rounding mode.
+   * @example
+   * MoneyUtils.of(0.25).withRoundingMode('half-even').divide(2).value; // 0.12
+   * MoneyUtils.of(0.25).withRoundingMode('ceiling').divide(2).value; // 0.13
+   */
+  withRoundingMode(mode: RoundingMode): this {
+    return this.apply((target) => {
+      target._roundingMode = assertRoundingMode(mode);
+    });
+  }
+
+  /**
+   * @method withScalePolicy
+   * @description Changes how the following operations of the chain combine this amount with
+   * amounts of another scale: 'reject' (the default) throws a ScaleMismatchError, 'promote'
+   * moves the result to the larger scale. Either way, precision is never lost silently.
+   * @param {ScalePolicy} policy The new scale policy.
+   * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @throws {RangeError} If `policy` is unknown.
+   * @example
+   * const unitPrice = MoneyUtils.of("1.2345", 'USD', 4);
+   * MoneyUtils.of(10).add(unitPrice); // throws ScaleMismatchError
+   * MoneyUtils.of(10).withScalePolicy('promote').add(unitPrice).amount; // "11.2345"
+   */
+  withScalePolicy(policy: ScalePolicy): this {
+    if (policy !== "reject" && policy !== "promote") {
+      throw new RangeError(`Unknown scale policy "${policy}". Expected "reject" or "promote".`);
+    }
+    return this.apply((target) => {
+      target._scalePolicy = policy;
+    });
+  }
+
+  /**
+   * @method rescale
+   * @description Changes the scale of the amount explicitly: increasing it is exact, decreasing it
+   * rounds with the given mode. Typically used to settle amounts computed at a higher precision
+   * (e.g., 4-decimal unit prices) into the currency's minor unit.
+   * @param {number} scale The new number of decimal places. Must be a non-negative integer.
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
+   * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @throws {RangeError} If `scale` is not a non-negative integer.
+   * @example
+   * MoneyUtils.of("1.2345", 'USD', 4).rescale(2).amount; // "1.23"
+   * MoneyUtils.of("1.2345", 'USD', 4).rescale(2, 'ceiling').amount; // "1.24"
+   * MoneyUtils.of(10).rescale(4).amount; // "10.0000"
+   */
+  rescale(scale: number, roundingMode: RoundingMode = this._roundingMode): this {
+    if (!Number.isInteger(scale) || scale < 0) {
+      throw new RangeError("The scale must be a non-negative integer.");
+    }
+    return this.apply((target) => {
+      target._cents =
+        scale >= target._scale
+          ? target._cents * 10n ** BigInt(scale - target._scale)
+          : roundQuotient(target._cents, 10n ** BigInt(target._scale - scale), roundingMode);
+      target._scale = scale;
+    });
+  }
+
+  /**
+   * @method strict
+   * @description Switches strict mode on (or off) for the following operations of the chain.
+   * In strict mode, invalid operands (e.g., "abc", NaN) throw an InvalidNumberError and dividing
+   * by zero throws a DivisionByZeroError, instead of being ignored or turning the amount into zero.
+   * @param {boolean} [enabled=true] Whether strict mode is on.
+   * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @example
+   * MoneyUtils.of(10).multiply("x").value; // 10 (the invalid multiplier is ignored)
+   * MoneyUtils.of(10).strict().multiply("x"); // throws InvalidNumberError
+   * MoneyUtils.of(10).strict().divide(0); // throws DivisionByZeroError
+   */
+  strict(enabled: boolean = true): this {
+    return this.apply((target) => {
+      target._strict = enabled;
+    });
+  }
+
+  /**
+   * @method equals
+   * @description Checks structural equality with another value: it must be a MoneyUtils instance
+   * with the same minor units, currency and scale. Unlike `isEqual`, it never throws on a
+   * currency mismatch and does not consider 10.0 (scale 1) equal to 10.00 (scale 2).
+   * The rounding mode, the scale policy and strict mode are not compared.
+   * @param {unknown} other The value to compare against.
+   * @returns {boolean} True if both instances hold the same money, false otherwise.
+   * @example
+   * MoneyUtils.of(10).equals(MoneyUtils.of("10.00")); // true
+   * MoneyUtils.of(10).equals(MoneyUtils.of(10, 'EUR')); // false
+   * MoneyUtils.of(10).equals(10); // false
+   */
+  equals(other: unknown): boolean {
+    return (
+      other instanceof MoneyUtils &&
+      other._cents === this._cents &&
+      other._currency === this._currency &&
+      other._scale === this._scale
+    );
+  }
+
+  /**
+   * @protected
+   * @method copy
+   * @description Creates a mutable instance with the same amount, currency, scale and settings
+   * (rounding mode, scale policy, strict mode).
+   * @returns {this} The copy.
+   */
+  protected copy(): this {
+    const copy = new MoneyUtils(this._cents, this._currency, this._scale, this._roundingMode);
+    copy._scalePolicy = this._scalePolicy;
+    copy._strict = this._strict;
+    return copy as this;
+  }
+
+  /**
+   * @private
+   * @method _derive
+   * @description Creates a new instance from this one (same settings and mode), for the
+   * operations that always return new instances, such as `allocate` and `convertTo`.
+   * @param {bigint} cents The amount of the new instance in minor units.
+   * @param {string} [currency] The currency of the new instance. Defaults to this currency.
+   * @param {number} [scale] The scale of the new instance. Defaults to this scale.
+   * @returns {MoneyUtils} The new instance, frozen if this one is immutable.
+   */
+  private _derive(
+    cents: bigint,
+    currency: string = this._currency,
+    scale: number = this._scale,
+  ): MoneyUtils {
+    const derived = new MoneyUtils(cents, currency, scale, this._roundingMode);
+    derived._scalePolicy = this._scalePolicy;
+    derived._strict = this._strict;
+    return this.inMode(derived);
   }
 
   /**
@@ -74,21 +972,95 @@ class MoneyUtils {
    * @method _toCents
    * @description Converts an input value (number, string, or MoneyUtils instance)
    * to its internal cents representation, considering its scale.
+   * A MoneyUtils operand with another scale follows the scale policy: it is rejected, or this
+   * instance is first promoted to the larger scale. Either way, the conversion is exact.
    * @param {number | string | MoneyUtils} amount The amount to convert.
-   * @param {number} [targetScale] Optional scale to use for conversion. Defaults to this instance's scale.
-   * @returns {number} The amount in cents.
+   * @param {string} operation The public method converting it, for error messages.
+   * @returns {bigint} The amount in cents. Invalid input counts as zero, unless in strict mode.
+   * @throws {CurrencyMismatchError} If `amount` is a MoneyUtils instance in another currency.
+   * @throws {ScaleMismatchError} If `amount` has another scale and the policy is 'reject'.
+   * @throws {InvalidNumberError} If `amount` is invalid and the instance is in strict mode.
    */
-  private _toCents(amount: number | string | MoneyUtils, targetScale?: number): number {
-    const scale = targetScale !== undefined ? targetScale : this._scale;
+  private _toCents(amount: number | string | MoneyUtils, operation: string): bigint {
     if (amount instanceof MoneyUtils) {
-      // If it's another MoneyUtils, convert its value to our scale
-      return Math.round(amount.value * 10 ** scale);
+      this._assertSameCurrency(amount);
+      if (amount._scale !== this._scale && this._scalePolicy === "reject") {
+        throw new ScaleMismatchError(this._scale, amount._scale);
+      }
+      if (amount._scale > this._scale) {
+        // Promote this instance: going up in scale is exact
+        this._cents *= 10n ** BigInt(amount._scale - this._scale);
+        this._scale = amount._scale;
+      }
+      return amount._cents * 10n ** BigInt(this._scale - amount._scale);
+    }
+    const fraction = this._parseOperand(amount, operation);
+    if (fraction === null) {
+      return 0n;
+    }
+    return roundQuotient(
+      fraction.numerator * 10n ** BigInt(this._scale),
+      fraction.denominator,
+      this._roundingMode,
+    );
+  }
+
+  /**
+   * @private
+   * @method _parseOperand
+   * @description Parses a numeric operand exactly, enforcing strict mode.
+   * @param {number | string} value The operand.
+   * @param {string} operation The public method receiving it, for error messages.
+   * @param {boolean} [strict] Whether invalid input throws. Defaults to the instance's strict mode.
+   * @returns {DecimalFraction | null} The exact fraction, or null if invalid outside strict mode.
+   * @throws {InvalidNumberError} If `value` is invalid in strict mode.
+   */
+  private _parseOperand(
+    value: number | string,
+    operation: string,
+    strict: boolean = this._strict,
+  ): DecimalFraction | null {
+    const fraction = parseDecimal(value);
+    if (fraction === null && strict) {
+      throw new InvalidNumberError(value, operation);
+    }
+    return fraction;
+  }
+
+  /**
+   * @private
+   * @method _compareTo
+   * @description Compares this amount with another one without modifying either: MoneyUtils
+   * operands are compared exactly whatever their scale, other inputs at this instance's scale.
+   * @param {number | string | MoneyUtils} other The amount to compare against.
+   * @param {string} operation The public method comparing, for error messages.
+   * @returns {number} -1, 0 or 1, like `MoneyUtils.compare`.
+   * @throws {CurrencyMismatchError} If `other` is a MoneyUtils instance in another currency.
+   * @throws {InvalidNumberError} If `other` is invalid and the instance is in strict mode.
+   */
+  private _compareTo(other: number | string | MoneyUtils, operation: string): -1 | 0 | 1 {
+    if (other instanceof MoneyUtils) {
+      return MoneyUtils.compare(this, other);
     }
-    const numValue = parseFloat(String(amount));
-    if (Number.isNaN(numValue)) {
+    const cents = this._toCents(other, operation);
+    if (this._cents === cents) {
       return 0;
     }
-    return Math.round(numValue * 10 ** scale);
+    return this._cents < cents ? -1 : 1;
+  }
+
+  /**
+   * @private
+   * @method _assertSameCurrency
+   * @description Guards operations that combine two MoneyUtils instances, so amounts
+   * in different currencies are never silently summed or compared.
+   * @param {MoneyUtils} other The other operand.
+   * @throws {CurrencyMismatchError} If `other` holds a different currency.
+   */
+  private _assertSameCurrency(other: MoneyUtils): void {
+    if (other._currency !== this._currency) {
+      throw new CurrencyMismatchError(this._currency, other._currency);
+    }
   }
 
   /**
@@ -97,15 +1069,20 @@ class MoneyUtils {
    * Amounts can be numbers, strings, or other MoneyUtils instances.
    * @param {...(number | string | MoneyUtils)} amounts The amounts to add.
    * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @throws {CurrencyMismatchError} If a MoneyUtils amount is in another currency.
+   * @throws {ScaleMismatchError} If a MoneyUtils amount has another scale and the policy is 'reject'.
+   * @throws {InvalidNumberError} If an amount is invalid and the instance is in strict mode.
    * @example
    * MoneyUtils.of(10).add(5).value; // 15
    * MoneyUtils.of(10).add(1, "2.50", MoneyUtils.of(3)).value; // 16.5
    */
   add(...amounts: (number | string | MoneyUtils)[]): this {
-    for (const amount of amounts) {
-      this._cents += this._toCents(amount);
-    }
-    return this;
+    return this.apply((target) => {
+      for (const amount of amounts) {
+        const cents = target._toCents(amount, "add"); // may promote the target's scale first
+        target._cents += cents;
+      }
+    });
   }
 
   /**
@@ -114,55 +1091,115 @@ class MoneyUtils {
    * Amounts can be numbers, strings, or other MoneyUtils instances.
    * @param {...(number | string | MoneyUtils)} amounts The amounts to subtract.
    * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @throws {CurrencyMismatchError} If a MoneyUtils amount is in another currency.
+   * @throws {ScaleMismatchError} If a MoneyUtils amount has another scale and the policy is 'reject'.
+   * @throws {InvalidNumberError} If an amount is invalid and the instance is in strict mode.
    * @example
    * MoneyUtils.of(10).subtract(3).value; // 7
    * MoneyUtils.of(10).subtract(1, "2.50", MoneyUtils.of(3)).value; // 3.5
    */
   subtract(...amounts: (number | string | MoneyUtils)[]): this {
-    for (const amount of amounts) {
-      this._cents -= this._toCents(amount);
-    }
-    return this;
+    return this.apply((target) => {
+      for (const amount of amounts) {
+        const cents = target._toCents(amount, "subtract"); // may promote the target's scale first
+        target._cents -= cents;
+      }
+    });
   }
 
   /**
    * @method multiply
    * @description Multiplies the current value by a number.
    * @param {number | string} multiplier The number to multiply by.
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
    * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @throws {InvalidNumberError} If `multiplier` is invalid and the instance is in strict mode.
    * @example
    * MoneyUtils.of(5).multiply(4).value; // 20
    * MoneyUtils.of(2.50).multiply(3).value; // 7.50
+   * MoneyUtils.of(0.05).multiply(0.5, 'half-even').value; // 0.02
    */
-  multiply(multiplier: number | string): this {
-    const numMultiplier = parseFloat(String(multiplier));
-    if (Number.isNaN(numMultiplier)) {
+  multiply(multiplier: number | string, roundingMode: RoundingMode = this._roundingMode): this {
+    const fraction = this._parseOperand(multiplier, "multiply");
+    if (fraction === null) {
       return this; // Do nothing if multiplier is invalid
     }
     // Multiply cents directly, then re-round to maintain precision
-    this._cents = Math.round(this._cents * numMultiplier);
-    return this;
+    return this.apply((target) => {
+      target._cents = roundQuotient(
+        target._cents * fraction.numerator,
+        fraction.denominator,
+        roundingMode,
+      );
+    });
   }
 
   /**
    * @method divide
-   * @description Divides the current value by a number. Handles division by zero by returning an instance with 0 cents.
+   * @description Divides the current value by a number. Handles division by zero by returning an instance with 0 cents,
+   * unless in strict mode (see `strict()` and `tryDivide()`).
    * @param {number | string} divisor The number to divide by.
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
    * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @throws {InvalidNumberError} If `divisor` is invalid and the instance is in strict mode.
+   * @throws {DivisionByZeroError} If `divisor` is zero and the instance is in strict mode.
    * @example
    * MoneyUtils.of(10).divide(2).value; // 5
    * MoneyUtils.of(10).divide(0).value; // 0 (handles division by zero)
    * MoneyUtils.of(7.50).divide(2).value; // 3.75
+   * MoneyUtils.of(10).divide(3, 'ceiling').value; // 3.34
    */
-  divide(divisor: number | string): this {
-    const numDivisor = parseFloat(String(divisor));
-    if (Number.isNaN(numDivisor) || numDivisor === 0) {
-      this._cents = 0; // Set to zero for invalid or zero division
-    } else {
-      // Divide cents directly, then re-round to maintain precision
-      this._cents = Math.round(this._cents / numDivisor);
+  divide(divisor: number | string, roundingMode: RoundingMode = this._roundingMode): this {
+    return this._divide(divisor, roundingMode, this._strict);
+  }
+
+  /**
+   * @method tryDivide
+   * @description Same as `divide()` in strict mode, but reports an invalid divisor or a division
+   * by zero as a Left holding the error, instead of throwing. The amount is left untouched on failure;
+   * on success, the Right holds the result of `divide()` (this instance, unless immutable).
+   * @param {number | string} divisor The number to divide by.
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
+   * @returns {IEither<Error, this>} An InvalidNumberError or DivisionByZeroError, or the divided instance.
+   * @example
+   * MoneyUtils.of(10).tryDivide(4).map((share) => share.value); // Right(2.5)
+   * MoneyUtils.of(10).tryDivide(0).isLeft(); // true
+   */
+  tryDivide(
+    divisor: number | string,
+    roundingMode: RoundingMode = this._roundingMode,
+  ): IEither<Error, this> {
+    return Either.tryCatch(() => this._divide(divisor, roundingMode, true));
+  }
+
+  /**
+   * @private
+   * @method _divide
+   * @description Implements `divide()` and `tryDivide()`.
+   * @param {number | string} divisor The number to divide by.
+   * @param {RoundingMode} roundingMode How to round the quotient.
+   * @param {boolean} strict Whether an invalid divisor or a division by zero throws.
+   * @returns {this} The changed instance.
+   * @throws {InvalidNumberError} If `divisor` is invalid in strict mode.
+   * @throws {DivisionByZeroError} If `divisor` is zero in strict mode.
+   */
+  private _divide(divisor: number | string, roundingMode: RoundingMode, strict: boolean): this {
+    const fraction = this._parseOperand(divisor, "divide", strict);
+    if (strict && fraction?.numerator === 0n) {
+      throw new DivisionByZeroError("divide");
     }
-    return this;
+    return this.apply((target) => {
+      if (fraction === null || fraction.numerator === 0n) {
+        target._cents = 0n; // Set to zero for invalid or zero division
+      } else {
+        // Divide cents directly, then re-round to maintain precision
+        target._cents = roundQuotient(
+          target._cents * fraction.denominator,
+          fraction.numerator,
+          roundingMode,
+        );
+      }
+    });
   }
 
   /**
@@ -170,19 +1207,27 @@ class MoneyUtils {
    * @description Calculates a percentage of the current monetary value.
    * For example, `MoneyUtils.of(100).toPercentage(5).value` would be 5.
    * @param {number | string} percentage The percentage value (e.g., 5 for 5%).
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
    * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @throws {InvalidNumberError} If `percentage` is invalid and the instance is in strict mode.
    * @example
    * MoneyUtils.of(200).toPercentage(10).value; // 20
    * MoneyUtils.of(50).toPercentage(200).value; // 100
+   * MoneyUtils.of(0.99).toPercentage(7, 'floor').value; // 0.06
    */
-  toPercentage(percentage: number | string): this {
-    const numPercentage = parseFloat(String(percentage));
-    if (Number.isNaN(numPercentage)) {
+  toPercentage(percentage: number | string, roundingMode: RoundingMode = this._roundingMode): this {
+    const fraction = this._parseOperand(percentage, "toPercentage");
+    if (fraction === null) {
       return this;
     }
     // Calculate percentage: (currentCents * percentage) / 100
-    this._cents = Math.round(this._cents * (numPercentage / 100));
-    return this;
+    return this.apply((target) => {
+      target._cents = roundQuotient(
+        target._cents * fraction.numerator,
+        fraction.denominator * 100n,
+        roundingMode,
+      );
+    });
   }
 
   /**
@@ -190,19 +1235,30 @@ class MoneyUtils {
    * @description Adds a percentage of the current monetary value to itself.
    * For example, `MoneyUtils.of(100).addPercentage(5).value` would be 105.
    * @param {number | string} percentage The percentage value (e.g., 5 for 5%).
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
    * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @throws {InvalidNumberError} If `percentage` is invalid and the instance is in strict mode.
    * @example
    * MoneyUtils.of(100).addPercentage(10).value; // 110
    * MoneyUtils.of(50).addPercentage(50).value; // 75
    */
-  addPercentage(percentage: number | string): this {
-    const numPercentage = parseFloat(String(percentage));
-    if (Number.isNaN(numPercentage)) {
+  addPercentage(
+    percentage: number | string,
+    roundingMode: RoundingMode = this._roundingMode,
+  ): this {
+    const fraction = this._parseOperand(percentage, "addPercentage");
+    if (fraction === null) {
       return this;
     }
     // currentCents * (1 + percentage / 100)
-    this._cents = Math.round(this._cents * (1 + numPercentage / 100));
-    return this;
+    const hundred = fraction.denominator * 100n;
+    return this.apply((target) => {
+      target._cents = roundQuotient(
+        target._cents * (hundred + fraction.numerator),
+        hundred,
+        roundingMode,
+      );
+    });
   }
 
   /**
@@ -210,47 +1266,193 @@ class MoneyUtils {
    * @description Subtracts a percentage of the current monetary value from itself.
    * For example, `MoneyUtils.of(100).subtractPercentage(5).value` would be 95.
    * @param {number | string} percentage The percentage value (e.g., 5 for 5%).
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
    * @returns {this} The current MoneyUtils instance for continued chaining.
+   * @throws {InvalidNumberError} If `percentage` is invalid and the instance is in strict mode.
    * @example
    * MoneyUtils.of(100).subtractPercentage(10).value; // 90
    * MoneyUtils.of(50).subtractPercentage(50).value; // 25
    */
-  subtractPercentage(percentage: number | string): this {
-    const numPercentage = parseFloat(String(percentage));
-    if (Number.isNaN(numPercentage)) {
+  subtractPercentage(
+    percentage: number | string,
+    roundingMode: RoundingMode = this._roundingMode,
+  ): this {
+    const fraction = this._parseOperand(percentage, "subtractPercentage");
+    if (fraction === null) {
       return this;
     }
     // currentCents * (1 - percentage / 100)
-    this._cents = Math.round(this._cents * (1 - numPercentage / 100));
-    return this;
+    const hundred = fraction.denominator * 100n;
+    return this.apply((target) => {
+      target._cents = roundQuotient(
+        target._cents * (hundred - fraction.numerator),
+        hundred,
+        roundingMode,
+      );
+    });
+  }
+
+  /**
+   * @method allocate
+   * @description Splits the current monetary value into parts proportional to the given ratios,
+   * without losing or creating a single minor unit: the parts always add back up to the original.
+   * Each part first receives its rounded-down share; the leftover units are then handed out one
+   * at a time, from the first part to the last, skipping parts whose ratio is zero.
+   * Negative amounts are allocated the same way and every part keeps the negative sign.
+   * This instance is left untouched.
+   * @param {number[]} ratios The relative weights of each part (e.g., [70, 30] or [1, 1, 1]).
+   * Ratios must be finite and non-negative, and at least one must be greater than zero.
+   * @returns {MoneyUtils[]} One new MoneyUtils instance per ratio, in the same order.
+   * @throws {RangeError} If `ratios` is empty, contains a negative or non-finite value, or sums to zero.
+   * @example
+   * MoneyUtils.of(100).allocate([1, 1, 1]).map((m) => m.value); // [33.34, 33.33, 33.33]
+   * MoneyUtils.of(0.05).allocate([30, 70]).map((m) => m.value); // [0.02, 0.03]
+   * MoneyUtils.of(10).allocate([1, 0, 1]).map((m) => m.value); // [5, 0, 5]
+   * MoneyUtils.of(-10).allocate([1, 2]).map((m) => m.value); // [-3.34, -6.66]
+   */
+  allocate(ratios: number[]): MoneyUtils[] {
+    if (ratios.length === 0) {
+      throw new RangeError("Cannot allocate without at least one ratio.");
+    }
+    if (ratios.some((ratio) => !Number.isFinite(ratio) || ratio < 0)) {
+      throw new RangeError("Allocation ratios must be finite, non-negative numbers.");
+    }
+    // Turn the ratios into exact integer weights sharing one power-of-ten denominator
+    const fractions = ratios.map((ratio) => parseDecimal(ratio) as DecimalFraction);
+    const commonDenominator = fractions.reduce(
+      (max, fraction) => (fraction.denominator > max ? fraction.denominator : max),
+      1n,
+    );
+    const weights = fractions.map(
+      (fraction) => fraction.numerator * (commonDenominator / fraction.denominator),
+    );
+    const total = weights.reduce((sum, weight) => sum + weight, 0n);
+    if (total === 0n) {
+      throw new RangeError("At least one allocation ratio must be greater than zero.");
+    }
+
+    const isNegative = this._cents < 0n;
+    const absoluteCents = isNegative ? -this._cents : this._cents;
+    const shares = weights.map((weight) => (absoluteCents * weight) / total);
+    let remainder = absoluteCents - shares.reduce((sum, share) => sum + share, 0n);
+
+    // Hand out the leftover units round-robin, so the first parts absorb the rounding
+    for (let i = 0; remainder > 0n; i = (i + 1) % shares.length) {
+      if (weights[i] > 0n) {
+        shares[i] += 1n;
+        remainder -= 1n;
+      }
+    }
+
+    return shares.map((share) => this._derive(isNegative ? -share : share));
+  }
+
+  /**
+   * @method split
+   * @description Splits the current monetary value into `parts` equal shares whose sum is exactly
+   * the original value. Any leftover minor units go to the first shares.
+   * This is a shorthand for `allocate` with equal ratios, and leaves this instance untouched.
+   * @param {number} parts The number of shares to create. Must be a positive integer.
+   * @returns {MoneyUtils[]} `parts` new MoneyUtils instances.
+   * @throws {RangeError} If `parts` is not a positive integer.
+   * @example
+   * MoneyUtils.of(100).split(3).map((m) => m.value); // [33.34, 33.33, 33.33]
+   * MoneyUtils.of(0.02).split(3).map((m) => m.value); // [0.01, 0.01, 0]
+   */
+  split(parts: number): MoneyUtils[] {
+    if (!Number.isInteger(parts) || parts <= 0) {
+      throw new RangeError("The number of parts must be a positive integer.");
+    }
+    return this.allocate(new Array<number>(parts).fill(1));
+  }
+
+  /**
+   * @method convertTo
+   * @description Converts the current monetary value into another currency using the
+   * rate supplied by an ExchangeRateProvider. A new instance is returned because the
+   * result no longer represents the same currency as this one.
+   * @param {string} targetCurrency The currency code to convert to (e.g., 'EUR').
+   * @param {ExchangeRateProvider} provider The source of the exchange rate.
+   * @param {number} [targetScale] The scale of the result. Defaults to the target currency's minor unit.
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
+   * @returns {MoneyUtils} A new MoneyUtils instance in the target currency.
+   * @throws {ExchangeRateNotFoundError} If the provider has no rate for the pair.
+   * @throws {UnknownCurrencyError} If the target currency is not registered.
+   * @example
+   * const rates = new StaticExchangeRateProvider({ USD: { EUR: 0.9, JPY: 150 } });
+   * MoneyUtils.of(10, 'USD').convertTo('EUR', rates).value; // 9
+   * MoneyUtils.of(10.99, 'USD').convertTo('JPY', rates).value; // 1649 (JPY has no minor unit)
+   * MoneyUtils.of(1000, 'JPY').convertTo('USD', rates).value; // 6.67
+   */
+  convertTo(
+    targetCurrency: string,
+    provider: ExchangeRateProvider,
+    targetScale?: number,
+    roundingMode: RoundingMode = this._roundingMode,
+  ): MoneyUtils {
+    const { code } = CurrencyRegistry.get(targetCurrency);
+    const scale = MoneyUtils._resolveScale(code, targetScale);
+    const rate = parseDecimal(provider.getRate(this._currency, code));
+    if (rate === null) {
+      throw new ExchangeRateNotFoundError(this._currency, code);
+    }
+    const scaleShift = 10n ** BigInt(Math.abs(scale - this._scale));
+    const numerator = this._cents * rate.numerator * (scale > this._scale ? scaleShift : 1n);
+    const denominator = rate.denominator * (scale < this._scale ? scaleShift : 1n);
+    return this._derive(roundQuotient(numerator, denominator, roundingMode), code, scale);
   }
 
   /**
    * @method format
    * @description Formats the current monetary value into a locale-specific currency string.
+   * Custom currencies registered in the CurrencyRegistry are unknown to `Intl.NumberFormat`,
+   * so they are formatted as a plain number followed by their symbol.
    * @param {string} [locale] The locale string (e.g., 'en-US', 'de-DE'). Defaults to current browser locale.
-   * @param {Intl.NumberFormatOptions} [options] Optional formatting options for `Intl.NumberFormat`.
+   * @param {Intl.NumberFormatOptions | MoneyFormatPreset} [options] Optional formatting options for
+   * `Intl.NumberFormat`, or the name of a preset ('standard', 'accounting', 'compact' or 'words').
    * @returns {string} The formatted currency string.
+   * @throws {RangeError} With the 'words' preset, if the locale's language has no spelling rules
+   * (English and French are built in) or the amount is too large to be spelled out.
    * @example
    * MoneyUtils.of(1234.56, 'USD').format('en-US'); // "$1,234.56"
    * MoneyUtils.of(1234.56, 'EUR').format('de-DE'); // "1.234,56 €"
    * MoneyUtils.of(1234.56, 'USD').format('en-US', { style: 'currency', currencyDisplay: 'name' }); // "1,234.56 US dollars"
+   * MoneyUtils.of(1500, 'PTS').format('en-US'); // "1,500 pts" (after registering PTS)
+   * MoneyUtils.of(-1234.56, 'USD').format('en-US', 'accounting'); // "($1,234.56)"
+   * MoneyUtils.of(1234567, 'USD').format('en-US', 'compact'); // "$1.2M"
+   * MoneyUtils.of(123.45, 'USD').format('en-US', 'words'); // "one hundred twenty-three dollars and 45 cents"
+   * MoneyUtils.of(80, 'EUR').format('fr-FR', 'words'); // "quatre-vingts euros"
    */
-  format(locale?: string, options?: Intl.NumberFormatOptions): string {
+  format(locale?: string, options?: Intl.NumberFormatOptions | MoneyFormatPreset): string {
+    if (options === "words") {
+      return spellOutMoney(this.amount, this._currency, locale);
+    }
+    const isIsoCurrency = CurrencyRegistry.isIso(this._currency);
     const numberFormatterOptions: Intl.NumberFormatOptions = {
-      style: "currency",
-      currency: this._currency,
+      ...(isIsoCurrency ? { style: "currency", currency: this._currency } : { style: "decimal" }),
       minimumFractionDigits: this._scale,
       maximumFractionDigits: this._scale,
-      ...options, // Allow overriding default options
+      // Allow overriding default options, directly or through a preset
+      ...(typeof options === "string" ? FORMAT_PRESETS[options] : options),
     };
+    // Custom currencies use the decimal style, which has no accounting sign: add the parentheses
+    const isAccountingNegative =
+      !isIsoCurrency && numberFormatterOptions.currencySign === "accounting" && this._cents < 0n;
 
     try {
-      return new Intl.NumberFormat(locale, numberFormatterOptions).format(this.value);
+      // Formatting the exact decimal string keeps every digit, even beyond double precision
+      const formatted = new Intl.NumberFormat(locale, numberFormatterOptions).format(
+        (isAccountingNegative ? this.amount.slice(1) : this.amount) as Intl.StringNumericLiteral,
+      );
+      if (isIsoCurrency) {
+        return formatted;
+      }
+      const withSymbol = `${formatted} ${CurrencyRegistry.get(this._currency).symbol}`;
+      return isAccountingNegative ? `(${withSymbol})` : withSymbol;
     } catch (e) {
       console.error("Error formatting currency:", e);
       // Fallback to a simple string if formatting fails
-      return `${this._currency} ${this.value.toFixed(this._scale)}`;
+      return `${this._currency} ${this.amount}`;
     }
   }
 
@@ -263,7 +1465,7 @@ class MoneyUtils {
    * MoneyUtils.of(0.001).isZero(); // false
    */
   isZero(): boolean {
-    return this._cents === 0;
+    return this._cents === 0n;
   }
 
   /**
@@ -276,7 +1478,7 @@ class MoneyUtils {
    * MoneyUtils.of(0).isPositive(); // false
    */
   isPositive(): boolean {
-    return this._cents > 0;
+    return this._cents > 0n;
   }
 
   /**
@@ -289,70 +1491,139 @@ class MoneyUtils {
    * MoneyUtils.of(0).isNegative(); // false
    */
   isNegative(): boolean {
-    return this._cents < 0;
+    return this._cents < 0n;
   }
 
   /**
    * @method isEqual
    * @description Checks if the current monetary value is exactly equal to another amount.
-   * Compares based on the internal cents value.
+   * MoneyUtils operands are compared exactly, whatever their scale.
    * @param {number | string | MoneyUtils} other The amount to compare against.
    * @returns {boolean} True if the values are equal, false otherwise.
+   * @throws {CurrencyMismatchError} If `other` is a MoneyUtils instance in another currency.
+   * @throws {InvalidNumberError} If `other` is invalid and the instance is in strict mode.
    * @example
    * MoneyUtils.of(10).isEqual(10); // true
    * MoneyUtils.of(10.00).isEqual("10"); // true
    * MoneyUtils.of(10.50).isEqual(MoneyUtils.of(10.5)); // true
    */
   isEqual(other: number | string | MoneyUtils): boolean {
-    return this._cents === this._toCents(other);
+    return this._compareTo(other, "isEqual") === 0;
   }
 
   /**
    * @method isLessThan
    * @description Checks if the current monetary value is strictly less than another amount.
-   * Compares based on the internal cents value.
+   * MoneyUtils operands are compared exactly, whatever their scale.
    * @param {number | string | MoneyUtils} other The amount to compare against.
    * @returns {boolean} True if the current value is less than `other`, false otherwise.
+   * @throws {CurrencyMismatchError} If `other` is a MoneyUtils instance in another currency.
+   * @throws {InvalidNumberError} If `other` is invalid and the instance is in strict mode.
    * @example
    * MoneyUtils.of(5).isLessThan(10); // true
    * MoneyUtils.of(10).isLessThan(10); // false
    */
   isLessThan(other: number | string | MoneyUtils): boolean {
-    return this._cents < this._toCents(other);
+    return this._compareTo(other, "isLessThan") < 0;
   }
 
   /**
    * @method isMoreThan
    * @description Checks if the current monetary value is strictly more than another amount.
-   * Compares based on the internal cents value.
+   * MoneyUtils operands are compared exactly, whatever their scale.
    * @param {number | string | MoneyUtils} other The amount to compare against.
    * @returns {boolean} True if the current value is more than `other`, false otherwise.
+   * @throws {CurrencyMismatchError} If `other` is a MoneyUtils instance in another currency.
+   * @throws {InvalidNumberError} If `other` is invalid and the instance is in strict mode.
    * @example
    * MoneyUtils.of(15).isMoreThan(10); // true
    * MoneyUtils.of(10).isMoreThan(10); // false
    */
   isMoreThan(other: number | string | MoneyUtils): boolean {
-    return this._cents > this._toCents(other);
+    return this._compareTo(other, "isMoreThan") > 0;
   }
 
   /**
    * @property {number} value
    * @description A getter property to retrieve the final monetary value as a decimal number.
+   * Very large or very precise amounts may lose digits here; use `amount` for the exact value.
    * @returns {number} The current monetary value as a standard decimal number.
    */
   get value(): number {
-    return this._cents / 10 ** this._scale;
+    return Number(this.amount);
+  }
+
+  /**
+   * @property {string} amount
+   * @description A getter property to retrieve the exact monetary value as a decimal string,
+   * always with `scale` fraction digits.
+   * @returns {string} The current monetary value, e.g. "1234.50" or "-0.05".
+   */
+  get amount(): string {
+    const isNegative = this._cents < 0n;
+    const digits = (isNegative ? -this._cents : this._cents)
+      .toString()
+      .padStart(this._scale + 1, "0");
+    const integerPart = digits.slice(0, digits.length - this._scale);
+    const fractionPart = this._scale > 0 ? `.${digits.slice(digits.length - this._scale)}` : "";
+    return `${isNegative ? "-" : ""}${integerPart}${fractionPart}`;
   }
 
   /**
    * @property {number} cents
    * @description A getter property to retrieve the internal integer representation (e.g., cents).
+   * Amounts beyond `Number.MAX_SAFE_INTEGER` minor units lose precision here; use `minorUnits` instead.
    * @returns {number} The current monetary value in its smallest integer unit.
    */
   get cents(): number {
+    return Number(this._cents);
+  }
+
+  /**
+   * @property {bigint} minorUnits
+   * @description A getter property to retrieve the exact internal integer representation.
+   * @returns {bigint} The current monetary value in its smallest integer unit.
+   */
+  get minorUnits(): bigint {
     return this._cents;
   }
 
+  /**
+   * @property {number} scale
+   * @description A getter property to retrieve the number of decimal places of the currency.
+   * @returns {number} The scale (e.g., 2 for cents).
+   */
+  get scale(): number {
+    return this._scale;
+  }
+
+  /**
+   * @property {RoundingMode} roundingMode
+   * @description A getter property to retrieve the default rounding mode of the instance.
+   * @returns {RoundingMode} The rounding mode (e.g., 'half-up').
+   */
+  get roundingMode(): RoundingMode {
+    return this._roundingMode;
+  }
+
+  /**
+   * @property {ScalePolicy} scalePolicy
+   * @description A getter property to retrieve how the instance combines amounts of other scales.
+   * @returns {ScalePolicy} The scale policy ('reject' or 'promote').
+   */
+  get scalePolicy(): ScalePolicy {
+    return this._scalePolicy;
+  }
+
+  /**
+   * @property {boolean} isStrict
+   * @description A getter property telling whether invalid operands and divisions by zero throw.
+   * @returns {boolean} True in strict mode, false otherwise.
+   */
+  get isStrict(): boolean {
+    return this._strict;
+  }
+
   /**
    * @property {string} currency
    * @description A getter property to retrieve the currency code.
@@ -378,85 +1649,186 @@ class MoneyUtils {
    * @returns {string} The string representation of the current monetary value.
    */
   toString(): string {
-    return `${this.value.toFixed(this._scale)} ${this._currency}`;
+    return `${this.amount} ${this._currency}`;
   }
-}
-
-// --- Example Usage ---
 
-console.log("--- MoneyUtils Examples ---");
-
-// Basic creation and value retrieval
-const price1 = MoneyUtils.of(123.45, "USD");
-console.log("Price 1:", price1.value, price1.currency, "cents:", price1.cents); // 123.45 USD cents: 12345
-
-const price2 = MoneyUtils.of("75.89", "EUR");
-console.log("Price 2:", price2.value, price2.currency, "cents:", price2.cents); // 75.89 EUR cents: 7589
-
-const price3 = MoneyUtils.of(500, "JPY", 0); // JPY typically has 0 decimal places
-console.log("Price 3 (JPY):", price3.value, price3.currency, "cents:", price3.cents); // 500 JPY cents: 500
-
-// Arithmetic operations
-const totalCost = MoneyUtils.of(100.5)
-  .add(20.75, "5.25") // 100.50 + 20.75 + 5.25 = 126.50
-  .subtract(10) // 126.50 - 10 = 116.50
-  .multiply(2) // 116.50 * 2 = 233.00
-  .divide(4).value; // 233.00 / 4 = 58.25
-console.log("Total Cost (chained arithmetic):", totalCost); // Output: 58.25
-
-// Percentage calculations
-const itemPrice = MoneyUtils.of(150);
-const taxAmount = itemPrice.toPercentage(8).value; // 8% of 150 = 12
-console.log("8% of 150:", taxAmount); // Output: 12
+  /**
+   * @method toJSON
+   * @description Returns the lossless JSON representation of the amount. Called automatically by
+   * `JSON.stringify`, and reversed by `MoneyUtils.fromJSON()` or `MoneyUtils.reviver`.
+   * The rounding mode, the scale policy, strict mode and immutable mode are settings of the
+   * instance, not part of the value, so they are not serialized.
+   * @returns {MoneyJSON} The amount in minor units (as a string), the currency and the scale.
+   * @example
+   * MoneyUtils.of(12.34).toJSON(); // { amount: "1234", currency: "USD", scale: 2 }
+   * JSON.stringify({ price: MoneyUtils.of(500, 'JPY') }); // '{"price":{"amount":"500","currency":"JPY","scale":0}}'
+   */
+  toJSON(): MoneyJSON {
+    return { amount: this._cents.toString(), currency: this._currency, scale: this._scale };
+  }
+}
 
-const priceWithTax = MoneyUtils.of(150).addPercentage(8).value; // 150 + 8% = 162
-console.log("150 + 8% tax:", priceWithTax); // Output: 162
+/**
+ * @class MoneyBag
+ * @description Collects amounts in several currencies without converting them, keeping one
+ * total per currency (e.g., a travel expense report or a multi-currency wallet). It can be
+ * collapsed into a single currency through an ExchangeRateProvider when needed.
+ * Amounts added to the bag are copied, never modified.
+ */
+export class MoneyBag {
+  /**
+   * @private
+   * @description The running total of each currency, keyed by currency code.
+   */
+  private readonly totalsByCurrency: Map<string, MoneyUtils>;
 
-const discountedPrice = MoneyUtils.of(200).subtractPercentage(25).value; // 200 - 25% = 150
-console.log("200 - 25% discount:", discountedPrice); // Output: 150
+  /**
+   * @private constructor
+   * @description Use the static `MoneyBag.of()` factory method instead.
+   */
+  private constructor() {
+    this.totalsByCurrency = new Map();
+  }
 
-// Formatting
-const formattedUSD = MoneyUtils.of(12345.67, "USD").format("en-US");
-console.log("Formatted USD (en-US):", formattedUSD); // Output: $12,345.67
+  /**
+   * @static
+   * @method of
+   * @description Creates a bag, optionally filled with a first set of amounts.
+   * @param {...MoneyUtils} amounts The amounts to start with, in any currencies.
+   * @returns {MoneyBag} A new MoneyBag instance.
+   * @example
+   * MoneyBag.of(MoneyUtils.of(10, 'USD'), MoneyUtils.of(5, 'EUR')).currencies; // ["EUR", "USD"]
+   */
+  static of(...amounts: MoneyUtils[]): MoneyBag {
+    return new MoneyBag().add(...amounts);
+  }
 
-const formattedEUR = MoneyUtils.of(9876.54, "EUR").format("de-DE");
-console.log("Formatted EUR (de-DE):", formattedEUR); // Output: 9.876,54 €
+  /**
+   * @method add
+   * @description Adds amounts to the total of their respective currencies.
+   * @param {...MoneyUtils} amounts The amounts to add, in any currencies.
+   * @returns {this} The current MoneyBag instance for continued chaining.
+   * @throws {ScaleMismatchError} If an amount's scale differs from its currency total and the policy is 'reject'.
+   * @example
+   * MoneyBag.of(MoneyUtils.of(10)).add(MoneyUtils.of(5), MoneyUtils.of(3, 'EUR')).totalOf('USD').value; // 15
+   */
+  add(...amounts: MoneyUtils[]): this {
+    for (const amount of amounts) {
+      const total = this.totalsByCurrency.get(amount.currency);
+      this.totalsByCurrency.set(
+        amount.currency,
+        MoneyUtils.sum(total ? [total, amount] : [amount]),
+      );
+    }
+    return this;
+  }
 
-const formattedGBP = MoneyUtils.of(50.25, "GBP").format("en-GB", { currencyDisplay: "symbol" });
-console.log("Formatted GBP (en-GB, symbol):", formattedGBP); // Output: £50.25
+  /**
+   * @method subtract
+   * @description Subtracts amounts from the total of their respective currencies.
+   * A currency that is not in the bag yet starts from zero.
+   * @param {...MoneyUtils} amounts The amounts to subtract, in any currencies.
+   * @returns {this} The current MoneyBag instance for continued chaining.
+   * @example
+   * MoneyBag.of(MoneyUtils.of(10)).subtract(MoneyUtils.of(4)).totalOf('USD').value; // 6
+   */
+  subtract(...amounts: MoneyUtils[]): this {
+    return this.add(...amounts.map((amount) => amount.mutable().multiply(-1)));
+  }
 
-const formattedJPY = MoneyUtils.of(1234, "JPY", 0).format("ja-JP");
-console.log("Formatted JPY (ja-JP):", formattedJPY); // Output: ¥1,234
+  /**
+   * @method totalOf
+   * @description Returns the total of a currency, or zero if the bag holds none of it.
+   * @param {string} currency The currency code.
+   * @returns {MoneyUtils} A copy of the total, so changing it does not change the bag.
+   * @throws {UnknownCurrencyError} If the currency is not registered.
+   * @example
+   * MoneyBag.of(MoneyUtils.of(10, 'EUR')).totalOf('eur').value; // 10
+   * MoneyBag.of().totalOf('JPY').value; // 0
+   */
+  totalOf(currency: string): MoneyUtils {
+    const { code } = CurrencyRegistry.get(currency);
+    return this.totalsByCurrency.get(code)?.clone() ?? MoneyUtils.fromMinorUnits(0n, code);
+  }
 
-// Comparisons
-console.log("\n--- MoneyUtils Comparison Examples ---");
-const amountA = MoneyUtils.of(100);
-const amountB = MoneyUtils.of(100.0);
-const amountC = MoneyUtils.of(100.01);
-const amountD = MoneyUtils.of(99.99);
+  /**
+   * @method totals
+   * @description Returns the total of every currency in the bag, sorted by currency code.
+   * @returns {MoneyUtils[]} Copies of the totals.
+   * @example
+   * MoneyBag.of(MoneyUtils.of(10, 'USD'), MoneyUtils.of(5, 'EUR')).totals().map(String); // ["5.00 EUR", "10.00 USD"]
+   */
+  totals(): MoneyUtils[] {
+    return this.currencies.map((currency) => this.totalOf(currency));
+  }
 
-console.log("100 isEqual 100.00?", amountA.isEqual(amountB)); // true
-console.log("100 isEqual 100.01?", amountA.isEqual(amountC)); // false
-console.log("100 isLessThan 100.01?", amountA.isLessThan(amountC)); // true
-console.log("100 isMoreThan 99.99?", amountA.isMoreThan(amountD)); // true
-console.log("100 isZero?", amountA.isZero()); // false
-console.log("0 isZero?", MoneyUtils.of(0).isZero()); // true
-console.log("-5 isPositive?", MoneyUtils.of(-5).isPositive()); // false
-console.log("-5 isNegative?", MoneyUtils.of(-5).isNegative()); // true
+  /**
+   * @method convertTo
+   * @description Collapses the bag into a single currency: every total is converted with the
+   * provider's rate (and rounded to the target scale), then the results are added up at the
+   * largest of their scales, so a total kept at a higher precision loses nothing.
+   * @param {string} targetCurrency The currency code to convert to.
+   * @param {ExchangeRateProvider} provider The source of the exchange rates.
+   * @param {RoundingMode} [roundingMode] Overrides the rounding mode of each conversion.
+   * @returns {MoneyUtils} A new MoneyUtils instance holding the grand total.
+   * @throws {ExchangeRateNotFoundError} If the provider has no rate for one of the currencies.
+   * @throws {UnknownCurrencyError} If the target currency is not registered.
+   * @example
+   * const rates = new StaticExchangeRateProvider({ EUR: { USD: 1.1 } });
+   * MoneyBag.of(MoneyUtils.of(10, 'USD'), MoneyUtils.of(5, 'EUR')).convertTo('USD', rates).value; // 15.5
+   * MoneyBag.of(MoneyUtils.of("1.2345", 'EUR', 4), MoneyUtils.of(11, 'USD')).convertTo('EUR', new StaticExchangeRateProvider({ USD: { EUR: 0.9 } })).amount; // "11.1345"
+   */
+  convertTo(
+    targetCurrency: string,
+    provider: ExchangeRateProvider,
+    roundingMode?: RoundingMode,
+  ): MoneyUtils {
+    const { code } = CurrencyRegistry.get(targetCurrency);
+    const converted = this.totals().map((total) =>
+      total.currency === code ? total : total.convertTo(code, provider, undefined, roundingMode),
+    );
+    const scale = converted.reduce((max, total) => Math.max(max, total.scale), 0);
+    return MoneyUtils.sum(
+      converted.map((total) => total.rescale(scale)),
+      code,
+    );
+  }
 
-// Chaining with comparisons
-const finalAmount = MoneyUtils.of(50).add(25).subtract(10); // 65
+  /**
+   * @method isEmpty
+   * @description Checks whether the bag holds no currency at all. A currency whose total went
+   * back to zero still counts as held.
+   * @returns {boolean} True if no amount was ever added, false otherwise.
+   */
+  isEmpty(): boolean {
+    return this.totalsByCurrency.size === 0;
+  }
 
-console.log("Is finalAmount (65) less than 70?", finalAmount.isLessThan(70)); // true
-console.log("Is finalAmount (65) equal to 65?", finalAmount.isEqual(65)); // true
-console.log("Is finalAmount (65) positive?", finalAmount.isPositive()); // true
+  /**
+   * @property {string[]} currencies
+   * @description A getter property listing the currency codes held by the bag, sorted.
+   * @returns {string[]} The currency codes (e.g., ['EUR', 'USD']).
+   */
+  get currencies(): string[] {
+    return [...this.totalsByCurrency.keys()].sort();
+  }
 
-// Handling different scales and currencies in operations (requires careful use or explicit conversion)
-// For simplicity, add/subtract/compare assume the same scale as the MoneyUtils instance.
-// If you need to add different currencies/scales, you'd convert them first:
-const usdAmount = MoneyUtils.of(10, "USD", 2);
-const eurAmount = MoneyUtils.of(5, "EUR", 2); // Different currency, same scale
+  /**
+   * @method toJSON
+   * @description Returns the lossless JSON representation of every total, sorted by currency code.
+   * Each entry can be revived with `MoneyUtils.fromJSON()` or `MoneyUtils.reviver`.
+   * @returns {MoneyJSON[]} The totals as MoneyJSON objects.
+   */
+  toJSON(): MoneyJSON[] {
+    return this.totals().map((total) => total.toJSON());
+  }
 
-// Directly adding different currencies might not be semantically correct without exchange rates
-// console.log(usdAmount.add(eurAmount).value); // This would add 5 EUR as if it were 5 USD cents.
-// A more robust solution for multi-currency would involve explicit exchange rate application.
+  /**
+   * @method toString
+   * @description Returns the totals joined with " + " (e.g., "5.00 EUR + 10.00 USD").
+   * @returns {string} The string representation of the bag.
+   */
+  toString(): string {
+    return this.totals().join(" + ");
+  }
+}
@@ -1,121 +1,1580 @@
+import { FluentValue } from "./fluent-value";
+import { Fraction, absBigInt, gcdOf } from "./fraction-utils";
+import { BIDI_MARKS, getLocaleNumberSymbols, readLocaleDecimal } from "./locale-utils";
+import { Either, type IEither } from "./monads";
+import { RandomGenerator, type RandomOptions } from "./random-utils";
+import {
+  DEFAULT_ROUNDING_MODE,
+  DivisionByZeroError,
+  InvalidNumberError,
+  assertRoundingMode,
+  parseDecimal,
+  roundQuotient,
+  roundToDecimals,
+  roundToStep,
+  type DecimalFraction,
+  type RoundingMode,
+} from "./rounding-utils";
+import {
+  DimensionMismatchError,
+  UnitRegistry,
+  convertUnit,
+  convertUnitExactly,
+  type UnitDefinition,
+} from "./unit-registry";
+
+/**
+ * @constant DEFAULT_DIVISION_PRECISION
+ * @description The number of decimal places `divide()` keeps in decimal mode, unless the
+ * instance sets its own with `withDivisionPrecision()`.
+ */
+const DEFAULT_DIVISION_PRECISION = 20;
+
+/**
+ * @private
+ * @function scaleOf
+ * @description Returns the number of decimal places of a DecimalFraction (e.g., 1005 / 1000 → 3).
+ * @param {DecimalFraction} fraction The fraction.
+ * @returns {number} Its scale.
+ */
+const scaleOf = (fraction: DecimalFraction): number => fraction.denominator.toString().length - 1;
+
+/**
+ * @private
+ * @function exponentOf
+ * @description Returns the power of ten of the leading digit of a fraction
+ * (e.g., 2 for 123.456, -4 for 0.000123, and 0 for zero).
+ * @param {DecimalFraction} fraction The fraction.
+ * @returns {number} The exponent, as in scientific notation.
+ */
+const exponentOf = ({ numerator, denominator }: DecimalFraction): number => {
+  if (numerator === 0n) {
+    return 0;
+  }
+  const digitCount = (numerator < 0n ? -numerator : numerator).toString().length;
+  return digitCount - denominator.toString().length;
+};
+
+/**
+ * @private
+ * @function withScale
+ * @description Expresses a fraction with more decimal places, exactly (e.g., 1.5 at scale 3 is 1500 / 1000).
+ * @param {DecimalFraction} fraction The fraction.
+ * @param {number} scale The new scale. Must not be lower than the fraction's scale.
+ * @returns {DecimalFraction} The same value with the given scale.
+ */
+const withScale = (fraction: DecimalFraction, scale: number): DecimalFraction => ({
+  numerator: fraction.numerator * 10n ** BigInt(scale - scaleOf(fraction)),
+  denominator: 10n ** BigInt(scale),
+});
+
+/**
+ * @private
+ * @function addFractions
+ * @description Adds two fractions exactly. The result has the larger of both scales.
+ * @param {DecimalFraction} a The first fraction.
+ * @param {DecimalFraction} b The second fraction.
+ * @returns {DecimalFraction} The exact sum.
+ */
+const addFractions = (a: DecimalFraction, b: DecimalFraction): DecimalFraction => {
+  const scale = Math.max(scaleOf(a), scaleOf(b));
+  const [left, right] = [withScale(a, scale), withScale(b, scale)];
+  return { numerator: left.numerator + right.numerator, denominator: left.denominator };
+};
+
+/**
+ * @private
+ * @function compareFractions
+ * @description Compares two fractions exactly.
+ * @param {DecimalFraction} a The first fraction.
+ * @param {DecimalFraction} b The second fraction.
+ * @returns {number} -1 if `a < b`, 0 if they are equal, 1 if `a > b`.
+ */
+const compareFractions = (a: DecimalFraction, b: DecimalFraction): -1 | 0 | 1 => {
+  const difference = addFractions(a, { numerator: -b.numerator, denominator: b.denominator });
+  return difference.numerator === 0n ? 0 : difference.numerator < 0n ? -1 : 1;
+};
+
+/**
+ * @private
+ * @function roundFraction
+ * @description Rounds a fraction to a given number of decimal places, which becomes its scale
+ * (so 1.5 rounded to 2 decimals is 1.50). Negative `decimals` round to tens, hundreds, etc.
+ * @param {DecimalFraction} fraction The fraction.
+ * @param {number} decimals The number of decimal places to keep. Must be an integer.
+ * @param {RoundingMode} mode How to round.
+ * @returns {DecimalFraction} The rounded fraction.
+ */
+const roundFraction = (
+  fraction: DecimalFraction,
+  decimals: number,
+  mode: RoundingMode,
+): DecimalFraction => {
+  if (decimals >= scaleOf(fraction)) {
+    return withScale(fraction, decimals);
+  }
+  if (decimals >= 0) {
+    const denominator = 10n ** BigInt(decimals);
+    const numerator = roundQuotient(fraction.numerator * denominator, fraction.denominator, mode);
+    return { numerator, denominator };
+  }
+  const step = 10n ** BigInt(-decimals);
+  const steps = roundQuotient(fraction.numerator, fraction.denominator * step, mode);
+  return { numerator: steps * step, denominator: 1n };
+};
+
+/**
+ * @private
+ * @function stripTrailingZeros
+ * @description Removes the trailing zeros of the decimal part (e.g., 2.500 → 2.5).
+ * @param {DecimalFraction} fraction The fraction.
+ * @returns {DecimalFraction} The same value with the smallest possible scale.
+ */
+const stripTrailingZeros = ({ numerator, denominator }: DecimalFraction): DecimalFraction => {
+  while (denominator > 1n && numerator % 10n === 0n) {
+    numerator /= 10n;
+    denominator /= 10n;
+  }
+  return { numerator, denominator };
+};
+
+/**
+ * @private
+ * @function formatFraction
+ * @description Writes a fraction as a plain decimal string with all of its decimal places
+ * (e.g., 1050 / 100 → "10.50"), never in exponential notation.
+ * @param {DecimalFraction} fraction The fraction.
+ * @returns {string} The lossless decimal string.
+ */
+const formatFraction = (fraction: DecimalFraction): string => {
+  const scale = scaleOf(fraction);
+  const sign = fraction.numerator < 0n ? "-" : "";
+  const digits = (sign ? -fraction.numerator : fraction.numerator)
+    .toString()
+    .padStart(scale + 1, "0");
+  return scale === 0 ? sign + digits : `${sign}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+};
+
+/**
+ * @private
+ * @function toSignificantDigits
+ * @description Rounds a fraction to a number of significant digits, keeping the trailing zeros
+ * that are significant (e.g., 9.996 to 3 digits is 10.0, not 10.00).
+ * @param {DecimalFraction} fraction The fraction.
+ * @param {number} precision The number of significant digits. Must be a positive integer.
+ * @param {RoundingMode} mode How to round.
+ * @returns {DecimalFraction} The rounded fraction.
+ */
+const toSignificantDigits = (
+  fraction: DecimalFraction,
+  precision: number,
+  mode: RoundingMode,
+): DecimalFraction => {
+  const rounded = roundFraction(fraction, precision - 1 - exponentOf(fraction), mode);
+  // Rounding up may add a leading digit (9.996 → 10.00): drop the extra trailing zero
+  if (exponentOf(rounded) > exponentOf(fraction) && scaleOf(rounded) > 0) {
+    return roundFraction(rounded, scaleOf(rounded) - 1, mode);
+  }
+  return rounded;
+};
+
+/**
+ * @class NumberParseError
+ * @description Thrown when `NumberUtils.parse()` cannot turn a locale-specific string into a number.
+ */
+class NumberParseError extends Error {
+  /**
+   * @param {string} input The string that failed to parse.
+   * @param {string} reason A human-readable explanation of what is wrong with it.
+   */
+  constructor(
+    public readonly input: string,
+    reason: string,
+  ) {
+    super(`Cannot parse "${input}" as a number: ${reason}`);
+    this.name = "NumberParseError";
+  }
+}
+
+/**
+ * @typedef {string} NumberFormatPreset
+ * @description Named formats for `NumberUtils.format()`:
+ * - `"percent"`: the value as a percentage, 0.25 being "25%" ("25 %" in French).
+ * - `"compact"`: short numbers for dashboards ("1.2M", "1,2 Mio.").
+ * - `"scientific"`: one digit before the decimal separator ("1.235E4").
+ * - `"engineering"`: exponents that are multiples of three, as for SI prefixes ("12.346E3").
+ */
+type NumberFormatPreset = "percent" | "compact" | "scientific" | "engineering";
+
+/**
+ * @constant FORMAT_PRESETS
+ * @description The `Intl.NumberFormat` options behind the presets.
+ */
+const FORMAT_PRESETS: Record<NumberFormatPreset, Intl.NumberFormatOptions> = {
+  percent: { style: "percent" },
+  compact: { notation: "compact" },
+  scientific: { notation: "scientific" },
+  engineering: { notation: "engineering" },
+};
+
+/**
+ * @interface StatsOptions
+ * @description Options shared by the statistics helpers of NumberUtils.
+ * @property {"throw" | "omit"} [nan='throw'] What to do with NaN values: reject the whole list
+ * with an InvalidNumberError, or leave them out (e.g., for sensor data with missing readings).
+ * @property {boolean} [sample=false] Whether the variance and standard deviation are those of a
+ * sample (divided by n - 1) rather than of the whole population (divided by n).
+ */
+interface StatsOptions {
+  nan?: "throw" | "omit";
+  sample?: boolean;
+}
+
+/**
+ * @interface NumberStats
+ * @description The summary returned by `NumberUtils.stats()`.
+ * `mode` lists every value sharing the highest frequency, in ascending order.
+ * `quartiles` are the 25th, 50th and 75th percentiles.
+ */
+interface NumberStats {
+  count: number;
+  sum: number;
+  mean: number;
+  median: number;
+  mode: number[];
+  variance: number;
+  standardDeviation: number;
+  min: number;
+  max: number;
+  quartiles: [number, number, number];
+}
+
+/**
+ * @interface HistogramBin
+ * @description One bin of `NumberUtils.histogram()`: the values `start <= value < end`,
+ * except for the last bin, which also includes `end`.
+ */
+interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * @private
+ * @function validValues
+ * @description Applies the NaN policy to a list of values and rejects empty lists, so every
+ * statistics helper reports bad input the same way.
+ * @param {number[]} values The values.
+ * @param {string} operation The public method receiving them, for error messages.
+ * @param {StatsOptions} options The NaN policy.
+ * @returns {number[]} The values to work on, never empty.
+ * @throws {InvalidNumberError} If a value is NaN and the policy is 'throw'.
+ * @throws {RangeError} If there is no value left.
+ */
+const validValues = (values: number[], operation: string, options: StatsOptions): number[] => {
+  const valid = values.filter((value) => !Number.isNaN(value));
+  if (valid.length < values.length && options.nan !== "omit") {
+    throw new InvalidNumberError(NaN, operation);
+  }
+  if (valid.length === 0) {
+    throw new RangeError(`Cannot compute ${operation}() of an empty list.`);
+  }
+  return valid;
+};
+
+/**
+ * @private
+ * @function compensatedSum
+ * @description Adds numbers with Neumaier's compensated summation, which tracks the low-order
+ * bits lost by each floating-point addition (e.g., [1e100, 1, -1e100] sums to 1, not 0).
+ * @param {number[]} values The numbers to add.
+ * @returns {number} The sum.
+ */
+const compensatedSum = (values: number[]): number => {
+  let sum = 0;
+  let compensation = 0;
+  for (const value of values) {
+    const total = sum + value;
+    compensation += Math.abs(sum) >= Math.abs(value) ? sum - total + value : value - total + sum;
+    sum = total;
+  }
+  return sum + compensation;
+};
+
+/**
+ * @private
+ * @function varianceOf
+ * @description Computes the variance in two passes (the mean first, then the squared deviations),
+ * which is far more accurate than the one-pass `E[x²] - E[x]²` formula.
+ * @param {number[]} values The values, never empty.
+ * @param {boolean} sample Whether to divide by n - 1 (sample) instead of n (population).
+ * @returns {number} The variance, or NaN for a sample of one value.
+ */
+const varianceOf = (values: number[], sample: boolean): number => {
+  const mean = compensatedSum(values) / values.length;
+  const squaredDeviations = compensatedSum(values.map((value) => (value - mean) ** 2));
+  return squaredDeviations / (sample ? values.length - 1 : values.length);
+};
+
+/**
+ * @private
+ * @function quantileOfSorted
+ * @description Computes a quantile with linear interpolation between the closest ranks
+ * (the default of NumPy and R, and Excel's PERCENTILE.INC).
+ * @param {number[]} sorted The values in ascending order, never empty.
+ * @param {number} q The quantile, between 0 and 1.
+ * @returns {number} The quantile.
+ */
+const quantileOfSorted = (sorted: number[], q: number): number => {
+  const rank = (sorted.length - 1) * q;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/**
+ * @private
+ * @function sortAscending
+ * @description Returns a sorted copy of the values, leaving the input untouched.
+ * @param {number[]} values The values.
+ * @returns {number[]} The values in ascending order.
+ */
+const sortAscending = (values: number[]): number[] => [...values].sort((a, b) => a - b);
+
+/**
+ * @constant MILLER_RABIN_BASES
+ * @description The witnesses `isPrime()` tests. Together they make the Miller-Rabin test exact
+ * for every number below 3.3 × 10^24; beyond that, a composite passing all of them is
+ * possible in theory but has never been found.
+ */
+const MILLER_RABIN_BASES = [2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n, 41n];
+
+/**
+ * @private
+ * @function euclideanMod
+ * @description Returns the remainder of a division that is never negative, unlike `%`
+ * (e.g., -7 mod 3 is 2), as checksums and modular arithmetic expect.
+ * @param {bigint} value The dividend.
+ * @param {bigint} modulus The divisor. Must not be zero.
+ * @returns {bigint} The remainder, between 0 and `|modulus| - 1`.
+ */
+const euclideanMod = (value: bigint, modulus: bigint): bigint => {
+  const remainder = value % modulus;
+  return remainder < 0n ? remainder + absBigInt(modulus) : remainder;
+};
+
+/**
+ * @private
+ * @function modPowOf
+ * @description Raises an integer to a non-negative power modulo another, by repeated squaring,
+ * so the intermediate values never grow beyond the square of the modulus.
+ * @param {bigint} base The base.
+ * @param {bigint} exponent The exponent. Must not be negative.
+ * @param {bigint} modulus The modulus. Must be positive.
+ * @returns {bigint} `base ** exponent mod modulus`.
+ */
+const modPowOf = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = modulus === 1n ? 0n : 1n;
+  base = euclideanMod(base, modulus);
+  while (exponent > 0n) {
+    if (exponent & 1n) {
+      result = (result * base) % modulus;
+    }
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+};
+
+/**
+ * @private
+ * @function modInverseOf
+ * @description Returns the modular inverse of an integer with the extended Euclidean algorithm.
+ * @param {bigint} value The integer to invert.
+ * @param {bigint} modulus The modulus. Must be positive.
+ * @returns {bigint | null} The `x` in [0, modulus) such that `value * x mod modulus` is 1,
+ * or null if `value` and `modulus` are not coprime.
+ */
+const modInverseOf = (value: bigint, modulus: bigint): bigint | null => {
+  let [oldR, r] = [euclideanMod(value, modulus), modulus];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  return oldR === 1n ? euclideanMod(oldS, modulus) : null;
+};
+
+/**
+ * @private
+ * @function isPrimeBigInt
+ * @description Tests an integer for primality: trial division by the small primes, then the
+ * Miller-Rabin test with the `MILLER_RABIN_BASES` witnesses.
+ * @param {bigint} n The integer to test.
+ * @returns {boolean} True if `n` is prime.
+ */
+const isPrimeBigInt = (n: bigint): boolean => {
+  if (n < 2n) {
+    return false;
+  }
+  for (const prime of MILLER_RABIN_BASES) {
+    if (n % prime === 0n) {
+      return n === prime;
+    }
+  }
+  // n - 1 = d * 2^r, with d odd
+  let d = n - 1n;
+  let r = 0;
+  while ((d & 1n) === 0n) {
+    d >>= 1n;
+    r++;
+  }
+  return MILLER_RABIN_BASES.every((base) => {
+    let x = modPowOf(base, d, n);
+    if (x === 1n || x === n - 1n) {
+      return true;
+    }
+    for (let i = 1; i < r; i++) {
+      x = (x * x) % n;
+      if (x === n - 1n) {
+        return true;
+      }
+    }
+    return false;
+  });
+};
+
+/**
+ * @private
+ * @function parseInteger
+ * @description Parses a number, integer string or bigint exactly into a bigint.
+ * @param {number | string | bigint} value The value to parse.
+ * @returns {bigint | null} The integer, or null if the value is not a finite integer.
+ */
+const parseInteger = (value: number | string | bigint): bigint | null => {
+  const fraction = parseDecimal(value);
+  if (fraction === null || fraction.numerator % fraction.denominator !== 0n) {
+    return null;
+  }
+  return fraction.numerator / fraction.denominator;
+};
+
 /**
  * @class NumberUtils
  * @description A utility class for performing common number manipulations
  * in a chainable, fluent manner. Designed for easy use without needing
  * the 'new' keyword, and for straightforward retrieval of the final number.
+ * An immutable instance can serve as a base value, e.g. a price reused by several calculations:
+ * @example
+ * const base = NumberUtils.of(10).immutable();
+ * const doubled = base.multiply(2);
+ * base.value; // 10 (unchanged)
+ * doubled.value; // 20
  */
-class NumberUtils {
+class NumberUtils extends FluentValue {
+  /**
+   * @private
+   * @description The private instance variable to hold the current number value.
+   */
+  private currentNumber: number;
+
+  /**
+   * @private
+   * @description The rounding mode used by `round`, `roundTo` and `roundToStep`
+   * when the call does not specify its own mode.
+   */
+  private currentRoundingMode: RoundingMode;
+
+  /**
+   * @private
+   * @description Whether invalid operands (NaN, ±Infinity, non-numeric strings) and divisions
+   * by zero throw typed errors instead of carrying NaN or ±Infinity along. See `strict()`.
+   */
+  private strictMode: boolean;
+
+  /**
+   * @private
+   * @description The exact value in decimal mode, or null in the default floating-point mode,
+   * where `currentNumber` holds the value. See `NumberUtils.decimal()`.
+   */
+  private decimalValue: DecimalFraction | null;
+
+  /**
+   * @private
+   * @description The number of decimal places `divide()` keeps in decimal mode.
+   */
+  private currentDivisionPrecision: number;
+
+  /**
+   * @private
+   * @description The unit of measurement of the value, or null for a plain number. See `unit()`.
+   */
+  private currentUnit: UnitDefinition | null;
+
+  /**
+   * @private
+   * @description Whether the instance is in integer mode, a decimal mode restricted to integers.
+   * See `NumberUtils.integer()`.
+   */
+  private integerMode: boolean;
+
+  /**
+   * @private constructor
+   * @description The constructor is private. This enforces that new instances
+   * are always created using the static `NumberUtils.of()` factory method.
+   * @param {number} initialValue The number to start chaining operations on.
+   * @param {RoundingMode} roundingMode The default rounding mode of the instance.
+   */
+  private constructor(initialValue: number, roundingMode: RoundingMode) {
+    super();
+    // Ensure the initial value is always treated as a number type.
+    // Use Number() constructor for robust conversion, handling potential non-numeric inputs gracefully.
+    this.currentNumber = Number(initialValue);
+    this.currentRoundingMode = assertRoundingMode(roundingMode);
+    this.strictMode = false;
+    this.decimalValue = null;
+    this.currentDivisionPrecision = DEFAULT_DIVISION_PRECISION;
+    this.currentUnit = null;
+    this.integerMode = false;
+  }
+
+  /**
+   * @static
+   * @method of
+   * @description The primary way to create a new NumberUtils instance and start a chain.
+   * This method acts as a "factory," returning a new NumberUtils object that's ready
+   * for you to apply number operations to.
+   * @param {number} initialValue The number you want to begin manipulating.
+   * @param {RoundingMode} [roundingMode='half-up'] The default rounding mode of the instance.
+   * @returns {NumberUtils} A new NumberUtils instance, enabling method chaining.
+   * @example
+   * // Start a new number utility chain
+   * NumberUtils.of(123.456)
+   * NumberUtils.of(2.5, 'half-even').round().value; // 2
+   */
+  static of(initialValue: number, roundingMode: RoundingMode = DEFAULT_ROUNDING_MODE): NumberUtils {
+    return new NumberUtils(initialValue, roundingMode);
+  }
+
+  /**
+   * @static
+   * @method strictOf
+   * @description Same as `of()`, but rejects a value that is not a finite number (instead of
+   * carrying NaN along the chain), and returns an instance in strict mode (see `strict()`).
+   * Also accepts a decimal string, such as user input, so the error shows what was typed.
+   * @param {number | string} initialValue The number you want to begin manipulating (e.g., 42 or "42").
+   * @param {RoundingMode} [roundingMode='half-up'] The default rounding mode of the instance.
+   * @returns {NumberUtils} A new NumberUtils instance in strict mode.
+   * @throws {InvalidNumberError} If `initialValue` is not a finite decimal number.
+   * @example
+   * NumberUtils.strictOf(42).value; // 42
+   * NumberUtils.strictOf("12.5").value; // 12.5
+   * NumberUtils.strictOf("abc"); // throws InvalidNumberError: Invalid number "abc" passed to strictOf().
+   */
+  static strictOf(
+    initialValue: number | string,
+    roundingMode: RoundingMode = DEFAULT_ROUNDING_MODE,
+  ): NumberUtils {
+    if (parseDecimal(initialValue) === null) {
+      throw new InvalidNumberError(initialValue, "strictOf");
+    }
+    return new NumberUtils(Number(initialValue), roundingMode).strict();
+  }
+
+  /**
+   * @static
+   * @method tryOf
+   * @description Same as `strictOf()`, but reports an invalid value as a Left holding the error,
+   * or a Right holding the new strict instance, instead of throwing.
+   * @param {number | string} initialValue The number you want to begin manipulating (e.g., 42 or "42").
+   * @param {RoundingMode} [roundingMode='half-up'] The default rounding mode of the instance.
+   * @returns {IEither<Error, NumberUtils>} An InvalidNumberError, or the instance.
+   * @example
+   * NumberUtils.tryOf("12").map((n) => n.multiply(2).value); // Right(24)
+   * NumberUtils.tryOf("12abc").fold((error) => error.message, String); // 'Invalid number "12abc" passed to strictOf().'
+   */
+  static tryOf(
+    initialValue: number | string,
+    roundingMode: RoundingMode = DEFAULT_ROUNDING_MODE,
+  ): IEither<Error, NumberUtils> {
+    return Either.tryCatch(() => NumberUtils.strictOf(initialValue, roundingMode));
+  }
+
+  /**
+   * @static
+   * @method decimal
+   * @description Creates an instance in **decimal mode**: the value is held as an exact decimal of
+   * arbitrary precision instead of a floating-point number, with the same fluent API.
+   * `add`, `subtract` and `multiply` are exact, `divide` keeps `divisionPrecision` decimal places
+   * (20 by default, see `withDivisionPrecision()`), and `toString()` returns the value without
+   * any loss. Numbers are read from their shortest representation (0.1 is exactly "0.1");
+   * pass strings for values beyond the precision of a number.
+   * A decimal cannot be NaN or ±Infinity, so invalid operands and divisions by zero always throw,
+   * as in strict mode.
+   * @param {number | string | bigint} initialValue The value to start with (e.g., "0.1" or 0.1).
+   * @param {RoundingMode} [roundingMode='half-up'] The default rounding mode of the instance,
+   * also used to round the results of `divide()`.
+   * @returns {NumberUtils} A new NumberUtils instance in decimal mode.
+   * @throws {InvalidNumberError} If `initialValue` is not a finite decimal number.
+   * @example
+   * NumberUtils.of(0.1).add(0.2).value; // 0.30000000000000004
+   * NumberUtils.decimal("0.1").add("0.2").toString(); // "0.3"
+   * NumberUtils.decimal("12345678901234567890.5").multiply(2).toString(); // "24691357802469135781.0"
+   * NumberUtils.decimal(1).divide(3).toString(); // "0.33333333333333333333"
+   */
+  static decimal(
+    initialValue: number | string | bigint,
+    roundingMode: RoundingMode = DEFAULT_ROUNDING_MODE,
+  ): NumberUtils {
+    const fraction = parseDecimal(initialValue);
+    if (fraction === null) {
+      throw new InvalidNumberError(initialValue, "decimal");
+    }
+    const instance = new NumberUtils(0, roundingMode);
+    instance.decimalValue = fraction;
+    return instance;
+  }
+
+  /**
+   * @static
+   * @method integer
+   * @description Creates an instance in **integer mode**: a decimal mode restricted to integers of
+   * any size, held as a `bigint`, for checksums, IDs and number theory beyond 2^53.
+   * Operands must be integers, and `divide` rounds the quotient to an integer with the instance
+   * rounding mode (pass 'down' for a truncating division). Pass strings or bigints for values
+   * beyond `Number.MAX_SAFE_INTEGER`, as such numbers have already lost their last digits.
+   * @param {number | string | bigint} initialValue The integer to start with.
+   * @param {RoundingMode} [roundingMode='half-up'] The default rounding mode of the instance,
+   * also used to round the results of `divide()`.
+   * @returns {NumberUtils} A new NumberUtils instance in integer mode.
+   * @throws {InvalidNumberError} If `initialValue` is not a finite integer.
+   * @example
+   * NumberUtils.of(2 ** 53).add(1).value; // 9007199254740992 (the 1 is lost)
+   * NumberUtils.integer(2n ** 53n).add(1).toString(); // "9007199254740993"
+   * NumberUtils.integer(7, 'down').divide(2).toString(); // "3"
+   * NumberUtils.integer(7).add(0.5); // throws InvalidNumberError
+   */
+  static integer(
+    initialValue: number | string | bigint,
+    roundingMode: RoundingMode = DEFAULT_ROUNDING_MODE,
+  ): NumberUtils {
+    const integer = parseInteger(initialValue);
+    if (integer === null) {
+      throw new InvalidNumberError(initialValue, "integer");
+    }
+    const instance = new NumberUtils(0, roundingMode);
+    instance.decimalValue = { numerator: integer, denominator: 1n };
+    instance.integerMode = true;
+    instance.currentDivisionPrecision = 0;
+    return instance;
+  }
+
+  /**
+   * @static
+   * @method fromBase
+   * @description Reads an integer written in another base, e.g. a hexadecimal ID or a base-36
+   * short code, without any loss whatever its size. The inverse of `toBase()`.
+   * @param {string} digits The digits, case-insensitive, with an optional leading sign.
+   * @param {number} radix The base, from 2 to 36.
+   * @returns {NumberUtils} A new NumberUtils instance in integer mode.
+   * @throws {RangeError} If `radix` is not an integer between 2 and 36.
+   * @throws {NumberParseError} If `digits` is not a well-formed integer in that base.
+   * @example
+   * NumberUtils.fromBase("ff", 16).toString(); // "255"
+   * NumberUtils.fromBase("-101", 2).toString(); // "-5"
+   * NumberUtils.fromBase("zzzzzzzzzzzzz", 36).toString(); // "170581728179578208255"
+   */
+  static fromBase(digits: string, radix: number): NumberUtils {
+    if (!Number.isInteger(radix) || radix < 2 || radix > 36) {
+      throw new RangeError("The radix must be an integer between 2 and 36.");
+    }
+    const text = digits.trim();
+    const isNegative = text.startsWith("-");
+    const body = text.replace(/^[+-]/, "");
+    if (body === "") {
+      throw new NumberParseError(digits, "it does not contain any digit.");
+    }
+    let value = 0n;
+    for (const char of body.toLowerCase()) {
+      const digit = parseInt(char, 36);
+      if (Number.isNaN(digit) || digit >= radix) {
+        throw new NumberParseError(digits, `unexpected character "${char}" for base ${radix}.`);
+      }
+      value = value * BigInt(radix) + BigInt(digit);
+    }
+    return NumberUtils.integer(isNegative ? -value : value);
+  }
+
+  /**
+   * @static
+   * @method fraction
+   * @description Creates an exact rational number (see `Fraction`): from a string as people type it
+   * ("3/8", "1 1/2", "1½"), or from a numerator and a denominator. Fractions support exact `add`,
+   * `subtract`, `multiply` and `divide`, and format back to mixed numbers.
+   * @param {number | string | bigint} value A string to parse, or the numerator.
+   * @param {number | string | bigint} [denominator] The denominator, if `value` is a numerator.
+   * @returns {Fraction} The fraction, in lowest terms.
+   * @throws {FractionParseError} If `value` is a string that is not a well-formed fraction.
+   * @throws {InvalidNumberError} If a numerator or denominator is not a finite decimal number.
+   * @throws {DivisionByZeroError} If the denominator is zero.
+   * @example
+   * NumberUtils.fraction("1 1/2").multiply(2).format(); // "3"
+   * NumberUtils.fraction(3, 8).add(NumberUtils.fraction("1/4")).format(); // "5/8"
+   */
+  static fraction(
+    value: number | string | bigint,
+    denominator?: number | string | bigint,
+  ): Fraction {
+    return typeof value === "string" && denominator === undefined
+      ? Fraction.parse(value)
+      : Fraction.of(value, denominator);
+  }
+
+  /**
+   * @static
+   * @method parse
+   * @description Reads a number typed by a user for a locale, e.g. in a form field: the locale's
+   * group and decimal separators and digits are understood (ASCII digits are always accepted
+   * too), whitespace is ignored, and a percent sign divides the value by 100. Group separators
+   * must separate whole groups, so a mistyped decimal separator is rejected, not read as a group.
+   * Negatives can be written with a minus sign, before or after the number, or in parentheses.
+   * @param {string} input The string to read (e.g., "1.234,5" for 'de-DE').
+   * @param {string} [locale] The locale it was written for. Defaults to the runtime locale.
+   * @returns {NumberUtils} A new NumberUtils instance holding the parsed value.
+   * @throws {NumberParseError} If `input` is not a well-formed number for the locale.
+   * @example
+   * NumberUtils.parse("1,234.5", "en-US").value; // 1234.5
+   * NumberUtils.parse("1.234,5", "de-DE").value; // 1234.5
+   * NumberUtils.parse("12,5 %", "fr-FR").value; // 0.125
+   * NumberUtils.parse("١٢٣٫٤٥", "ar-EG").value; // 123.45
+   * NumberUtils.parse("1.234,5", "en-US"); // throws NumberParseError (unexpected character ",")
+   * NumberUtils.parse("1.5", "de-DE"); // throws NumberParseError (misplaced group separator)
+   */
+  static parse(input: string, locale?: string): NumberUtils {
+    const { percentSign } = getLocaleNumberSymbols(locale);
+    let rest = input.replace(BIDI_MARKS, "").trim();
+    let isPercent = false;
+    for (const sign of new Set([percentSign, "%", "\u066a"])) {
+      if (rest.startsWith(sign) || rest.endsWith(sign)) {
+        isPercent = true;
+        rest = rest.startsWith(sign) ? rest.slice(sign.length) : rest.slice(0, -sign.length);
+        break;
+      }
+    }
+
+    const { decimal } = readLocaleDecimal(
+      rest,
+      locale,
+      (reason) => new NumberParseError(input, reason),
+    );
+    // Shifting the exponent divides by 100 without the rounding error of a float division
+    return NumberUtils.of(Number(isPercent ? `${decimal}e-2` : decimal));
+  }
+
+  /**
+   * @static
+   * @method tryParse
+   * @description Same as `parse()`, but reports a malformed input as a Left holding the error,
+   * or a Right holding the new instance, instead of throwing.
+   * @param {string} input The string to read.
+   * @param {string} [locale] The locale it was written for. Defaults to the runtime locale.
+   * @returns {IEither<Error, NumberUtils>} A NumberParseError, or the instance.
+   * @example
+   * NumberUtils.tryParse("1.234,5", "de-DE").map((n) => n.value); // Right(1234.5)
+   * NumberUtils.tryParse("12abc", "en-US").isLeft(); // true
+   */
+  static tryParse(input: string, locale?: string): IEither<Error, NumberUtils> {
+    return Either.tryCatch(() => NumberUtils.parse(input, locale));
+  }
+
+  /**
+   * @static
+   * @method random
+   * @description Creates a seeded pseudo-random number generator, for reproducible tests and demo
+   * data: the same seed always gives the same sequence of floats, integers, normal values,
+   * weighted choices and shuffles. Its state can be saved with `getState()` and restored later.
+   * Not suitable for security purposes (use `crypto.getRandomValues()` instead).
+   * @param {RandomOptions} [options] A `seed` (number or string), or a saved `state` to resume.
+   * Without either, the generator is seeded randomly; its `seed` property tells which seed.
+   * @returns {RandomGenerator} A new generator.
+   * @throws {RangeError} If both a seed and a state are given, the seed is a non-finite number,
+   * or the state is invalid.
+   * @example
+   * const random = NumberUtils.random({ seed: 42 });
+   * random.int(1, 6); // the same die roll on every run
+   * random.normal(100, 15); // a normally distributed value
+   * random.weightedChoice(["a", "b"], [3, 1]); // "a" three times out of four
+   * NumberUtils.random({ state: random.getState() }).next() === random.next(); // true
+   */
+  static random(options: RandomOptions = {}): RandomGenerator {
+    if (options.seed !== undefined && options.state !== undefined) {
+      throw new RangeError("Pass either a seed or a state to random(), not both.");
+    }
+    return options.state !== undefined
+      ? RandomGenerator.fromState(options.state)
+      : RandomGenerator.fromSeed(options.seed);
+  }
+
+  /**
+   * @static
+   * @method sum
+   * @description Adds up a list of numbers with compensated (Neumaier) summation, so rounding
+   * errors do not pile up over long lists. The result starts a new chain.
+   * An empty list sums to 0.
+   * @param {number[]} values The numbers to add.
+   * @param {StatsOptions} [options] The NaN policy (NaN values throw by default).
+   * @returns {NumberUtils} A new NumberUtils instance holding the sum.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @example
+   * NumberUtils.sum([0.1, 0.2, 0.3]).value; // 0.6 (a naive loop gives 0.6000000000000001)
+   * NumberUtils.sum([1e100, 1, -1e100]).value; // 1 (a naive loop gives 0)
+   * NumberUtils.sum([1, NaN, 2], { nan: 'omit' }).value; // 3
+   */
+  static sum(values: number[], options: StatsOptions = {}): NumberUtils {
+    return NumberUtils.of(
+      values.length === 0 ? 0 : compensatedSum(validValues(values, "sum", options)),
+    );
+  }
+
+  /**
+   * @static
+   * @method mean
+   * @description Computes the arithmetic mean of a list of numbers. The result starts a new chain.
+   * @param {number[]} values The numbers.
+   * @param {StatsOptions} [options] The NaN policy (NaN values throw by default).
+   * @returns {NumberUtils} A new NumberUtils instance holding the mean.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @throws {RangeError} If the list is empty.
+   * @example
+   * NumberUtils.mean([1, 2, 3, 4]).value; // 2.5
+   * NumberUtils.mean([10, 20, 25]).roundTo(2).value; // 18.33
+   */
+  static mean(values: number[], options: StatsOptions = {}): NumberUtils {
+    const valid = validValues(values, "mean", options);
+    return NumberUtils.of(compensatedSum(valid) / valid.length);
+  }
+
+  /**
+   * @static
+   * @method median
+   * @description Computes the median (the 50th percentile) of a list of numbers.
+   * With an even count, it is the mean of the two middle values. The result starts a new chain.
+   * @param {number[]} values The numbers.
+   * @param {StatsOptions} [options] The NaN policy (NaN values throw by default).
+   * @returns {NumberUtils} A new NumberUtils instance holding the median.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @throws {RangeError} If the list is empty.
+   * @example
+   * NumberUtils.median([3, 1, 2]).value; // 2
+   * NumberUtils.median([4, 1, 3, 2]).value; // 2.5
+   */
+  static median(values: number[], options: StatsOptions = {}): NumberUtils {
+    return NumberUtils.of(
+      quantileOfSorted(sortAscending(validValues(values, "median", options)), 0.5),
+    );
+  }
+
+  /**
+   * @static
+   * @method quantile
+   * @description Computes a quantile of a list of numbers, interpolating linearly between the
+   * closest ranks (the default of NumPy and R, and Excel's PERCENTILE.INC). The result starts a new chain.
+   * @param {number[]} values The numbers.
+   * @param {number} q The quantile, between 0 and 1 (e.g., 0.9 for the 90th percentile).
+   * @param {StatsOptions} [options] The NaN policy (NaN values throw by default).
+   * @returns {NumberUtils} A new NumberUtils instance holding the quantile.
+   * @throws {RangeError} If `q` is not between 0 and 1, or the list is empty.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @example
+   * NumberUtils.quantile([1, 2, 3, 4, 5], 0.25).value; // 2
+   * NumberUtils.quantile([10, 20], 0.75).value; // 17.5
+   */
+  static quantile(values: number[], q: number, options: StatsOptions = {}): NumberUtils {
+    if (!(q >= 0 && q <= 1)) {
+      throw new RangeError("The quantile must be between 0 and 1.");
+    }
+    return NumberUtils.of(
+      quantileOfSorted(sortAscending(validValues(values, "quantile", options)), q),
+    );
+  }
+
+  /**
+   * @static
+   * @method percentile
+   * @description Same as `quantile()`, with the rank given as a percentage.
+   * @param {number[]} values The numbers.
+   * @param {number} p The percentile, between 0 and 100 (e.g., 95 for response-time dashboards).
+   * @param {StatsOptions} [options] The NaN policy (NaN values throw by default).
+   * @returns {NumberUtils} A new NumberUtils instance holding the percentile.
+   * @throws {RangeError} If `p` is not between 0 and 100, or the list is empty.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @example
+   * NumberUtils.percentile([120, 80, 95, 300, 110], 95).value; // 264
+   */
+  static percentile(values: number[], p: number, options: StatsOptions = {}): NumberUtils {
+    if (!(p >= 0 && p <= 100)) {
+      throw new RangeError("The percentile must be between 0 and 100.");
+    }
+    return NumberUtils.quantile(values, p / 100, options);
+  }
+
+  /**
+   * @static
+   * @method variance
+   * @description Computes the variance of a list of numbers: of the whole population by default,
+   * or of a sample with `{ sample: true }` (Bessel's correction). The result starts a new chain.
+   * @param {number[]} values The numbers.
+   * @param {StatsOptions} [options] The NaN policy and whether the values are a sample.
+   * @returns {NumberUtils} A new NumberUtils instance holding the variance
+   * (NaN for a sample of a single value).
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @throws {RangeError} If the list is empty.
+   * @example
+   * NumberUtils.variance([2, 4, 4, 4, 5, 5, 7, 9]).value; // 4
+   * NumberUtils.variance([2, 4, 4, 4, 5, 5, 7, 9], { sample: true }).roundTo(4).value; // 4.5714
+   */
+  static variance(values: number[], options: StatsOptions = {}): NumberUtils {
+    return NumberUtils.of(varianceOf(validValues(values, "variance", options), !!options.sample));
+  }
+
+  /**
+   * @static
+   * @method standardDeviation
+   * @description Computes the standard deviation (the square root of the variance) of a list of
+   * numbers, of the population by default or of a sample with `{ sample: true }`.
+   * @param {number[]} values The numbers.
+   * @param {StatsOptions} [options] The NaN policy and whether the values are a sample.
+   * @returns {NumberUtils} A new NumberUtils instance holding the standard deviation.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @throws {RangeError} If the list is empty.
+   * @example
+   * NumberUtils.standardDeviation([2, 4, 4, 4, 5, 5, 7, 9]).value; // 2
+   */
+  static standardDeviation(values: number[], options: StatsOptions = {}): NumberUtils {
+    const valid = validValues(values, "standardDeviation", options);
+    return NumberUtils.of(Math.sqrt(varianceOf(valid, !!options.sample)));
+  }
+
+  /**
+   * @static
+   * @method min
+   * @description Returns the smallest of a list of numbers as a new chain.
+   * Unlike `Math.min(...values)`, it works on lists of any length.
+   * @param {number[]} values The numbers.
+   * @param {StatsOptions} [options] The NaN policy (NaN values throw by default).
+   * @returns {NumberUtils} A new NumberUtils instance holding the minimum.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @throws {RangeError} If the list is empty.
+   * @example
+   * NumberUtils.min([3, -1, 2]).value; // -1
+   */
+  static min(values: number[], options: StatsOptions = {}): NumberUtils {
+    return NumberUtils.of(
+      validValues(values, "min", options).reduce((min, value) => (value < min ? value : min)),
+    );
+  }
+
+  /**
+   * @static
+   * @method max
+   * @description Returns the largest of a list of numbers as a new chain.
+   * Unlike `Math.max(...values)`, it works on lists of any length.
+   * @param {number[]} values The numbers.
+   * @param {StatsOptions} [options] The NaN policy (NaN values throw by default).
+   * @returns {NumberUtils} A new NumberUtils instance holding the maximum.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @throws {RangeError} If the list is empty.
+   * @example
+   * NumberUtils.max([3, -1, 2]).value; // 3
+   */
+  static max(values: number[], options: StatsOptions = {}): NumberUtils {
+    return NumberUtils.of(
+      validValues(values, "max", options).reduce((max, value) => (value > max ? value : max)),
+    );
+  }
+
+  /**
+   * @static
+   * @method mode
+   * @description Returns the most frequent values of a list. Every value sharing the highest
+   * frequency is returned, in ascending order (so a list without repeated values returns them all).
+   * Works on lists of any length.
+   * @param {number[]} values The numbers.
+   * @param {StatsOptions} [options] The NaN policy (NaN values throw by default).
+   * @returns {number[]} The modes, in ascending order.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @throws {RangeError} If the list is empty.
+   * @example
+   * NumberUtils.mode([1, 2, 2, 3]); // [2]
+   * NumberUtils.mode([3, 1, 3, 1, 2]); // [1, 3]
+   */
+  static mode(values: number[], options: StatsOptions = {}): number[] {
+    const frequencies = new Map<number, number>();
+    let highest = 0;
+    for (const value of validValues(values, "mode", options)) {
+      const count = (frequencies.get(value) ?? 0) + 1;
+      frequencies.set(value, count);
+      highest = Math.max(highest, count);
+    }
+    const modes = [...frequencies].filter(([, count]) => count === highest).map(([value]) => value);
+    return sortAscending(modes);
+  }
+
+  /**
+   * @static
+   * @method histogram
+   * @description Counts how many values fall into each bin. `bins` is either a number of
+   * equal-width bins spanning the values (a single bin if they are all equal), or the ascending
+   * bin edges, in which case values outside the first and last edges are not counted.
+   * Each bin holds `start <= value < end`, and the last one also includes its `end`.
+   * @param {number[]} values The numbers.
+   * @param {number | number[]} [bins=10] The number of bins, or their edges.
+   * @param {StatsOptions} [options] The NaN policy (NaN values throw by default).
+   * @returns {HistogramBin[]} The bins, in ascending order.
+   * @throws {RangeError} If `bins` is not a positive integer or at least two ascending, finite
+   * edges, if a value is infinite, or if the list is empty.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @example
+   * NumberUtils.histogram([1, 2, 2, 3, 4], 3);
+   * // [{ start: 1, end: 2, count: 1 }, { start: 2, end: 3, count: 2 }, { start: 3, end: 4, count: 2 }]
+   * NumberUtils.histogram([5, 15, 25, 95], [0, 10, 50, 100]);
+   * // [{ start: 0, end: 10, count: 1 }, { start: 10, end: 50, count: 2 }, { start: 50, end: 100, count: 1 }]
+   */
+  static histogram(
+    values: number[],
+    bins: number | number[] = 10,
+    options: StatsOptions = {},
+  ): HistogramBin[] {
+    const valid = validValues(values, "histogram", options);
+    if (valid.some((value) => !Number.isFinite(value))) {
+      throw new RangeError("Cannot bin infinite values.");
+    }
+    let edges: number[];
+    if (Array.isArray(bins)) {
+      if (
+        bins.length < 2 ||
+        bins.some((edge, i) => !Number.isFinite(edge) || edge <= bins[i - 1])
+      ) {
+        throw new RangeError("Histogram edges must be at least two ascending, finite numbers.");
+      }
+      edges = bins;
+    } else {
+      if (!Number.isInteger(bins) || bins < 1) {
+        throw new RangeError("The number of histogram bins must be a positive integer.");
+      }
+      const min = NumberUtils.min(valid).value;
+      const max = NumberUtils.max(valid).value;
+      const count = min === max ? 1 : bins;
+      const width = (max - min) / count;
+      edges = Array.from({ length: count + 1 }, (_, i) => (i === count ? max : min + width * i));
+    }
+
+    const counts = new Array<number>(edges.length - 1).fill(0);
+    for (const value of valid) {
+      if (value < edges[0] || value > edges[edges.length - 1]) {
+        continue;
+      }
+      // Binary search for the last edge <= value; the last edge belongs to the last bin
+      let low = 0;
+      let high = edges.length - 2;
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (edges[middle] <= value) {
+          low = middle;
+        } else {
+          high = middle - 1;
+        }
+      }
+      counts[low]++;
+    }
+    return counts.map((count, i) => ({ start: edges[i], end: edges[i + 1], count }));
+  }
+
+  /**
+   * @static
+   * @method stats
+   * @description Computes the usual descriptive statistics of a list of numbers in one call, for
+   * dashboards and reports. Each figure can start a new chain with `NumberUtils.of()`, or be
+   * computed on its own with the matching helper (`mean`, `median`, `percentile`, etc.).
+   * @param {number[]} values The numbers.
+   * @param {StatsOptions} [options] The NaN policy and whether the values are a sample.
+   * @returns {NumberStats} The count, sum, mean, median, modes, variance, standard deviation,
+   * min, max and quartiles of the values.
+   * @throws {InvalidNumberError} If a value is NaN and `options.nan` is not 'omit'.
+   * @throws {RangeError} If the list is empty.
+   * @example
+   * const summary = NumberUtils.stats([2, 4, 4, 4, 5, 5, 7, 9]);
+   * summary.mean; // 5
+   * summary.standardDeviation; // 2
+   * summary.quartiles; // [4, 4.5, 5.5]
+   * NumberUtils.of(summary.mean).multiply(1.2).roundTo(1).value; // 6
+   */
+  static stats(values: number[], options: StatsOptions = {}): NumberStats {
+    const valid = validValues(values, "stats", options);
+    const sorted = sortAscending(valid);
+    const sum = compensatedSum(valid);
+    const variance = varianceOf(valid, !!options.sample);
+    return {
+      count: valid.length,
+      sum,
+      mean: sum / valid.length,
+      median: quantileOfSorted(sorted, 0.5),
+      mode: NumberUtils.mode(valid),
+      variance,
+      standardDeviation: Math.sqrt(variance),
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      quartiles: [
+        quantileOfSorted(sorted, 0.25),
+        quantileOfSorted(sorted, 0.5),
+        quantileOfSorted(sorted, 0.75),
+      ],
+    };
+  }
+
+  /**
+   * @method withRoundingMode
+   * @description Changes the default rounding mode used by the following rounding operations
+   * of the chain. Any rounding method can still override it for a single call.
+   * @param {RoundingMode} mode The new default rounding mode.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If `mode` is not a known rounding mode.
+   * @example
+   * NumberUtils.of(2.5).withRoundingMode('half-even').round().value; // 2
+   */
+  withRoundingMode(mode: RoundingMode): this {
+    return this.apply((target) => {
+      target.currentRoundingMode = assertRoundingMode(mode);
+    });
+  }
+
   /**
-   * @private
-   * @description The private instance variable to hold the current number value.
+   * @method withDivisionPrecision
+   * @description Changes the number of decimal places `divide()` keeps in decimal mode.
+   * Results are rounded with the instance rounding mode, then trailing zeros are dropped.
+   * Has no effect in floating-point mode.
+   * @param {number} decimals The number of decimal places. Must be a non-negative integer.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If `decimals` is not a non-negative integer, or the instance is in
+   * integer mode, where divisions always round to an integer.
+   * @example
+   * NumberUtils.decimal(2).withDivisionPrecision(4).divide(3).toString(); // "0.6667"
+   * NumberUtils.decimal(2).withDivisionPrecision(4).divide(8).toString(); // "0.25"
    */
-  private currentNumber: number;
+  withDivisionPrecision(decimals: number): this {
+    if (!Number.isInteger(decimals) || decimals < 0) {
+      throw new RangeError("The division precision must be a non-negative integer.");
+    }
+    if (this.integerMode) {
+      throw new RangeError("The division precision cannot be changed in integer mode.");
+    }
+    return this.apply((target) => {
+      target.currentDivisionPrecision = decimals;
+    });
+  }
 
   /**
-   * @private constructor
-   * @description The constructor is private. This enforces that new instances
-   * are always created using the static `NumberUtils.of()` factory method.
-   * @param {number} initialValue The number to start chaining operations on.
+   * @method strict
+   * @description Switches strict mode on (or off) for the following operations of the chain.
+   * In strict mode, an operand that is not a finite number throws an InvalidNumberError and
+   * dividing by zero throws a DivisionByZeroError, instead of producing NaN or ±Infinity.
+   * @param {boolean} [enabled=true] Whether strict mode is on.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @example
+   * NumberUtils.of(10).divide(0).value; // Infinity
+   * NumberUtils.of(10).strict().divide(0); // throws DivisionByZeroError
+   * NumberUtils.of(10).strict().add(NaN); // throws InvalidNumberError
    */
-  private constructor(initialValue: number) {
-    // Ensure the initial value is always treated as a number type.
-    // Use Number() constructor for robust conversion, handling potential non-numeric inputs gracefully.
-    this.currentNumber = Number(initialValue);
+  strict(enabled: boolean = true): this {
+    return this.apply((target) => {
+      target.strictMode = enabled;
+    });
   }
 
   /**
-   * @static
-   * @method of
-   * @description The primary way to create a new NumberUtils instance and start a chain.
-   * This method acts as a "factory," returning a new NumberUtils object that's ready
-   * for you to apply number operations to.
-   * @param {number} initialValue The number you want to begin manipulating.
-   * @returns {NumberUtils} A new NumberUtils instance, enabling method chaining.
+   * @method equals
+   * @description Checks structural equality with another value: it must be a NumberUtils instance
+   * holding the same number in the same unit (if any). Uses `Object.is`, so NaN equals NaN but
+   * 0 does not equal -0. In decimal mode, values are compared exactly whatever their scale
+   * ("1.50" equals "1.5"), and a decimal never equals a floating-point instance.
+   * Quantities are not converted: 1 km does not equal 1000 m.
+   * The rounding mode and strict mode are not compared.
+   * @param {unknown} other The value to compare against.
+   * @returns {boolean} True if both instances hold the same number, false otherwise.
    * @example
-   * // Start a new number utility chain
-   * NumberUtils.of(123.456)
+   * NumberUtils.of(10).equals(NumberUtils.of(10)); // true
+   * NumberUtils.of(NaN).equals(NumberUtils.of(NaN)); // true
+   * NumberUtils.of(10).equals(10); // false
+   */
+  equals(other: unknown): boolean {
+    if (!(other instanceof NumberUtils) || other.currentUnit !== this.currentUnit) {
+      return false;
+    }
+    if (this.decimalValue && other.decimalValue) {
+      return compareFractions(this.decimalValue, other.decimalValue) === 0;
+    }
+    return (
+      !this.decimalValue &&
+      !other.decimalValue &&
+      Object.is(other.currentNumber, this.currentNumber)
+    );
+  }
+
+  /**
+   * @protected
+   * @method copy
+   * @description Creates a mutable instance with the same value, unit and settings (rounding mode,
+   * strict, decimal or integer mode, division precision).
+   * @returns {this} The copy.
+   */
+  protected copy(): this {
+    const copy = new NumberUtils(this.currentNumber, this.currentRoundingMode);
+    copy.strictMode = this.strictMode;
+    copy.decimalValue = this.decimalValue;
+    copy.currentDivisionPrecision = this.currentDivisionPrecision;
+    copy.currentUnit = this.currentUnit;
+    copy.integerMode = this.integerMode;
+    return copy as this;
+  }
+
+  /**
+   * @private
+   * @method toOperand
+   * @description Converts an operand to a number, enforcing strict mode.
+   * @param {number | string | bigint} num The operand.
+   * @param {string} operation The public method receiving it, for error messages.
+   * @param {boolean} [strict] Whether a non-finite operand throws. Defaults to the instance's strict mode.
+   * @returns {number} The operand as a number.
+   * @throws {InvalidNumberError} If `num` is not a finite number in strict mode.
+   */
+  private toOperand(
+    num: number | string | bigint,
+    operation: string,
+    strict: boolean = this.strictMode,
+  ): number {
+    const operand = Number(num);
+    if (strict && !Number.isFinite(operand)) {
+      throw new InvalidNumberError(num, operation);
+    }
+    return operand;
+  }
+
+  /**
+   * @private
+   * @method toDecimalOperand
+   * @description Parses an operand exactly for decimal mode, where invalid operands always throw.
+   * @param {number | string | bigint} num The operand.
+   * @param {string} operation The public method receiving it, for error messages.
+   * @returns {DecimalFraction} The exact operand.
+   * @throws {InvalidNumberError} If `num` is not a finite decimal number, or not an integer in integer mode.
+   */
+  private toDecimalOperand(num: number | string | bigint, operation: string): DecimalFraction {
+    const fraction = parseDecimal(num);
+    if (
+      fraction === null ||
+      (this.integerMode && fraction.numerator % fraction.denominator !== 0n)
+    ) {
+      throw new InvalidNumberError(num, operation);
+    }
+    return fraction;
+  }
+
+  /**
+   * @private
+   * @method toBigIntValue
+   * @description Reads the current value as a bigint, for the number theory methods.
+   * @param {string} operation The public method needing it, for error messages.
+   * @returns {bigint} The current value.
+   * @throws {RangeError} If the current value is not an integer.
+   */
+  private toBigIntValue(operation: string): bigint {
+    if (!this.isInteger()) {
+      throw new RangeError(`${operation}() requires an integer value, not ${this.toString()}.`);
+    }
+    if (this.decimalValue) {
+      return this.decimalValue.numerator / this.decimalValue.denominator;
+    }
+    return BigInt(this.currentNumber);
+  }
+
+  /**
+   * @private
+   * @method toIntegerOperand
+   * @description Parses an operand of the number theory methods, which must be an integer.
+   * @param {number | string | bigint} num The operand.
+   * @param {string} operation The public method receiving it, for error messages.
+   * @returns {bigint} The operand.
+   * @throws {InvalidNumberError} If `num` is not a finite integer.
+   */
+  private toIntegerOperand(num: number | string | bigint, operation: string): bigint {
+    const integer = parseInteger(num);
+    if (integer === null) {
+      throw new InvalidNumberError(num, operation);
+    }
+    return integer;
+  }
+
+  /**
+   * @private
+   * @method setBigIntValue
+   * @description Stores an integer result: exactly in decimal mode, as the nearest number otherwise.
+   * @param {bigint} value The new value.
+   */
+  private setBigIntValue(value: bigint): void {
+    if (this.decimalValue) {
+      this.decimalValue = { numerator: value, denominator: 1n };
+    } else {
+      this.currentNumber = Number(value);
+    }
+  }
+
+  /**
+   * @private
+   * @method compareDecimal
+   * @description Compares the value of a decimal-mode instance with another value, exactly.
+   * @param {number | string} compareValue The value to compare against.
+   * @returns {number | null} -1, 0 or 1, or null if `compareValue` is not a finite decimal
+   * (such comparisons are false, as with NaN).
    */
-  static of(initialValue: number): NumberUtils {
-    return new NumberUtils(initialValue);
+  private compareDecimal(compareValue: number | string): -1 | 0 | 1 | null {
+    const fraction = parseDecimal(compareValue);
+    return fraction && compareFractions(this.decimalValue as DecimalFraction, fraction);
   }
 
   /**
    * @method add
    * @description Adds one or more numbers to the current value.
-   * @param {...number} nums The numbers to add.
+   * @param {...(number | string | bigint)} nums The numbers to add (strings and bigints keep full precision in decimal mode).
    * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {InvalidNumberError} If an operand is not a finite number and the instance is in strict or decimal mode,
+   * or not an integer in integer mode.
    * @example
    * NumberUtils.of(10).add(5).value; // 15
    * NumberUtils.of(10).add(1, 2, 3).value; // 16
    */
-  add(...nums: number[]): this {
-    for (const num of nums) {
-      this.currentNumber += Number(num);
-    }
-    return this;
+  add(...nums: (number | string | bigint)[]): this {
+    return this.apply((target) => {
+      for (const num of nums) {
+        if (target.decimalValue) {
+          const operand = target.toDecimalOperand(num, "add");
+          target.decimalValue = addFractions(target.decimalValue, operand);
+        } else {
+          target.currentNumber += target.toOperand(num, "add");
+        }
+      }
+    });
   }
 
   /**
    * @method subtract
    * @description Subtracts one or more numbers from the current value.
-   * @param {...number} nums The numbers to subtract.
+   * @param {...(number | string | bigint)} nums The numbers to subtract (strings and bigints keep full precision in decimal mode).
    * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {InvalidNumberError} If an operand is not a finite number and the instance is in strict or decimal mode,
+   * or not an integer in integer mode.
    * @example
    * NumberUtils.of(10).subtract(3).value; // 7
    * NumberUtils.of(10).subtract(1, 2, 3).value; // 4
    */
-  subtract(...nums: number[]): this {
-    for (const num of nums) {
-      this.currentNumber -= Number(num);
-    }
-    return this;
+  subtract(...nums: (number | string | bigint)[]): this {
+    return this.apply((target) => {
+      for (const num of nums) {
+        if (target.decimalValue) {
+          const operand = target.toDecimalOperand(num, "subtract");
+          target.decimalValue = addFractions(target.decimalValue, {
+            numerator: -operand.numerator,
+            denominator: operand.denominator,
+          });
+        } else {
+          target.currentNumber -= target.toOperand(num, "subtract");
+        }
+      }
+    });
   }
 
   /**
    * @method multiply
    * @description Multiplies the current value by one or more numbers.
-   * @param {...number} nums The numbers to multiply by.
+   * @param {...(number | string | bigint)} nums The numbers to multiply by (strings and bigints keep full precision in decimal mode).
    * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {InvalidNumberError} If an operand is not a finite number and the instance is in strict or decimal mode,
+   * or not an integer in integer mode.
    * @example
    * NumberUtils.of(5).multiply(4).value; // 20
    * NumberUtils.of(2).multiply(3, 4).value; // 24 (2 * 3 * 4)
    */
-  multiply(...nums: number[]): this {
-    for (const num of nums) {
-      this.currentNumber *= Number(num);
-    }
-    return this;
+  multiply(...nums: (number | string | bigint)[]): this {
+    return this.apply((target) => {
+      for (const num of nums) {
+        if (target.decimalValue) {
+          const operand = target.toDecimalOperand(num, "multiply");
+          target.decimalValue = {
+            numerator: target.decimalValue.numerator * operand.numerator,
+            denominator: target.decimalValue.denominator * operand.denominator,
+          };
+        } else {
+          target.currentNumber *= target.toOperand(num, "multiply");
+        }
+      }
+    });
   }
 
   /**
    * @method divide
-   * @description Divides the current value by a number. Handles division by zero by returning Infinity or -Infinity.
-   * @param {number} num The number to divide by.
+   * @description Divides the current value by a number. Handles division by zero by returning Infinity or -Infinity,
+   * unless in strict mode (see `strict()` and `tryDivide()`). In decimal mode, the quotient keeps
+   * `divisionPrecision` decimal places, rounded with the instance rounding mode.
+   * @param {number | string | bigint} num The number to divide by.
    * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {InvalidNumberError} If `num` is not a finite number and the instance is in strict or decimal mode.
+   * @throws {DivisionByZeroError} If `num` is zero and the instance is in strict or decimal mode.
    * @example
    * NumberUtils.of(10).divide(2).value; // 5
    * NumberUtils.of(10).divide(0).value; // Infinity
    */
-  divide(num: number): this {
-    if (Number(num) === 0) {
-      this.currentNumber = this.currentNumber / Number(num); // Will result in Infinity, -Infinity, or NaN
-    } else {
-      this.currentNumber /= Number(num);
+  divide(num: number | string | bigint): this {
+    return this.divideBy(num, this.strictMode);
+  }
+
+  /**
+   * @method tryDivide
+   * @description Same as `divide()` in strict mode, but reports an invalid divisor or a division
+   * by zero as a Left holding the error, instead of throwing. The value is left untouched on failure.
+   * @param {number | string | bigint} num The number to divide by.
+   * @returns {IEither<Error, this>} An InvalidNumberError or DivisionByZeroError, or the divided instance.
+   * @example
+   * NumberUtils.of(10).tryDivide(4).map((n) => n.value); // Right(2.5)
+   * NumberUtils.of(10).tryDivide(0).isLeft(); // true
+   */
+  tryDivide(num: number | string | bigint): IEither<Error, this> {
+    return Either.tryCatch(() => this.divideBy(num, true));
+  }
+
+  /**
+   * @private
+   * @method divideBy
+   * @description Implements `divide()` and `tryDivide()`.
+   * @param {number | string | bigint} num The number to divide by.
+   * @param {boolean} strict Whether an invalid divisor or a division by zero throws.
+   * Always the case in decimal mode.
+   * @returns {this} The changed instance.
+   * @throws {InvalidNumberError} If `num` is not a finite number in strict or decimal mode.
+   * @throws {DivisionByZeroError} If `num` is zero in strict or decimal mode.
+   */
+  private divideBy(num: number | string | bigint, strict: boolean): this {
+    if (this.decimalValue) {
+      const divisor = this.toDecimalOperand(num, "divide");
+      if (divisor.numerator === 0n) {
+        throw new DivisionByZeroError("divide");
+      }
+      return this.apply((target) => {
+        const { numerator, denominator } = target.decimalValue as DecimalFraction;
+        // (n1 / d1) / (n2 / d2) = (n1 * d2) / (d1 * n2), kept at the division precision
+        const precision = 10n ** BigInt(target.currentDivisionPrecision);
+        target.decimalValue = stripTrailingZeros({
+          numerator: roundQuotient(
+            numerator * divisor.denominator * precision,
+            denominator * divisor.numerator,
+            target.currentRoundingMode,
+          ),
+          denominator: precision,
+        });
+      });
     }
-    return this;
+    const divisor = this.toOperand(num, "divide", strict);
+    if (strict && divisor === 0) {
+      throw new DivisionByZeroError("divide");
+    }
+    return this.apply((target) => {
+      if (divisor === 0) {
+        target.currentNumber = target.currentNumber / divisor; // Will result in Infinity, -Infinity, or NaN
+      } else {
+        target.currentNumber /= divisor;
+      }
+    });
   }
 
   /**
    * @method round
-   * @description Rounds the current number to the nearest integer.
+   * @description Rounds the current number to an integer, to the nearest one by default.
+   * Unlike `Math.round`, the default 'half-up' mode rounds negative ties away from zero (-2.5 → -3).
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
    * @returns {this} The current NumberUtils instance for continued chaining.
    * @example
    * NumberUtils.of(3.7).round().value; // 4
    * NumberUtils.of(3.2).round().value; // 3
+   * NumberUtils.of(2.5).round('half-even').value; // 2
+   */
+  round(roundingMode: RoundingMode = this.currentRoundingMode): this {
+    return this.roundTo(0, roundingMode);
+  }
+
+  /**
+   * @method roundTo
+   * @description Rounds the current number to a given number of decimal places, based on its
+   * exact decimal representation (so 1.005 rounds to 1.01, not 1.00).
+   * Negative `decimals` round to tens, hundreds, etc. In decimal mode, the value keeps exactly
+   * `decimals` decimal places (1.5 rounded to 2 decimals is "1.50"), except in integer mode.
+   * @param {number} decimals The number of decimal places to keep. Must be an integer.
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If `decimals` is not an integer.
+   * @example
+   * NumberUtils.of(1.005).roundTo(2).value; // 1.01
+   * NumberUtils.of(2.345).roundTo(2, 'half-even').value; // 2.34
+   * NumberUtils.of(1234).roundTo(-2, 'ceiling').value; // 1300
+   */
+  roundTo(decimals: number, roundingMode: RoundingMode = this.currentRoundingMode): this {
+    if (!Number.isInteger(decimals)) {
+      throw new RangeError("The number of decimals must be an integer.");
+    }
+    return this.apply((target) => {
+      if (target.decimalValue) {
+        // Integers never gain decimal places in integer mode
+        const places = target.integerMode ? Math.min(decimals, 0) : decimals;
+        target.decimalValue = roundFraction(target.decimalValue, places, roundingMode);
+      } else {
+        target.currentNumber = roundToDecimals(target.currentNumber, decimals, roundingMode);
+      }
+    });
+  }
+
+  /**
+   * @method roundToStep
+   * @description Rounds the current number to a multiple of `step` (e.g., 0.05 for cash rounding,
+   * 15 for minutes).
+   * @param {number} step The increment to round to. Must be a positive, finite number.
+   * @param {RoundingMode} [roundingMode] Overrides the instance rounding mode for this call.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If `step` is not positive and finite, or not an integer in integer mode.
+   * @example
+   * NumberUtils.of(1.23).roundToStep(0.05).value; // 1.25
+   * NumberUtils.of(52).roundToStep(15, 'floor').value; // 45
    */
-  round(): this {
-    this.currentNumber = Math.round(this.currentNumber);
-    return this;
+  roundToStep(step: number, roundingMode: RoundingMode = this.currentRoundingMode): this {
+    if (!Number.isFinite(step) || step <= 0) {
+      throw new RangeError("The rounding step must be a positive, finite number.");
+    }
+    if (this.integerMode && !Number.isInteger(step)) {
+      throw new RangeError("The rounding step must be an integer in integer mode.");
+    }
+    return this.apply((target) => {
+      if (target.decimalValue) {
+        const { numerator, denominator } = target.decimalValue;
+        const stepFraction = parseDecimal(step) as DecimalFraction;
+        // value / step = (n / d) / (sn / sd) = (n * sd) / (d * sn)
+        const steps = roundQuotient(
+          numerator * stepFraction.denominator,
+          denominator * stepFraction.numerator,
+          roundingMode,
+        );
+        target.decimalValue = { ...stepFraction, numerator: steps * stepFraction.numerator };
+      } else {
+        target.currentNumber = roundToStep(target.currentNumber, step, roundingMode);
+      }
+    });
   }
 
   /**
@@ -128,8 +1587,12 @@ class NumberUtils {
    * NumberUtils.of(-3.7).floor().value; // -4
    */
   floor(): this {
-    this.currentNumber = Math.floor(this.currentNumber);
-    return this;
+    if (this.decimalValue) {
+      return this.roundTo(0, "floor");
+    }
+    return this.apply((target) => {
+      target.currentNumber = Math.floor(target.currentNumber);
+    });
   }
 
   /**
@@ -142,45 +1605,468 @@ class NumberUtils {
    * NumberUtils.of(-3.2).ceil().value; // -3
    */
   ceil(): this {
-    this.currentNumber = Math.ceil(this.currentNumber);
-    return this;
+    if (this.decimalValue) {
+      return this.roundTo(0, "ceiling");
+    }
+    return this.apply((target) => {
+      target.currentNumber = Math.ceil(target.currentNumber);
+    });
+  }
+
+  /**
+   * @method gcd
+   * @description Replaces the current integer with its greatest common divisor with the given integers.
+   * @param {...(number | string | bigint)} nums The other integers.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If the current value is not an integer.
+   * @throws {InvalidNumberError} If an operand is not a finite integer.
+   * @example
+   * NumberUtils.of(48).gcd(18).value; // 6
+   * NumberUtils.of(12).gcd(18, 27).value; // 3
+   */
+  gcd(...nums: (number | string | bigint)[]): this {
+    const operands = nums.map((num) => this.toIntegerOperand(num, "gcd"));
+    const value = this.toBigIntValue("gcd");
+    return this.apply((target) => {
+      target.setBigIntValue(operands.reduce(gcdOf, absBigInt(value)));
+    });
+  }
+
+  /**
+   * @method lcm
+   * @description Replaces the current integer with its least common multiple with the given
+   * integers. The result is 0 if any of them is 0.
+   * @param {...(number | string | bigint)} nums The other integers.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If the current value is not an integer.
+   * @throws {InvalidNumberError} If an operand is not a finite integer.
+   * @example
+   * NumberUtils.of(4).lcm(6).value; // 12
+   * NumberUtils.integer(2).lcm(3, 4, 5, 7, 11, 13).toString(); // "60060"
+   */
+  lcm(...nums: (number | string | bigint)[]): this {
+    const operands = nums.map((num) => this.toIntegerOperand(num, "lcm"));
+    const value = this.toBigIntValue("lcm");
+    return this.apply((target) => {
+      target.setBigIntValue(
+        operands.reduce(
+          (a, b) => (a === 0n || b === 0n ? 0n : absBigInt(a * b) / gcdOf(a, b)),
+          absBigInt(value),
+        ),
+      );
+    });
+  }
+
+  /**
+   * @method mod
+   * @description Replaces the current integer with its remainder modulo `modulus`. Unlike the `%`
+   * operator, the result is never negative (-7 mod 3 is 2), as checksums expect.
+   * @param {number | string | bigint} modulus The modulus. Must not be zero.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If the current value is not an integer.
+   * @throws {InvalidNumberError} If `modulus` is not a finite integer.
+   * @throws {DivisionByZeroError} If `modulus` is zero.
+   * @example
+   * NumberUtils.of(-7).mod(3).value; // 2
+   * NumberUtils.integer("3214282912345698765432161182").mod(97).value; // 1 (a valid IBAN)
+   */
+  mod(modulus: number | string | bigint): this {
+    const divisor = this.toIntegerOperand(modulus, "mod");
+    if (divisor === 0n) {
+      throw new DivisionByZeroError("mod");
+    }
+    const value = this.toBigIntValue("mod");
+    return this.apply((target) => {
+      target.setBigIntValue(euclideanMod(value, divisor));
+    });
+  }
+
+  /**
+   * @method modPow
+   * @description Replaces the current integer with itself raised to `exponent`, modulo `modulus`,
+   * without ever computing the full power. A negative exponent raises the modular inverse.
+   * @param {number | string | bigint} exponent The exponent.
+   * @param {number | string | bigint} modulus The modulus. Must be positive.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If the current value is not an integer, `modulus` is not positive, or
+   * `exponent` is negative and the value has no inverse modulo `modulus`.
+   * @throws {InvalidNumberError} If `exponent` or `modulus` is not a finite integer.
+   * @example
+   * NumberUtils.of(4).modPow(13, 497).value; // 445
+   * NumberUtils.integer(2).modPow("1000000", "1000000007").toString(); // "235042059"
+   * NumberUtils.of(3).modPow(-1, 11).value; // 4
+   */
+  modPow(exponent: number | string | bigint, modulus: number | string | bigint): this {
+    const power = this.toIntegerOperand(exponent, "modPow");
+    const divisor = this.toIntegerOperand(modulus, "modPow");
+    if (divisor <= 0n) {
+      throw new RangeError("The modulus must be a positive integer.");
+    }
+    let base = this.toBigIntValue("modPow");
+    if (power < 0n) {
+      const inverse = modInverseOf(base, divisor);
+      if (inverse === null) {
+        throw new RangeError(`${base} has no inverse modulo ${divisor}.`);
+      }
+      base = inverse;
+    }
+    return this.apply((target) => {
+      target.setBigIntValue(modPowOf(base, absBigInt(power), divisor));
+    });
+  }
+
+  /**
+   * @method modInverse
+   * @description Replaces the current integer with its inverse modulo `modulus`: the `x` between
+   * 0 and `modulus - 1` such that `value * x mod modulus` is 1.
+   * @param {number | string | bigint} modulus The modulus. Must be positive.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If the current value is not an integer, `modulus` is not positive, or
+   * the value and `modulus` are not coprime (so no inverse exists).
+   * @throws {InvalidNumberError} If `modulus` is not a finite integer.
+   * @example
+   * NumberUtils.of(3).modInverse(11).value; // 4 (3 × 4 = 12 ≡ 1)
+   * NumberUtils.of(6).modInverse(9); // throws RangeError (no inverse)
+   */
+  modInverse(modulus: number | string | bigint): this {
+    return this.modPow(-1, modulus);
+  }
+
+  /**
+   * @method factorial
+   * @description Replaces the current integer `n` with `n!`. In floating-point mode, results beyond
+   * 170! are Infinity and results beyond 18! are no longer exact; use integer mode for those.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If the current value is not a non-negative integer.
+   * @example
+   * NumberUtils.of(5).factorial().value; // 120
+   * NumberUtils.integer(25).factorial().toString(); // "15511210043330985984000000"
+   */
+  factorial(): this {
+    const n = this.toBigIntValue("factorial");
+    if (n < 0n) {
+      throw new RangeError("The factorial is only defined for non-negative integers.");
+    }
+    return this.apply((target) => {
+      let result = 1n;
+      for (let factor = 2n; factor <= n; factor++) {
+        result *= factor;
+      }
+      target.setBigIntValue(result);
+    });
+  }
+
+  /**
+   * @method binomial
+   * @description Replaces the current integer `n` with the binomial coefficient "n choose k":
+   * the number of ways to pick `k` items out of `n`. It is 0 if `k` is negative or greater than `n`.
+   * @param {number | string | bigint} k The number of items to pick.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If the current value is not a non-negative integer.
+   * @throws {InvalidNumberError} If `k` is not a finite integer.
+   * @example
+   * NumberUtils.of(5).binomial(2).value; // 10
+   * NumberUtils.integer(100).binomial(50).toString(); // "100891344545564193334812497256"
+   */
+  binomial(k: number | string | bigint): this {
+    const picked = this.toIntegerOperand(k, "binomial");
+    const n = this.toBigIntValue("binomial");
+    if (n < 0n) {
+      throw new RangeError("The binomial coefficient is only defined for non-negative integers.");
+    }
+    return this.apply((target) => {
+      if (picked < 0n || picked > n) {
+        target.setBigIntValue(0n);
+        return;
+      }
+      // C(n, k) = C(n, n - k): iterate over the smaller of both
+      const steps = picked < n - picked ? picked : n - picked;
+      let result = 1n;
+      for (let i = 1n; i <= steps; i++) {
+        // Each partial product C(n - steps + i, i) is an integer, so the division is exact
+        result = (result * (n - steps + i)) / i;
+      }
+      target.setBigIntValue(result);
+    });
+  }
+
+  /**
+   * @method isPrime
+   * @description Checks if the current number is a prime number, with a Miller-Rabin test that is
+   * exact below 3.3 × 10^24 (and has no known counterexample beyond).
+   * This method does not modify the number.
+   * @returns {boolean} True if the number is a prime integer, false otherwise.
+   * @example
+   * NumberUtils.of(97).isPrime(); // true
+   * NumberUtils.of(1).isPrime(); // false
+   * NumberUtils.integer("170141183460469231731687303715884105727").isPrime(); // true (2^127 - 1)
+   */
+  isPrime(): boolean {
+    return this.isInteger() && isPrimeBigInt(this.toBigIntValue("isPrime"));
+  }
+
+  /**
+   * @method factorize
+   * @description Returns the prime factors of the current integer, in ascending order and repeated
+   * according to their multiplicity, by trial division. Meant for small numbers: the value must
+   * not exceed `Number.MAX_SAFE_INTEGER`.
+   * This method does not modify the number.
+   * @returns {number[]} The prime factors (empty for 1).
+   * @throws {RangeError} If the current value is not an integer between 1 and `Number.MAX_SAFE_INTEGER`.
+   * @example
+   * NumberUtils.of(360).factorize(); // [2, 2, 2, 3, 3, 5]
+   * NumberUtils.of(97).factorize(); // [97]
+   */
+  factorize(): number[] {
+    const value = this.toBigIntValue("factorize");
+    if (value < 1n || value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new RangeError("factorize() requires an integer between 1 and 2^53 - 1.");
+    }
+    const factors: number[] = [];
+    let rest = Number(value);
+    // Once the rest is prime, it is the last factor: no need to try every divisor up to its root
+    const divideOut = (divisor: number): boolean => {
+      if (rest % divisor !== 0) {
+        return false;
+      }
+      do {
+        factors.push(divisor);
+        rest /= divisor;
+      } while (rest % divisor === 0);
+      return isPrimeBigInt(BigInt(rest));
+    };
+    let isRestPrime = divideOut(2) || divideOut(3) || isPrimeBigInt(BigInt(rest));
+    // The other primes are all of the form 6k ± 1
+    for (let divisor = 5; !isRestPrime && divisor * divisor <= rest; divisor += 6) {
+      isRestPrime = divideOut(divisor) || divideOut(divisor + 2);
+    }
+    if (rest > 1) {
+      factors.push(rest);
+    }
+    return factors;
+  }
+
+  /**
+   * @method unit
+   * @description Sets the unit of measurement of the current value (e.g., 'km', '°C', 'MiB'),
+   * without converting it; use `to()` to convert. Arithmetic keeps the unit, and `format()`
+   * displays it. See `UnitRegistry` for the built-in units and to register custom ones.
+   * @param {string} symbol The unit symbol or alias.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {UnknownUnitError} If the unit is not registered.
+   * @example
+   * NumberUtils.of(5).unit('km').format('en-US'); // "5 km"
+   * NumberUtils.of(20).unit('C').unitSymbol; // "°C"
+   */
+  unit(symbol: string): this {
+    const definition = UnitRegistry.get(symbol);
+    return this.apply((target) => {
+      target.currentUnit = definition;
+    });
+  }
+
+  /**
+   * @method to
+   * @description Converts the current value to another unit of the same dimension. The conversion
+   * is computed exactly and rounded once: to the nearest number in floating-point mode (so tiny
+   * and huge values keep all their significant digits), or to `divisionPrecision` decimal places
+   * with the instance rounding mode in decimal mode.
+   * Temperatures are converted with their offsets (100 °C is 212 °F, not 180 °F), and decimal
+   * byte prefixes (kB, MB...) are powers of 1000 while binary ones (KiB, MiB...) are powers of 1024.
+   * @param {string} symbol The symbol or alias of the unit to convert to.
+   * @returns {this} The current NumberUtils instance for continued chaining.
+   * @throws {RangeError} If no unit was set with `unit()`.
+   * @throws {UnknownUnitError} If the unit is not registered.
+   * @throws {DimensionMismatchError} If the units measure different things (e.g., 'kg' to 'km').
+   * @example
+   * NumberUtils.of(5).unit('km').to('mi').roundTo(2).value; // 3.11
+   * NumberUtils.of(100).unit('°C').to('°F').value; // 212
+   * NumberUtils.of(1).unit('GiB').to('MB').value; // 1073.741824
+   * NumberUtils.of(1.5e-10).unit('mm').to('km').value; // 1.5e-16
+   * NumberUtils.of(5).unit('kg').to('km'); // throws DimensionMismatchError
+   */
+  to(symbol: string): this {
+    if (this.currentUnit === null) {
+      throw new RangeError("The value has no unit to convert from. Call unit() first.");
+    }
+    const from = this.currentUnit.symbol;
+    const definition = UnitRegistry.get(symbol);
+    if (definition.dimension !== this.currentUnit.dimension) {
+      throw new DimensionMismatchError(this.currentUnit, definition);
+    }
+    return this.apply((target) => {
+      const mode = target.currentRoundingMode;
+      if (target.decimalValue) {
+        target.decimalValue = stripTrailingZeros(
+          convertUnit(target.decimalValue, from, symbol, target.currentDivisionPrecision, mode),
+        );
+      } else if (Number.isFinite(target.currentNumber)) {
+        // NaN and ±Infinity are left as they are
+        const value = parseDecimal(target.currentNumber) as DecimalFraction;
+        const { numerator, denominator } = convertUnitExactly(value, from, symbol);
+        target.currentNumber = Fraction.of(numerator, denominator).value;
+      }
+      target.currentUnit = definition;
+    });
   }
 
   /**
    * @method toFixed
-   * @description Formats the current number to a fixed number of decimal places.
-   * Returns a string representation of the number.
+   * @description Formats the current number with a fixed number of decimal places.
+   * Unlike `Number.prototype.toFixed`, the number is rounded from its exact decimal representation
+   * with the instance rounding mode, as `roundTo()` does (so 1.005 gives "1.01", not "1.00"),
+   * and the result is never in exponential notation. NaN and ±Infinity give "NaN" and "±Infinity".
    * @param {number} [digits=0] The number of digits to appear after the decimal point.
-   * @returns {this} The current NumberUtils instance for continued chaining (stores as a number, might lose precision if re-converted).
-   * @remark
-   * This method converts the number to a string internally. If you chain further numerical operations
-   * after `toFixed`, the string will be implicitly converted back to a number, which might
-   * lead to loss of trailing zeros or precision if not handled carefully.
-   * For final display, it's often best to call `.value` after `toFixed` and use the string result.
+   * @returns {string} The formatted number. The instance itself is not modified.
+   * @throws {RangeError} If `digits` is not a non-negative integer.
    * @example
-   * NumberUtils.of(123.456).toFixed(2).value; // "123.46" (as a string)
-   * NumberUtils.of(10).toFixed(2).value; // "10.00" (as a string)
+   * NumberUtils.of(123.456).toFixed(2); // "123.46"
+   * NumberUtils.of(10).toFixed(2); // "10.00"
+   * NumberUtils.of(2.345, 'half-even').toFixed(2); // "2.34"
+   * NumberUtils.decimal("12345678901234567890.125").toFixed(2); // "12345678901234567890.13"
    */
-  toFixed(digits: number = 0): this {
-    this.currentNumber = parseFloat(this.currentNumber.toFixed(digits));
-    return this;
+  toFixed(digits: number = 0): string {
+    if (!Number.isInteger(digits) || digits < 0) {
+      throw new RangeError("The number of digits must be a non-negative integer.");
+    }
+    const fraction = this.decimalValue ?? parseDecimal(this.currentNumber);
+    if (fraction === null) {
+      return String(this.currentNumber);
+    }
+    return formatFraction(roundFraction(fraction, digits, this.currentRoundingMode));
   }
 
   /**
    * @method toPrecision
-   * @description Formats the current number to a specified length (number of significant digits).
-   * Returns a string representation of the number.
+   * @description Formats the current number with a given number of significant digits.
+   * Unlike `Number.prototype.toPrecision`, the number is rounded from its exact decimal
+   * representation with the instance rounding mode, and the result is never in exponential
+   * notation. Without a precision, this is the same as `toString()`.
    * @param {number} [precision] The number of significant digits.
-   * @returns {this} The current NumberUtils instance for continued chaining (stores as a number, might lose precision if re-converted).
-   * @remark
-   * Similar to `toFixed`, this method converts to a string. Be mindful of subsequent numerical operations.
+   * @returns {string} The formatted number. The instance itself is not modified.
+   * @throws {RangeError} If `precision` is not a positive integer.
+   * @example
+   * NumberUtils.of(123.456).toPrecision(4); // "123.5"
+   * NumberUtils.of(0.000123).toPrecision(2); // "0.00012"
+   * NumberUtils.of(9.996).toPrecision(3); // "10.0"
+   * NumberUtils.of(123456).toPrecision(2); // "120000"
+   */
+  toPrecision(precision?: number): string {
+    if (precision === undefined) {
+      return this.toString();
+    }
+    if (!Number.isInteger(precision) || precision < 1) {
+      throw new RangeError("The precision must be a positive integer.");
+    }
+    const fraction = this.decimalValue ?? parseDecimal(this.currentNumber);
+    if (fraction === null) {
+      return String(this.currentNumber);
+    }
+    return formatFraction(toSignificantDigits(fraction, precision, this.currentRoundingMode));
+  }
+
+  /**
+   * @method toFraction
+   * @description Converts the current number to an exact fraction. Numbers are read from their
+   * shortest representation, so 0.375 is exactly 3/8 and 0.1 is 1/10. With `maxDenominator`,
+   * returns the closest fraction whose denominator does not exceed it, found with continued
+   * fractions (e.g., to recover 1/3 from a rounded 0.333).
+   * @param {number | bigint} [maxDenominator] The largest allowed denominator. Defaults to none.
+   * @returns {Fraction} The fraction, in lowest terms.
+   * @throws {InvalidNumberError} If the current value is NaN or ±Infinity.
+   * @throws {RangeError} If `maxDenominator` is not a positive integer.
    * @example
-   * NumberUtils.of(123.456).toPrecision(4).value; // "123.5" (as a string)
-   * NumberUtils.of(0.000123).toPrecision(2).value; // "0.00012" (as a string)
+   * NumberUtils.of(0.375).toFraction().toString(); // "3/8"
+   * NumberUtils.of(1.333).toFraction(10).format(); // "1 1/3"
+   * NumberUtils.of(Math.PI).toFraction(1000).toString(); // "355/113"
+   * NumberUtils.of(2).divide(3).toFraction(100).toString(); // "2/3"
    */
-  toPrecision(precision?: number): this {
-    this.currentNumber = parseFloat(this.currentNumber.toPrecision(precision));
-    return this;
+  toFraction(maxDenominator?: number | bigint): Fraction {
+    const decimal = this.decimalValue ?? parseDecimal(this.currentNumber);
+    if (decimal === null) {
+      throw new InvalidNumberError(this.currentNumber, "toFraction");
+    }
+    const fraction = Fraction.of(decimal.numerator, decimal.denominator);
+    return maxDenominator === undefined ? fraction : fraction.limitDenominator(maxDenominator);
+  }
+
+  /**
+   * @method toBase
+   * @description Writes the current integer in another base, e.g. for hexadecimal IDs or base-36
+   * short codes. Every digit is exact, whatever the size of the integer. See `NumberUtils.fromBase()`.
+   * @param {number} radix The base, from 2 to 36. Digits beyond 9 are lowercase letters.
+   * @returns {string} The digits, with a leading "-" for negative integers.
+   * @throws {RangeError} If the current value is not an integer, or `radix` is not an integer
+   * between 2 and 36.
+   * @example
+   * NumberUtils.of(255).toBase(16); // "ff"
+   * NumberUtils.of(-5).toBase(2); // "-101"
+   * NumberUtils.integer(2n ** 64n).toBase(36); // "3w5e11264sgsg"
+   */
+  toBase(radix: number): string {
+    if (!Number.isInteger(radix) || radix < 2 || radix > 36) {
+      throw new RangeError("The radix must be an integer between 2 and 36.");
+    }
+    return this.toBigIntValue("toBase").toString(radix);
+  }
+
+  /**
+   * @method toBigInt
+   * @description Returns the current integer as a bigint, exactly in decimal and integer modes.
+   * @returns {bigint} The current value.
+   * @throws {RangeError} If the current value is not an integer.
+   * @example
+   * NumberUtils.integer("9007199254740993").toBigInt(); // 9007199254740993n
+   * NumberUtils.of(42).toBigInt(); // 42n
+   */
+  toBigInt(): bigint {
+    return this.toBigIntValue("toBigInt");
+  }
+
+  /**
+   * @method format
+   * @description Formats the current number into a locale-specific string with `Intl.NumberFormat`.
+   * Any Intl option is supported, such as units (`{ style: 'unit', unit: 'kilometer-per-hour' }`).
+   * In decimal mode, the exact value is formatted, so no digit is lost beyond double precision.
+   * A value with a unit (see `unit()`) is displayed with its localized label, or with its symbol
+   * for units `Intl.NumberFormat` does not know (e.g., 'MiB').
+   * @param {string} [locale] The locale string (e.g., 'en-US', 'de-DE'). Defaults to current browser locale.
+   * @param {Intl.NumberFormatOptions | NumberFormatPreset} [options] Optional formatting options for
+   * `Intl.NumberFormat`, or the name of a preset ('percent', 'compact', 'scientific' or 'engineering').
+   * @returns {string} The formatted number.
+   * @example
+   * NumberUtils.of(1234567.891).format('en-US'); // "1,234,567.891"
+   * NumberUtils.of(1234567.891).format('de-DE'); // "1.234.567,891"
+   * NumberUtils.of(0.256).format('en-US', 'percent'); // "26%"
+   * NumberUtils.of(1234567).format('en-US', 'compact'); // "1.2M"
+   * NumberUtils.of(12345.678).format('en-US', 'scientific'); // "1.235E4"
+   * NumberUtils.of(12345.678).format('en-US', 'engineering'); // "12.346E3"
+   * NumberUtils.of(88).format('en-US', { style: 'unit', unit: 'kilometer-per-hour' }); // "88 km/h"
+   * NumberUtils.of(5).unit('km').format('en-US', { unitDisplay: 'long' }); // "5 kilometers"
+   * NumberUtils.of(1.5).unit('MiB').format('de-DE'); // "1,5 MiB"
+   */
+  format(locale?: string, options?: Intl.NumberFormatOptions | NumberFormatPreset): string {
+    const unit = this.currentUnit;
+    const numberFormatterOptions: Intl.NumberFormatOptions = {
+      ...(unit?.intlUnit ? { style: "unit", unit: unit.intlUnit } : {}),
+      // Allow overriding default options, directly or through a preset
+      ...(typeof options === "string" ? FORMAT_PRESETS[options] : options),
+    };
+    try {
+      const formatted = new Intl.NumberFormat(locale, numberFormatterOptions).format(
+        this.decimalValue
+          ? (formatFraction(this.decimalValue) as Intl.StringNumericLiteral)
+          : this.currentNumber,
+      );
+      // Units unknown to Intl are formatted as a plain number followed by their symbol
+      return unit && numberFormatterOptions.style === undefined
+        ? `${formatted} ${unit.symbol}`
+        : formatted;
+    } catch (e) {
+      console.error("Error formatting number:", e);
+      // Fallback to a simple string if formatting fails
+      return this.toString();
+    }
   }
 
   /**
@@ -196,8 +2082,20 @@ class NumberUtils {
    * NumberUtils.of(15).clamp(10, 20).value; // 15
    */
   clamp(min: number, max: number): this {
-    this.currentNumber = Math.max(Number(min), Math.min(Number(max), this.currentNumber));
-    return this;
+    return this.apply((target) => {
+      if (target.decimalValue) {
+        const lower = target.toDecimalOperand(min, "clamp");
+        const upper = target.toDecimalOperand(max, "clamp");
+        if (compareFractions(target.decimalValue, upper) > 0) {
+          target.decimalValue = upper;
+        }
+        if (compareFractions(target.decimalValue, lower) < 0) {
+          target.decimalValue = lower;
+        }
+      } else {
+        target.currentNumber = Math.max(Number(min), Math.min(Number(max), target.currentNumber));
+      }
+    });
   }
 
   /**
@@ -210,6 +2108,9 @@ class NumberUtils {
    * NumberUtils.of(5.5).isInteger(); // false
    */
   isInteger(): boolean {
+    if (this.decimalValue) {
+      return this.decimalValue.numerator % this.decimalValue.denominator === 0n;
+    }
     return Number.isInteger(this.currentNumber);
   }
 
@@ -224,7 +2125,7 @@ class NumberUtils {
    * NumberUtils.of(0).isPositive(); // false
    */
   isPositive(): boolean {
-    return this.currentNumber > 0;
+    return this.decimalValue ? this.decimalValue.numerator > 0n : this.currentNumber > 0;
   }
 
   /**
@@ -238,7 +2139,7 @@ class NumberUtils {
    * NumberUtils.of(0).isNegative(); // false
    */
   isNegative(): boolean {
-    return this.currentNumber < 0;
+    return this.decimalValue ? this.decimalValue.numerator < 0n : this.currentNumber < 0;
   }
 
   /**
@@ -252,7 +2153,7 @@ class NumberUtils {
    * NumberUtils.of(1).isZero(); // false
    */
   isZero(): boolean {
-    return this.currentNumber === 0;
+    return this.decimalValue ? this.decimalValue.numerator === 0n : this.currentNumber === 0;
   }
 
   /**
@@ -266,7 +2167,7 @@ class NumberUtils {
    * NumberUtils.of(Infinity).isNaN(); // false
    */
   isNaN(): boolean {
-    return Number.isNaN(this.currentNumber);
+    return !this.decimalValue && Number.isNaN(this.currentNumber);
   }
 
   /**
@@ -281,6 +2182,9 @@ class NumberUtils {
    * NumberUtils.of(15).isLessThan(10); // false
    */
   isLessThan(compareValue: number): boolean {
+    if (this.decimalValue) {
+      return this.compareDecimal(compareValue) === -1;
+    }
     return this.currentNumber < Number(compareValue);
   }
 
@@ -296,6 +2200,9 @@ class NumberUtils {
    * NumberUtils.of(5).isMoreThan(10); // false
    */
   isMoreThan(compareValue: number): boolean {
+    if (this.decimalValue) {
+      return this.compareDecimal(compareValue) === 1;
+    }
     return this.currentNumber > Number(compareValue);
   }
 
@@ -311,6 +2218,9 @@ class NumberUtils {
    * NumberUtils.of(10.1).isEqual(10); // false
    */
   isEqual(compareValue: number): boolean {
+    if (this.decimalValue) {
+      return this.compareDecimal(compareValue) === 0;
+    }
     return this.currentNumber === Number(compareValue);
   }
 
@@ -328,6 +2238,10 @@ class NumberUtils {
    * NumberUtils.of(5).isBetween(10, 20); // false
    */
   isBetween(min: number, max: number): boolean {
+    if (this.decimalValue) {
+      const [lower, upper] = [this.compareDecimal(min), this.compareDecimal(max)];
+      return lower !== null && lower >= 0 && upper !== null && upper <= 0;
+    }
     return this.currentNumber >= Number(min) && this.currentNumber <= Number(max);
   }
 
@@ -343,6 +2257,10 @@ class NumberUtils {
    * NumberUtils.of(4.2).isEven(); // false (not an integer)
    */
   isEven(): boolean {
+    if (this.decimalValue) {
+      const { numerator, denominator } = this.decimalValue;
+      return this.isInteger() && (numerator / denominator) % 2n === 0n;
+    }
     return this.isInteger() && this.currentNumber % 2 === 0;
   }
 
@@ -358,6 +2276,10 @@ class NumberUtils {
    * NumberUtils.of(5.2).isOdd(); // false (not an integer)
    */
   isOdd(): boolean {
+    if (this.decimalValue) {
+      const { numerator, denominator } = this.decimalValue;
+      return this.isInteger() && (numerator / denominator) % 2n !== 0n;
+    }
     return this.isInteger() && this.currentNumber % 2 !== 0;
   }
 
@@ -372,7 +2294,7 @@ class NumberUtils {
    * NumberUtils.of(NaN).isFinite(); // false
    */
   isFinite(): boolean {
-    return Number.isFinite(this.currentNumber);
+    return this.decimalValue !== null || Number.isFinite(this.currentNumber);
   }
 
   /**
@@ -380,17 +2302,27 @@ class NumberUtils {
    * @description Checks if the current number is perfectly divisible by a given divisor (remainder is 0).
    * Handles division by zero for the divisor.
    * This method does not modify the number.
-   * @param {number} divisor The number to divide by.
+   * @param {number | string | bigint} divisor The number to divide by (strings and bigints are
+   * exact in decimal and integer modes).
    * @returns {boolean} True if divisible, false otherwise. Returns false if divisor is 0.
    * @example
    * NumberUtils.of(10).isDivisibleBy(2); // true
    * NumberUtils.of(10).isDivisibleBy(3); // false
    * NumberUtils.of(10).isDivisibleBy(0); // false
    */
-  isDivisibleBy(divisor: number): boolean {
+  isDivisibleBy(divisor: number | string | bigint): boolean {
     if (Number(divisor) === 0) {
       return false; // Cannot divide by zero
     }
+    if (this.decimalValue) {
+      const fraction = parseDecimal(divisor);
+      const { numerator, denominator } = this.decimalValue;
+      // (n / d) / (dn / dd) is an integer when n * dd is a multiple of d * dn
+      return (
+        fraction !== null &&
+        (numerator * fraction.denominator) % (denominator * fraction.numerator) === 0n
+      );
+    }
     return this.currentNumber % Number(divisor) === 0;
   }
 
@@ -398,10 +2330,68 @@ class NumberUtils {
    * @property {number} value
    * @description A getter property to retrieve the final number value after all chained operations.
    * Using it like a property (`.value`) makes the end of the chain very clear and readable.
+   * In decimal mode, this is the closest number to the exact value; use `toString()` to read it
+   * without any loss.
    * @returns {number} The current number value stored in this NumberUtils instance.
    */
   get value(): number {
-    return this.currentNumber;
+    return this.decimalValue ? Number(formatFraction(this.decimalValue)) : this.currentNumber;
+  }
+
+  /**
+   * @property {RoundingMode} roundingMode
+   * @description A getter property to retrieve the default rounding mode of the instance.
+   * @returns {RoundingMode} The rounding mode (e.g., 'half-up').
+   */
+  get roundingMode(): RoundingMode {
+    return this.currentRoundingMode;
+  }
+
+  /**
+   * @property {boolean} isStrict
+   * @description A getter property telling whether invalid operands and divisions by zero throw.
+   * @returns {boolean} True in strict mode, false otherwise.
+   */
+  get isStrict(): boolean {
+    return this.strictMode;
+  }
+
+  /**
+   * @property {boolean} isDecimal
+   * @description A getter property telling whether the value is an exact decimal (decimal mode)
+   * or a floating-point number (the default). See `NumberUtils.decimal()`.
+   * @returns {boolean} True in decimal mode, false otherwise.
+   */
+  get isDecimal(): boolean {
+    return this.decimalValue !== null;
+  }
+
+  /**
+   * @property {boolean} isIntegerMode
+   * @description A getter property telling whether the instance is in integer mode, a decimal mode
+   * restricted to integers (so `isDecimal` is true as well). See `NumberUtils.integer()`.
+   * @returns {boolean} True in integer mode, false otherwise.
+   */
+  get isIntegerMode(): boolean {
+    return this.integerMode;
+  }
+
+  /**
+   * @property {number} divisionPrecision
+   * @description A getter property to retrieve the number of decimal places `divide()` keeps in decimal mode.
+   * @returns {number} The division precision (20 by default).
+   */
+  get divisionPrecision(): number {
+    return this.currentDivisionPrecision;
+  }
+
+  /**
+   * @property {string | null} unitSymbol
+   * @description A getter property to retrieve the symbol of the unit of the value.
+   * @returns {string | null} The unit symbol (e.g., 'km'), or null for a plain number.
+   */
+  get unitSymbol(): string | null {
+    return this.currentUnit?.symbol ?? null;
   }
 
   /**
@@ -412,18 +2402,19 @@ class NumberUtils {
    * @returns {number} The current number value.
    */
   valueOf(): number {
-    return this.currentNumber;
+    return this.value;
   }
 
   /**
    * @method toString
    * @description Returns the string representation of the final number value.
    * This is a JavaScript built-in method often called when an object needs to be
-   * represented as a string.
+   * represented as a string. In decimal mode, it is the exact value with all of its decimal
+   * places (e.g., "0.3" or "10.00"), never in exponential notation.
    * @returns {string} The string representation of the current number value.
    */
   toString(): string {
-    return String(this.currentNumber);
+    return this.decimalValue ? formatFraction(this.decimalValue) : String(this.currentNumber);
   }
 }
 
@@ -449,20 +2440,173 @@ const multiMultiply = NumberUtils.of(2).multiply(3, 4, 5).value;
 console.log("Multi-Multiply (2 * 3 * 4 * 5):", multiMultiply);
 
 // Example 3: Formatting decimals
-const formattedPrice = NumberUtils.of(99.9987).toFixed(2).value;
-console.log("Formatted Price (toFixed 2):", formattedPrice);
+const formattedPrice = NumberUtils.of(99.9987).toFixed(2);
+console.log("Formatted Price (toFixed 2):", formattedPrice); // "100.00"
+
+const preciseMeasurement = NumberUtils.of(12345.6789).toPrecision(5);
+console.log("Precise Measurement (toPrecision 5):", preciseMeasurement); // "12346"
+
+// Example 4: Locale formatting and parsing
+console.log("German format:", NumberUtils.of(1234567.891).format("de-DE")); // 1.234.567,891
+console.log("Percent:", NumberUtils.of(0.256).format("en-US", "percent")); // 26%
+console.log("Compact:", NumberUtils.of(1234567).format("en-US", "compact")); // 1.2M
+console.log("Engineering:", NumberUtils.of(12345.678).format("en-US", "engineering")); // 12.346E3
+console.log(
+  "Speed:",
+  NumberUtils.of(88).format("en-US", { style: "unit", unit: "kilometer-per-hour" }),
+); // 88 km/h
+for (const [input, locale] of [
+  ["1.234,5", "de-DE"],
+  ["12,5 %", "fr-FR"],
+  ["١٢٣٫٤٥", "ar-EG"],
+  ["1.234,5", "en-US"],
+]) {
+  const parsed = NumberUtils.tryParse(input, locale).fold(
+    (error) => `Error: ${error.message}`,
+    (n) => String(n.value),
+  );
+  console.log(`parse("${input}", "${locale}"):`, parsed); // 1234.5 / 0.125 / 123.45 / Error: ...
+}
+
+// Example 5: Unit conversion
+const runDistance = NumberUtils.of(5).unit("km").to("mi").roundTo(2);
+console.log("5 km in miles:", runDistance.format("en-US", { unitDisplay: "long" })); // 3.11 miles
+console.log("100 °C in °F:", NumberUtils.of(100).unit("°C").to("°F").format("en-US")); // 212°F
+console.log("1 GiB in MB:", NumberUtils.of(1).unit("GiB").to("MB").format("de-DE")); // 1.073,742 MB
+console.log("Upload size:", NumberUtils.of(1536).unit("KiB").to("MiB").format("en-US")); // 1.5 MiB
+try {
+  NumberUtils.of(5).unit("kg").to("km");
+} catch (error) {
+  console.error("5 kg to km:", (error as Error).message); // Cannot convert "kg" (mass) to "km" (length).
+}
+
+// Example 6: Integer mode and number theory
+console.log("2^53 + 1 as a float:", NumberUtils.of(2 ** 53).add(1).value); // 9007199254740992
+console.log(
+  "2^53 + 1 as an integer:",
+  NumberUtils.integer(2n ** 53n)
+    .add(1)
+    .toString(),
+); // 9007199254740993
+console.log("gcd(48, 18):", NumberUtils.of(48).gcd(18).value); // 6
+console.log("lcm(4, 6):", NumberUtils.of(4).lcm(6).value); // 12
+console.log("4^13 mod 497:", NumberUtils.of(4).modPow(13, 497).value); // 445
+console.log("Inverse of 3 mod 11:", NumberUtils.of(3).modInverse(11).value); // 4
+console.log("Is 2^127 - 1 prime?", NumberUtils.integer(2n ** 127n - 1n).isPrime()); // true
+console.log("360 factorized:", NumberUtils.of(360).factorize()); // [2, 2, 2, 3, 3, 5]
+console.log("25!:", NumberUtils.integer(25).factorial().toString()); // 15511210043330985984000000
+console.log("Lotto odds, 49 choose 6:", NumberUtils.of(49).binomial(6).value); // 13983816
+const orderId = NumberUtils.integer("9007199254740993123");
+console.log("Order ID in base 36:", orderId.toBase(36)); // 1wfkhnpy7om03
+console.log("Back from base 36:", NumberUtils.fromBase(orderId.toBase(36), 36).toString()); // 9007199254740993123
+// IBAN check: move the country code and check digits to the end, letters to numbers, mod 97 must be 1
+const iban = "GB82WEST12345698765432";
+const ibanDigits = [...(iban.slice(4) + iban.slice(0, 4))]
+  .map((char) => NumberUtils.fromBase(char, 36).toString())
+  .join("");
+console.log(`Is ${iban} valid?`, NumberUtils.integer(ibanDigits).mod(97).value === 1); // true
+
+// Example 7: Seeded random numbers
+const random = NumberUtils.random({ seed: "demo-data" });
+const testUsers = Array.from({ length: 3 }, () => ({
+  age: random.int(18, 90),
+  height: NumberUtils.of(random.normal(170, 10)).roundTo(1).value,
+  plan: random.weightedChoice(["free", "pro", "enterprise"], [80, 15, 5]),
+}));
+console.log("Reproducible users:", testUsers); // the same users on every run
+const savedState = random.getState();
+const replay = NumberUtils.random({ state: JSON.parse(JSON.stringify(savedState)) });
+console.log("Restored state continues the sequence?", random.next() === replay.next()); // true
+console.log("Shuffled deck:", random.shuffle(["A", "K", "Q", "J", "10"]));
+
+// Example 8: Fractions
+const flour = NumberUtils.fraction("1 1/2"); // cups, for 4 servings
+const servingScale = NumberUtils.fraction(6, 4); // scaled to 6 servings
+console.log("Flour for 6:", flour.multiply(servingScale).format(), "cups"); // 2 1/4 cups
+console.log(
+  "Butter for 6:",
+  NumberUtils.fraction("¾").multiply(servingScale).format("unicode"),
+  "cup",
+); // 1⅛ cup
+console.log(
+  "3/8 in + 1/4 in:",
+  NumberUtils.fraction("3/8").add(NumberUtils.fraction("1/4")).format(),
+); // 5/8
+console.log("0.375 as a fraction:", NumberUtils.of(0.375).toFraction().toString()); // 3/8
+console.log("Rounded 0.667 as a fraction:", NumberUtils.of(0.667).toFraction(10).toString()); // 2/3
+console.log("π to 3 digits:", NumberUtils.of(Math.PI).toFraction(1000).toString()); // 355/113
+
+// Example 9: Rounding modes
+console.log("2.5 rounded (half-up):", NumberUtils.of(2.5).round().value); // 3
+console.log("2.5 rounded (half-even):", NumberUtils.of(2.5).round("half-even").value); // 2
+console.log("1.005 rounded to 2 decimals:", NumberUtils.of(1.005).roundTo(2).value); // 1.01
+console.log("2.345 banker's rounding:", NumberUtils.of(2.345, "half-even").roundTo(2).value); // 2.34
+console.log("1.23 to a 0.05 step:", NumberUtils.of(1.23).roundToStep(0.05).value); // 1.25
+console.log("52 minutes floored to 15:", NumberUtils.of(52).roundToStep(15, "floor").value); // 45
+
+// Example 10: Immutable mode
+const baseRate = NumberUtils.of(10).immutable();
+const doubledRate = baseRate.multiply(2);
+console.log("Immutable base:", baseRate.value, "doubled:", doubledRate.value); // 10 doubled: 20
+console.log("Doubled equals 20?", doubledRate.equals(NumberUtils.of(20))); // true
+console.log("Base frozen?", Object.isFrozen(baseRate)); // true
+
+// Example 11: Strict mode and Either-returning constructors
+console.log("Lenient NaN * 2:", NumberUtils.of(Number("abc")).multiply(2).value); // NaN
+try {
+  NumberUtils.of(10).strict().divide(0);
+} catch (error) {
+  console.error("Strict 10 / 0:", (error as Error).name); // DivisionByZeroError
+}
+for (const input of ["12", "12abc"]) {
+  const doubled = NumberUtils.tryOf(input).map((n) => n.multiply(2).value);
+  console.log(
+    `tryOf("${input}") * 2:`,
+    doubled.fold(
+      (error) => `Error: ${error.message}`,
+      (value) => String(value),
+    ),
+  ); // 24 / Error: Invalid number "12abc" passed to strictOf().
+}
+console.log("tryDivide by 0 is Left?", NumberUtils.of(10).tryDivide(0).isLeft()); // true
+
+// Example 12: Decimal mode (exact, arbitrary precision)
+console.log("Float 0.1 + 0.2:", NumberUtils.of(0.1).add(0.2).value); // 0.30000000000000004
+console.log("Decimal 0.1 + 0.2:", NumberUtils.decimal("0.1").add("0.2").toString()); // 0.3
+const stockLevel = NumberUtils.decimal("9007199254740993.25").add(1).multiply("0.5");
+console.log("Beyond MAX_SAFE_INTEGER:", stockLevel.toString()); // 4503599627370497.125
+console.log(
+  "1 / 3 at 8 decimals:",
+  NumberUtils.decimal(1).withDivisionPrecision(8).divide(3).toString(),
+); // 0.33333333
+console.log("Fixed 2 decimals:", NumberUtils.decimal("2.5").toFixed(2)); // 2.50
 
-const preciseMeasurement = NumberUtils.of(12345.6789).toPrecision(5).value;
-console.log("Precise Measurement (toPrecision 5):", preciseMeasurement);
+// Example 13: Statistics
+const responseTimes = [120, 80, 95, 300, 110, NaN];
+const summary = NumberUtils.stats(responseTimes, { nan: "omit" });
+console.log(
+  "Response times:",
+  summary.count,
+  "samples, mean",
+  summary.mean,
+  "median",
+  summary.median,
+); // 5 samples, mean 141 median 110
+console.log("p95:", NumberUtils.percentile(responseTimes, 95, { nan: "omit" }).round().value); // 264
+console.log(
+  "Std dev (sample):",
+  NumberUtils.standardDeviation([2, 4, 4, 4, 5, 5, 7, 9], { sample: true }).roundTo(3).value,
+); // 2.138
+console.log("Histogram:", NumberUtils.histogram([80, 95, 110, 120, 300], [0, 100, 200, 500])); // counts 2, 2, 1
 
-// Example 4: Clamping a value
+// Example 14: Clamping a value
 const clampedAge = NumberUtils.of(5).clamp(18, 65).value;
 console.log("Clamped Age (5 clamped to 18-65):", clampedAge);
 
 const clampedScore = NumberUtils.of(105).clamp(0, 100).value;
 console.log("Clamped Score (105 clamped to 0-100):", clampedScore);
 
-// Example 5: Core Validation checks
+// Example 15: Core Validation checks
 console.log("\n--- NumberUtils Core Validation Examples ---");
 console.log("Is 7 an integer?", NumberUtils.of(7).isInteger());
 console.log("Is 3.14 an integer?", NumberUtils.of(3.14).isInteger());
@@ -470,7 +2614,7 @@ console.log("Is -5 positive?", NumberUtils.of(-5).isPositive());
 console.log("Is -5 negative?", NumberUtils.of(-5).isNegative());
 console.log("Is 0 zero?", NumberUtils.of(0).isZero());
 console.log("Is NaN NaN?", NumberUtils.of(NaN).isNaN());
-console.log("Is 'abc' NaN (after conversion)?", NumberUtils.of("abc" as any).isNaN());
+console.log("Is 'abc' NaN (after conversion)?", NumberUtils.of(Number("abc")).isNaN());
 
 // New validation methods
 console.log("\n--- NumberUtils Additional Validation Examples ---");
@@ -505,7 +2649,7 @@ console.log("Is 10 divisible by 2?", NumberUtils.of(10).isDivisibleBy(2)); // tr
 console.log("Is 10 divisible by 3?", NumberUtils.of(10).isDivisibleBy(3)); // false
 console.log("Is 10 divisible by 0?", NumberUtils.of(10).isDivisibleBy(0)); // false
 
-// Example 6: Chaining with mixed operations and checks
+// Example 16: Chaining with mixed operations and checks
 const finalCheck = NumberUtils.of(100)
   .divide(3) // 33.333...
   .add(0.666) // 33.999...
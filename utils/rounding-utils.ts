@@ -0,0 +1,307 @@
+/**
+ * @module rounding-utils
+ * @description The rounding subsystem shared by MoneyUtils and NumberUtils.
+ * Every rounding happens on exact integers (`bigint`) or on the exact decimal
+ * representation of a number, so a mode always behaves the same way in both classes
+ * and never suffers from binary floating-point artifacts (e.g., 1.005 rounds to 1.01).
+ * It also holds the typed errors both classes throw in strict mode.
+ */
+
+/**
+ * @typedef {string} RoundingMode
+ * @description The supported rounding strategies, named after their behaviour on a
+ * value that is not already exact:
+ * - `"half-up"`: to the nearest neighbour, ties away from zero (2.5 → 3, -2.5 → -3).
+ * - `"half-down"`: to the nearest neighbour, ties toward zero (2.5 → 2, -2.5 → -2).
+ * - `"half-even"`: to the nearest neighbour, ties to the even neighbour, a.k.a. banker's rounding (2.5 → 2, 3.5 → 4).
+ * - `"up"`: away from zero (2.1 → 3, -2.1 → -3).
+ * - `"down"`: toward zero, i.e. truncation (2.9 → 2, -2.9 → -2).
+ * - `"ceiling"`: toward positive infinity (2.1 → 3, -2.9 → -2).
+ * - `"floor"`: toward negative infinity (2.9 → 2, -2.1 → -3).
+ */
+export type RoundingMode =
+  | "half-up"
+  | "half-down"
+  | "half-even"
+  | "up"
+  | "down"
+  | "ceiling"
+  | "floor";
+
+/**
+ * @constant ROUNDING_MODES
+ * @description Every supported RoundingMode, e.g. to build a select input or validate user input.
+ */
+export const ROUNDING_MODES: readonly RoundingMode[] = [
+  "half-up",
+  "half-down",
+  "half-even",
+  "up",
+  "down",
+  "ceiling",
+  "floor",
+];
+
+/**
+ * @constant DEFAULT_ROUNDING_MODE
+ * @description The mode used when neither the instance nor the call specifies one.
+ */
+export const DEFAULT_ROUNDING_MODE: RoundingMode = "half-up";
+
+/**
+ * @function assertRoundingMode
+ * @description Guards against unknown modes coming from untyped code or configuration.
+ * @param {string} mode The mode to validate.
+ * @returns {RoundingMode} The same mode, typed as a RoundingMode.
+ * @throws {RangeError} If `mode` is not one of ROUNDING_MODES.
+ */
+export const assertRoundingMode = (mode: string): RoundingMode => {
+  if (!ROUNDING_MODES.includes(mode as RoundingMode)) {
+    throw new RangeError(`Unknown rounding mode "${mode}". Expected one of: ${ROUNDING_MODES}.`);
+  }
+  return mode as RoundingMode;
+};
+
+/**
+ * @class InvalidNumberError
+ * @description Thrown in strict mode when an input is not a finite decimal number
+ * (e.g., "abc", NaN or Infinity), instead of silently turning it into 0 or NaN.
+ */
+export class InvalidNumberError extends Error {
+  /**
+   * @param {unknown} value The rejected input.
+   * @param {string} operation The method that received it (e.g., 'of', 'multiply').
+   */
+  constructor(
+    public readonly value: unknown,
+    public readonly operation: string,
+  ) {
+    super(`Invalid number "${String(value)}" passed to ${operation}().`);
+    this.name = "InvalidNumberError";
+  }
+}
+
+/**
+ * @class DivisionByZeroError
+ * @description Thrown in strict mode when dividing by zero, instead of silently producing
+ * 0 or ±Infinity.
+ */
+export class DivisionByZeroError extends Error {
+  /**
+   * @param {string} operation The method that attempted the division (e.g., 'divide').
+   */
+  constructor(public readonly operation: string) {
+    super(`Division by zero in ${operation}().`);
+    this.name = "DivisionByZeroError";
+  }
+}
+
+/**
+ * @interface DecimalFraction
+ * @description An exact representation of a decimal input as `numerator / denominator`,
+ * where the denominator is always a positive power of ten (e.g., "1.005" is 1005 / 1000).
+ */
+export interface DecimalFraction {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+/**
+ * @private
+ * @constant MAX_DECIMAL_DIGITS
+ * @description The largest number of digits, and the largest absolute exponent, `parseDecimal`
+ * accepts. Every number fits (its exponent is at most 324), while a short input such as
+ * "1e20000000" cannot make the parser compute a bigint of twenty million digits.
+ */
+const MAX_DECIMAL_DIGITS = 1000;
+
+/**
+ * @function parseDecimal
+ * @description Parses a number, decimal string or bigint digit by digit into an exact
+ * DecimalFraction, without ever going through floating-point arithmetic.
+ * Accepts an optional sign, digits with an optional decimal point, and an optional exponent
+ * (so `String(1e21)` and `String(1e-7)` are understood too). Strings with more than 1000 digits
+ * or an exponent beyond ±1000 are rejected, as they would take seconds to expand.
+ * @param {number | string | bigint} value The value to parse.
+ * @returns {DecimalFraction | null} The exact fraction, or null if the value is not a finite decimal
+ * within those bounds.
+ * @example
+ * parseDecimal("1.005"); // { numerator: 1005n, denominator: 1000n }
+ * parseDecimal(-2.5e3); // { numerator: -2500n, denominator: 1n }
+ * parseDecimal("abc"); // null
+ * parseDecimal("1e20000000"); // null
+ */
+export const parseDecimal = (value: number | string | bigint): DecimalFraction | null => {
+  if (typeof value === "bigint") {
+    return { numerator: value, denominator: 1n };
+  }
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(value).trim());
+  if (!match || (match[2] === "" && !match[3])) {
+    return null;
+  }
+  const [, sign, integerDigits, fractionDigits = "", exponentDigits = "0"] = match;
+  if (
+    integerDigits.length + fractionDigits.length > MAX_DECIMAL_DIGITS ||
+    Math.abs(Number(exponentDigits)) > MAX_DECIMAL_DIGITS
+  ) {
+    return null;
+  }
+  const exponent = Number(exponentDigits) - fractionDigits.length;
+  let numerator = BigInt(integerDigits + fractionDigits);
+  let denominator = 1n;
+  if (exponent >= 0) {
+    numerator *= 10n ** BigInt(exponent);
+  } else {
+    denominator = 10n ** BigInt(-exponent);
+  }
+  return { numerator: sign === "-" ? -numerator : numerator, denominator };
+};
+
+/**
+ * @function roundQuotient
+ * @description Divides two bigints and rounds the quotient to an integer with the given mode.
+ * This is the single primitive every other rounding helper builds on.
+ * @param {bigint} numerator The dividend.
+ * @param {bigint} denominator The divisor. Must not be zero.
+ * @param {RoundingMode} [mode=DEFAULT_ROUNDING_MODE] How to round an inexact quotient.
+ * @returns {bigint} The rounded quotient.
+ * @throws {RangeError} If `denominator` is zero or `mode` is unknown.
+ * @example
+ * roundQuotient(5n, 2n); // 3n
+ * roundQuotient(5n, 2n, "half-even"); // 2n
+ * roundQuotient(-5n, 2n, "floor"); // -3n
+ */
+export const roundQuotient = (
+  numerator: bigint,
+  denominator: bigint,
+  mode: RoundingMode = DEFAULT_ROUNDING_MODE,
+): bigint => {
+  if (denominator === 0n) {
+    throw new RangeError("Cannot divide by zero.");
+  }
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+  const quotient = numerator / denominator; // BigInt division truncates toward zero
+  const remainder = numerator % denominator;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const isNegative = numerator < 0n;
+  const awayFromZero = quotient + (isNegative ? -1n : 1n);
+  // Compare twice the remainder with the divisor to know which neighbour is closer
+  const doubledRemainder = (isNegative ? -remainder : remainder) * 2n;
+
+  switch (assertRoundingMode(mode)) {
+    case "up":
+      return awayFromZero;
+    case "down":
+      return quotient;
+    case "ceiling":
+      return isNegative ? quotient : awayFromZero;
+    case "floor":
+      return isNegative ? awayFromZero : quotient;
+    case "half-up":
+      return doubledRemainder >= denominator ? awayFromZero : quotient;
+    case "half-down":
+      return doubledRemainder > denominator ? awayFromZero : quotient;
+    case "half-even":
+      if (doubledRemainder === denominator) {
+        return quotient % 2n === 0n ? quotient : awayFromZero;
+      }
+      return doubledRemainder > denominator ? awayFromZero : quotient;
+  }
+};
+
+/**
+ * @private
+ * @function toNumber
+ * @description Converts `units * 10^exponent` back into the closest JavaScript number,
+ * going through a decimal string so no intermediate floating-point error creeps in.
+ * @param {bigint} units The integer coefficient.
+ * @param {number} exponent The power of ten to apply.
+ * @returns {number} The resulting number.
+ */
+const toNumber = (units: bigint, exponent: number): number => Number(`${units}e${exponent}`);
+
+/**
+ * @private
+ * @function powerOfTen
+ * @description Returns the exponent of a power-of-ten bigint (e.g., 1000n → 3).
+ * @param {bigint} value A DecimalFraction denominator.
+ * @returns {number} The exponent.
+ */
+const powerOfTen = (value: bigint): number => value.toString().length - 1;
+
+/**
+ * @function roundToDecimals
+ * @description Rounds a number to a given number of decimal places using its exact decimal
+ * representation. Negative `decimals` round to tens, hundreds, etc.
+ * Non-finite values (NaN, ±Infinity) are returned unchanged.
+ * @param {number} value The number to round.
+ * @param {number} decimals The number of decimal places to keep. Must be an integer.
+ * @param {RoundingMode} [mode=DEFAULT_ROUNDING_MODE] How to round.
+ * @returns {number} The rounded number.
+ * @throws {RangeError} If `decimals` is not an integer or `mode` is unknown.
+ * @example
+ * roundToDecimals(1.005, 2); // 1.01 (Math.round(1.005 * 100) / 100 gives 1)
+ * roundToDecimals(2.345, 2, "half-even"); // 2.34
+ * roundToDecimals(1234, -2, "ceiling"); // 1300
+ */
+export const roundToDecimals = (
+  value: number,
+  decimals: number,
+  mode: RoundingMode = DEFAULT_ROUNDING_MODE,
+): number => {
+  if (!Number.isInteger(decimals)) {
+    throw new RangeError("The number of decimals must be an integer.");
+  }
+  if (!Number.isFinite(value)) {
+    return value;
+  }
+  const { numerator, denominator } = parseDecimal(value) as DecimalFraction;
+  const units =
+    decimals >= 0
+      ? roundQuotient(numerator * 10n ** BigInt(decimals), denominator, mode)
+      : roundQuotient(numerator, denominator * 10n ** BigInt(-decimals), mode);
+  return toNumber(units, -decimals);
+};
+
+/**
+ * @function roundToStep
+ * @description Rounds a number to the nearest multiple of `step` (e.g., 0.05 for cash
+ * rounding, 15 for minutes). The computation is exact for decimal steps.
+ * Non-finite values (NaN, ±Infinity) are returned unchanged.
+ * @param {number} value The number to round.
+ * @param {number} step The increment to round to. Must be a positive, finite number.
+ * @param {RoundingMode} [mode=DEFAULT_ROUNDING_MODE] How to round.
+ * @returns {number} The rounded number.
+ * @throws {RangeError} If `step` is not positive and finite, or `mode` is unknown.
+ * @example
+ * roundToStep(1.23, 0.05); // 1.25
+ * roundToStep(1.225, 0.05, "half-even"); // 1.2
+ * roundToStep(52, 15, "floor"); // 45
+ */
+export const roundToStep = (
+  value: number,
+  step: number,
+  mode: RoundingMode = DEFAULT_ROUNDING_MODE,
+): number => {
+  if (!Number.isFinite(step) || step <= 0) {
+    throw new RangeError("The rounding step must be a positive, finite number.");
+  }
+  if (!Number.isFinite(value)) {
+    return value;
+  }
+  const valueFraction = parseDecimal(value) as DecimalFraction;
+  const stepFraction = parseDecimal(step) as DecimalFraction;
+  // value / step = (vn / vd) / (sn / sd) = (vn * sd) / (vd * sn)
+  const steps = roundQuotient(
+    valueFraction.numerator * stepFraction.denominator,
+    valueFraction.denominator * stepFraction.numerator,
+    mode,
+  );
+  return toNumber(steps * stepFraction.numerator, -powerOfTen(stepFraction.denominator));
+};
@@ -0,0 +1,136 @@
+/**
+ * @module segment-utils
+ * @description Text measured the way people read it, for `StringUtils`: `"👍🏽".length` is 4 code
+ * units but one character on screen. Grapheme clusters and words come from `Intl.Segmenter`, so
+ * emoji sequences, flags and combining marks are never split.
+ */
+
+/**
+ * @typedef {string} LengthUnit
+ * @description What a length is counted in:
+ * - `"code-units"`: UTF-16 code units, as `String.prototype.length` (an emoji counts 2 or more).
+ * - `"code-points"`: Unicode code points (a flag counts 2, "é" written with a combining accent 2).
+ * - `"graphemes"`: user-perceived characters (every emoji and accented letter counts 1).
+ * - `"words"`: words, as found by the runtime's word segmentation (punctuation does not count).
+ */
+export type LengthUnit = "code-units" | "code-points" | "graphemes" | "words";
+
+/**
+ * @interface TruncateOptions
+ * @description How `truncateGraphemes()` shortens text.
+ */
+export interface TruncateOptions {
+  /**
+   * @description The string put after truncated text, counted in the maximum length. Defaults to "…".
+   */
+  ellipsis?: string;
+  /**
+   * @description Whether to cut after the last whole word that fits, rather than in the middle of
+   * a word. Text with no word boundary in the allowed length is cut anyway. Defaults to false.
+   */
+  wordBoundary?: boolean;
+}
+
+/**
+ * @private
+ * @description Cache of the segmenters, which are expensive to create and hold no state.
+ */
+const segmenterCache = new Map<string, Intl.Segmenter>();
+
+/**
+ * @private
+ * @function getSegmenter
+ * @description Returns the shared segmenter for a granularity, for the runtime locale.
+ */
+const getSegmenter = (granularity: "grapheme" | "word"): Intl.Segmenter => {
+  let segmenter = segmenterCache.get(granularity);
+  if (segmenter === undefined) {
+    segmenter = new Intl.Segmenter(undefined, { granularity });
+    segmenterCache.set(granularity, segmenter);
+  }
+  return segmenter;
+};
+
+/**
+ * @function splitGraphemes
+ * @description Splits text into grapheme clusters (user-perceived characters).
+ * @param {string} text The text to split.
+ * @returns {string[]} The clusters, which joined together give back `text`.
+ * @example
+ * splitGraphemes("é👨‍👩‍👧🇫🇷"); // ["é", "👨‍👩‍👧", "🇫🇷"]
+ */
+export const splitGraphemes = (text: string): string[] =>
+  Array.from(getSegmenter("grapheme").segment(text), ({ segment }) => segment);
+
+/**
+ * @function measureText
+ * @description Measures text in the given unit.
+ * @param {string} text The text to measure.
+ * @param {LengthUnit} unit What to count.
+ * @returns {number} The length of `text` in `unit`.
+ * @example
+ * measureText("👍🏽 ok", "code-units"); // 7
+ * measureText("👍🏽 ok", "code-points"); // 5
+ * measureText("👍🏽 ok", "graphemes"); // 4
+ * measureText("Hello, world!", "words"); // 2
+ */
+export const measureText = (text: string, unit: LengthUnit): number => {
+  switch (unit) {
+    case "code-units":
+      return text.length;
+    case "code-points":
+      return Array.from(text).length;
+    case "graphemes":
+      return splitGraphemes(text).length;
+    case "words":
+      return Array.from(getSegmenter("word").segment(text)).filter(({ isWordLike }) => isWordLike)
+        .length;
+  }
+};
+
+/**
+ * @function truncateGraphemes
+ * @description Shortens text to at most `maxLength` grapheme clusters, ellipsis included, without
+ * ever splitting a cluster. Whitespace left at the end of the cut is removed before the ellipsis.
+ * Text that already fits is returned as it is.
+ * @param {string} text The text to shorten.
+ * @param {number} maxLength The maximum number of grapheme clusters.
+ * @param {TruncateOptions} [options] The ellipsis (default "…") and whether to cut at a word boundary.
+ * @returns {string} The shortened text.
+ * @throws {RangeError} If `maxLength` is not a non-negative integer, or is shorter than the ellipsis.
+ * @example
+ * truncateGraphemes("Thanks 👍🏽👍🏽👍🏽", 9); // "Thanks 👍🏽…"
+ * truncateGraphemes("The quick brown fox", 12, { wordBoundary: true }); // "The quick…"
+ * truncateGraphemes("The quick brown fox", 12, { ellipsis: "" }); // "The quick br"
+ */
+export const truncateGraphemes = (
+  text: string,
+  maxLength: number,
+  options: TruncateOptions = {},
+): string => {
+  const { ellipsis = "…", wordBoundary = false } = options;
+  const ellipsisLength = splitGraphemes(ellipsis).length;
+  if (!Number.isInteger(maxLength) || maxLength < ellipsisLength) {
+    throw new RangeError(
+      `The maximum length must be an integer of at least ${ellipsisLength} (the ellipsis length).`,
+    );
+  }
+  const graphemes = splitGraphemes(text);
+  if (graphemes.length <= maxLength) {
+    return text;
+  }
+  let cut = graphemes.slice(0, maxLength - ellipsisLength).join("");
+  if (wordBoundary) {
+    let lastWordEnd = 0;
+    for (const { segment, index, isWordLike } of getSegmenter("word").segment(text)) {
+      if (index + segment.length > cut.length) {
+        break;
+      }
+      if (isWordLike) {
+        lastWordEnd = index + segment.length;
+      }
+    }
+    cut = lastWordEnd > 0 ? cut.slice(0, lastWordEnd) : cut;
+  }
+  return cut.trimEnd() + ellipsis;
+};
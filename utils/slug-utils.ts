@@ -0,0 +1,231 @@
+/**
+ * @module slug-utils
+ * @description URL slugs for `StringUtils.slugify()`: "Crème brûlée à Paris!" becomes
+ * "creme-brulee-a-paris". Diacritics are stripped with Unicode normalization, letters that do not
+ * decompose (ß, đ, Cyrillic...) are transliterated through tables, and language-specific tables
+ * (German umlauts, Ukrainian) can be added with `registerTransliteration`.
+ */
+
+/**
+ * @interface SlugOptions
+ * @description How `slugify()` and `uniqueSlug()` write a slug.
+ */
+export interface SlugOptions {
+  /**
+   * @description The string put between words. Defaults to "-".
+   */
+  separator?: string;
+  /**
+   * @description The maximum length of the slug. Long slugs are cut at a word boundary when
+   * possible. Defaults to no limit.
+   */
+  maxLength?: number;
+  /**
+   * @description The locale of the text, for its case mappings and transliteration table
+   * (e.g., 'de' writes "ä" as "ae"). Defaults to the locale-independent rules.
+   */
+  locale?: string;
+}
+
+/**
+ * @private
+ * @constant DEFAULT_TRANSLITERATION
+ * @description Latin letters that Unicode normalization does not decompose, and the Cyrillic
+ * alphabet (Russian spelling, plus the letters of the other Cyrillic languages), in lowercase.
+ * Apostrophes are dropped, so "don't" becomes "dont".
+ */
+const DEFAULT_TRANSLITERATION: Readonly<Record<string, string>> = {
+  "'": "",
+  "’": "",
+  ß: "ss",
+  æ: "ae",
+  œ: "oe",
+  ø: "o",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ł: "l",
+  ı: "i",
+  ħ: "h",
+  ŋ: "ng",
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  д: "d",
+  е: "e",
+  ё: "yo",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+  і: "i",
+  ї: "yi",
+  є: "ye",
+  ґ: "g",
+  ў: "u",
+  ђ: "dj",
+  ј: "j",
+  љ: "lj",
+  њ: "nj",
+  ћ: "c",
+  џ: "dz",
+};
+
+/**
+ * @private
+ * @constant transliterationTables
+ * @description Language-specific transliterations, applied before the default table and keyed
+ * by language subtag (e.g., 'de').
+ */
+const transliterationTables = new Map<string, Readonly<Record<string, string>>>([
+  ["de", { ä: "ae", ö: "oe", ü: "ue" }],
+  // Elided articles are separate words: "l'été" is "l-ete", not "lete"
+  ["fr", { "'": " ", "’": " " }],
+  ["uk", { г: "h", и: "y", ї: "i", х: "kh", щ: "shch" }],
+]);
+
+/**
+ * @function registerTransliteration
+ * @description Adds or replaces the transliteration table of a language, used by `slugify()`
+ * for text in that language before the default table. Keys are single lowercase characters.
+ * @param {string} language A language subtag (e.g., 'el'). Regional variants ('el-CY') use it too.
+ * @param {Record<string, string>} table The Latin spelling of each character.
+ * Accented letters fall back to the entry of their base letter ("ή" to "η").
+ * @example
+ * registerTransliteration("el", { α: "a", η: "i", θ: "th", ν: "n" }); // and the rest of the alphabet
+ * slugify("Αθήνα", { locale: "el" }); // "athina"
+ */
+export const registerTransliteration = (language: string, table: Record<string, string>): void => {
+  transliterationTables.set(language.toLowerCase(), { ...table });
+};
+
+/**
+ * @private
+ * @function truncateSlug
+ * @description Cuts a slug to a maximum length, at the last word boundary that fits when there is
+ * one, so that no word is cut in half.
+ */
+const truncateSlug = (slug: string, maxLength: number, separator: string): string => {
+  if (slug.length <= maxLength) {
+    return slug;
+  }
+  const boundary = separator === "" ? -1 : slug.lastIndexOf(separator, maxLength);
+  return boundary > 0 ? slug.slice(0, boundary) : slug.slice(0, maxLength);
+};
+
+/**
+ * @private
+ * @function assertMaxLength
+ * @throws {RangeError} If `maxLength` is given and is not a positive integer.
+ */
+const assertMaxLength = (maxLength: number | undefined): void => {
+  if (maxLength !== undefined && (!Number.isInteger(maxLength) || maxLength < 1)) {
+    throw new RangeError("The maximum slug length must be a positive integer.");
+  }
+};
+
+/**
+ * @function slugify
+ * @description Turns text into a URL slug: lowercase ASCII letters and digits, one separator
+ * between words. Letters are lowercased with the locale's rules, transliterated (language
+ * table first, then the default one), and stripped of their diacritics through NFD
+ * normalization, which also covers Vietnamese. Anything else (spaces, punctuation, emoji,
+ * scripts without a table) separates words.
+ * @param {string} text The text, typically a title typed by a user.
+ * @param {SlugOptions} [options] The separator, maximum length and locale.
+ * @returns {string} The slug; empty if the text has no letter or digit that can be written in ASCII.
+ * @throws {RangeError} If `maxLength` is not a positive integer.
+ * @example
+ * slugify("Crème brûlée: la recette"); // "creme-brulee-la-recette"
+ * slugify("Größe & Gewicht", { locale: "de" }); // "groesse-gewicht"
+ * slugify("Phở bò Hà Nội"); // "pho-bo-ha-noi"
+ * slugify("Привет, мир!", { separator: "_" }); // "privet_mir"
+ */
+export const slugify = (text: string, options: SlugOptions = {}): string => {
+  const { separator = "-", maxLength, locale } = options;
+  assertMaxLength(maxLength);
+  const languageTable =
+    locale === undefined ? undefined : transliterationTables.get(new Intl.Locale(locale).language);
+  const transliterate = (value: string): string =>
+    Array.from(
+      value,
+      (char) => languageTable?.[char] ?? DEFAULT_TRANSLITERATION[char] ?? char,
+    ).join("");
+  const lowercase =
+    locale === undefined
+      ? text.normalize("NFC").toLowerCase()
+      : text.normalize("NFC").toLocaleLowerCase(locale);
+  // Composed letters first ("ä" is "ae" in German), then the base letters of the others ("ή" is "η")
+  const words = transliterate(transliterate(lowercase).normalize("NFD").replace(/\p{M}/gu, ""))
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word !== "");
+  const slug = words.join(separator);
+  return maxLength === undefined ? slug : truncateSlug(slug, maxLength, separator);
+};
+
+/**
+ * @function uniqueSlug
+ * @description Slugifies text, then adds the first free numeric suffix ("-2", "-3"...) if the slug
+ * is already taken, e.g. by another article with the same title. With `maxLength`, the slug is
+ * shortened to leave room for the suffix. The new slug is not added to `existing`.
+ * Text without any letter or digit gives an empty slug; if that is taken too, the counter is
+ * used on its own ("2", "3"...), as there is nothing to separate it from.
+ * @param {string} text The text to slugify.
+ * @param {Iterable<string>} existing The slugs already in use.
+ * @param {SlugOptions} [options] The separator, maximum length and locale, as for `slugify()`.
+ * @returns {string} A slug that is not in `existing`.
+ * @throws {RangeError} If `maxLength` is not a positive integer, or too short for any free suffix.
+ * @example
+ * uniqueSlug("Hello World", ["hello-world", "hello-world-2"]); // "hello-world-3"
+ * uniqueSlug("Hello World", new Set(["hello-world"]), { maxLength: 11 }); // "hello-2"
+ * uniqueSlug("🎉🎉", [""]); // "2"
+ */
+export const uniqueSlug = (
+  text: string,
+  existing: Iterable<string>,
+  options: SlugOptions = {},
+): string => {
+  const { separator = "-", maxLength } = options;
+  const taken = existing instanceof Set ? (existing as Set<string>) : new Set(existing);
+  const slug = slugify(text, options);
+  if (!taken.has(slug)) {
+    return slug;
+  }
+  // A non-empty slug keeps at least one character before its suffix
+  const minBaseLength = slug === "" ? 0 : 1;
+  for (let counter = 2; ; counter++) {
+    const suffix = slug === "" ? String(counter) : `${separator}${counter}`;
+    if (maxLength !== undefined && maxLength - suffix.length < minBaseLength) {
+      throw new RangeError(`Cannot make "${slug}" unique within ${maxLength} characters.`);
+    }
+    const base =
+      maxLength === undefined ? slug : truncateSlug(slug, maxLength - suffix.length, separator);
+    const candidate = `${base}${suffix}`;
+    if (!taken.has(candidate)) {
+      return candidate;
+    }
+  }
+};
@@ -0,0 +1,466 @@
+/**
+ * @module spell-out-utils
+ * @description Spells numbers and amounts of money out in words, as written on cheques and
+ * legal documents ("one hundred twenty-three dollars and 45 cents"). English and French are
+ * built in; other languages can be added with `registerSpellOutRules`.
+ */
+
+import { CurrencyRegistry } from "./currency-registry";
+
+/**
+ * @interface UnitWords
+ * @description The singular and plural forms of a counted noun (e.g., 'dollar' / 'dollars').
+ */
+export interface UnitWords {
+  one: string;
+  other: string;
+  /**
+   * @description Whether the noun is feminine, for languages where "one" agrees in gender
+   * (e.g., French "une livre").
+   */
+  feminine?: boolean;
+}
+
+/**
+ * @interface CurrencyWords
+ * @description The names of a currency's main unit and, optionally, of its minor unit.
+ * Without a minor unit name, the fraction is written as a fraction (e.g., "45/100").
+ */
+export interface CurrencyWords {
+  major: UnitWords;
+  minor?: UnitWords;
+}
+
+/**
+ * @interface SpellOutRules
+ * @description Everything needed to spell amounts out in one language.
+ */
+export interface SpellOutRules {
+  /**
+   * @description Spells a non-negative integer out (e.g., 123n → "one hundred twenty-three").
+   * Throws a RangeError beyond the largest number the language rules can name.
+   */
+  integer: (value: bigint) => string;
+  /**
+   * @description Spells a non-negative integer out followed by a noun, in the right form
+   * (e.g., "one dollar", "two dollars", French "un million d'euros").
+   */
+  count: (value: bigint, unit: UnitWords) => string;
+  /**
+   * @description Whether a quantity takes the singular form of a noun.
+   */
+  isSingular: (value: bigint) => boolean;
+  /**
+   * @description The word put before negative amounts (e.g., 'minus').
+   */
+  minus: string;
+  /**
+   * @description The word joining the main and minor units (e.g., 'and').
+   */
+  and: string;
+  /**
+   * @description The names of common currencies, keyed by ISO 4217 code. Other ISO currencies
+   * fall back to the names provided by `Intl.NumberFormat`, custom ones to their registry symbol.
+   */
+  currencies: Record<string, CurrencyWords>;
+}
+
+/**
+ * @private
+ * @function toGroups
+ * @description Splits a non-negative integer into groups of three digits, least significant first
+ * (e.g., 1234567n → [567, 234, 1]).
+ */
+const toGroups = (value: bigint): number[] => {
+  const groups: number[] = [];
+  do {
+    groups.push(Number(value % 1000n));
+    value /= 1000n;
+  } while (value > 0n);
+  return groups;
+};
+
+/**
+ * @private
+ * @function assertNameable
+ * @description Guards against numbers larger than the scale names a language knows.
+ */
+const assertNameable = (value: bigint, groupCount: number, scales: string[]): void => {
+  if (value < 0n || groupCount > scales.length) {
+    throw new RangeError(
+      `Cannot spell ${value} out: expected an integer between 0 and 10^${scales.length * 3} - 1.`,
+    );
+  }
+};
+
+const EN_ONES = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+];
+const EN_TENS = [
+  "",
+  "",
+  "twenty",
+  "thirty",
+  "forty",
+  "fifty",
+  "sixty",
+  "seventy",
+  "eighty",
+  "ninety",
+];
+// Short scale, as used in the United States and modern British English
+const EN_SCALES = [
+  "",
+  "thousand",
+  "million",
+  "billion",
+  "trillion",
+  "quadrillion",
+  "quintillion",
+  "sextillion",
+  "septillion",
+  "octillion",
+  "nonillion",
+  "decillion",
+];
+
+const spellEnglishBelowThousand = (value: number): string => {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const words: string[] = [];
+  if (hundreds > 0) {
+    words.push(`${EN_ONES[hundreds]} hundred`);
+  }
+  if (rest >= 20) {
+    const unit = rest % 10;
+    words.push(EN_TENS[Math.floor(rest / 10)] + (unit > 0 ? `-${EN_ONES[unit]}` : ""));
+  } else if (rest > 0) {
+    words.push(EN_ONES[rest]);
+  }
+  return words.join(" ");
+};
+
+/**
+ * @constant ENGLISH_RULES
+ * @description American-style English: no "and" inside numbers ("one hundred twenty-three"),
+ * hyphens between tens and units ("forty-two").
+ */
+const ENGLISH_RULES: SpellOutRules = {
+  integer: (value) => {
+    const groups = toGroups(value);
+    assertNameable(value, groups.length, EN_SCALES);
+    if (value === 0n) {
+      return EN_ONES[0];
+    }
+    return groups
+      .map((group, index) =>
+        group === 0 ? "" : `${spellEnglishBelowThousand(group)} ${EN_SCALES[index]}`.trim(),
+      )
+      .filter(Boolean)
+      .reverse()
+      .join(" ");
+  },
+  count: (value, unit) =>
+    `${ENGLISH_RULES.integer(value)} ${ENGLISH_RULES.isSingular(value) ? unit.one : unit.other}`,
+  isSingular: (value) => value === 1n,
+  minus: "minus",
+  and: "and",
+  currencies: {
+    AUD: { major: { one: "dollar", other: "dollars" }, minor: { one: "cent", other: "cents" } },
+    CAD: { major: { one: "dollar", other: "dollars" }, minor: { one: "cent", other: "cents" } },
+    CHF: { major: { one: "franc", other: "francs" }, minor: { one: "centime", other: "centimes" } },
+    EUR: { major: { one: "euro", other: "euros" }, minor: { one: "cent", other: "cents" } },
+    GBP: { major: { one: "pound", other: "pounds" }, minor: { one: "penny", other: "pence" } },
+    INR: { major: { one: "rupee", other: "rupees" }, minor: { one: "paisa", other: "paise" } },
+    JPY: { major: { one: "yen", other: "yen" } },
+    MXN: { major: { one: "peso", other: "pesos" }, minor: { one: "centavo", other: "centavos" } },
+    NZD: { major: { one: "dollar", other: "dollars" }, minor: { one: "cent", other: "cents" } },
+    USD: { major: { one: "dollar", other: "dollars" }, minor: { one: "cent", other: "cents" } },
+  },
+};
+
+const FR_UNITS = [
+  "zéro",
+  "un",
+  "deux",
+  "trois",
+  "quatre",
+  "cinq",
+  "six",
+  "sept",
+  "huit",
+  "neuf",
+  "dix",
+  "onze",
+  "douze",
+  "treize",
+  "quatorze",
+  "quinze",
+  "seize",
+];
+const FR_TENS = ["", "dix", "vingt", "trente", "quarante", "cinquante", "soixante"];
+// Long scale, as used in France, Belgium, Switzerland and Canada
+const FR_SCALES = [
+  "",
+  "mille",
+  "million",
+  "milliard",
+  "billion",
+  "billiard",
+  "trillion",
+  "trilliard",
+  "quadrillion",
+  "quadrilliard",
+];
+
+/**
+ * @private
+ * @function spellFrenchBelowHundred
+ * @description Spells 1 to 99 in French, including the vigesimal forms (70 = "soixante-dix",
+ * 80 = "quatre-vingts", 91 = "quatre-vingt-onze"). `isFinal` tells whether "quatre-vingts" ends
+ * the number (or precedes "million", "milliard"...), the only case where it keeps its "s".
+ */
+const spellFrenchBelowHundred = (value: number, isFinal: boolean): string => {
+  if (value <= 16) {
+    return FR_UNITS[value];
+  }
+  if (value < 20) {
+    return `dix-${FR_UNITS[value - 10]}`;
+  }
+  const tens = Math.floor(value / 10);
+  const unit = value % 10;
+  if (tens === 7 || tens === 9) {
+    // 70-79 and 90-99 count on from 60 and 80: soixante-dix, soixante et onze, quatre-vingt-douze
+    const rest = value - (tens === 7 ? 60 : 80);
+    const base = tens === 7 ? "soixante" : "quatre-vingt";
+    return `${base}${tens === 7 && rest === 11 ? " et " : "-"}${spellFrenchBelowHundred(rest, false)}`;
+  }
+  if (tens === 8) {
+    return unit === 0 ? `quatre-vingt${isFinal ? "s" : ""}` : `quatre-vingt-${FR_UNITS[unit]}`;
+  }
+  if (unit === 0) {
+    return FR_TENS[tens];
+  }
+  return unit === 1 ? `${FR_TENS[tens]} et un` : `${FR_TENS[tens]}-${FR_UNITS[unit]}`;
+};
+
+const spellFrenchBelowThousand = (value: number, isFinal: boolean): string => {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const words: string[] = [];
+  if (hundreds === 1) {
+    words.push("cent");
+  } else if (hundreds > 1) {
+    // "deux cents" but "deux cent un" and "deux cent mille"
+    words.push(`${FR_UNITS[hundreds]} cent${rest === 0 && isFinal ? "s" : ""}`);
+  }
+  if (rest > 0) {
+    words.push(spellFrenchBelowHundred(rest, isFinal));
+  }
+  return words.join(" ");
+};
+
+/**
+ * @constant FRENCH_RULES
+ * @description French with the traditional spelling used on cheques: hyphens below one hundred
+ * only ("mille deux cent trente-quatre"), "et" in 21, 31... 71, and the agreement rules of
+ * "vingt", "cent", "mille" (invariable) and "million" (a noun, hence "un million d'euros").
+ */
+const FRENCH_RULES: SpellOutRules = {
+  integer: (value) => {
+    const groups = toGroups(value);
+    assertNameable(value, groups.length, FR_SCALES);
+    if (value === 0n) {
+      return FR_UNITS[0];
+    }
+    return groups
+      .map((group, index) => {
+        if (group === 0) {
+          return "";
+        }
+        if (index === 0) {
+          return spellFrenchBelowThousand(group, true);
+        }
+        if (index === 1) {
+          return group === 1 ? "mille" : `${spellFrenchBelowThousand(group, false)} mille`;
+        }
+        const noun = `${FR_SCALES[index]}${group > 1 ? "s" : ""}`;
+        return `${spellFrenchBelowThousand(group, true)} ${noun}`;
+      })
+      .filter(Boolean)
+      .reverse()
+      .join(" ");
+  },
+  count: (value, unit) => {
+    let words = FRENCH_RULES.integer(value);
+    if (unit.feminine) {
+      words = words.replace(/(^|[ -])un$/, "$1une");
+    }
+    if (FRENCH_RULES.isSingular(value)) {
+      return `${words} ${unit.one}`;
+    }
+    // Round millions and above are nouns: "un million d'euros", "deux milliards de dollars"
+    if (value % 1000000n === 0n) {
+      return `${words} ${/^[aeiouyéèh]/i.test(unit.other) ? "d'" : "de "}${unit.other}`;
+    }
+    return `${words} ${unit.other}`;
+  },
+  isSingular: (value) => value < 2n,
+  minus: "moins",
+  and: "et",
+  currencies: {
+    CAD: { major: { one: "dollar", other: "dollars" }, minor: { one: "cent", other: "cents" } },
+    CHF: { major: { one: "franc", other: "francs" }, minor: { one: "centime", other: "centimes" } },
+    EUR: { major: { one: "euro", other: "euros" }, minor: { one: "centime", other: "centimes" } },
+    GBP: {
+      major: { one: "livre sterling", other: "livres sterling", feminine: true },
+      minor: { one: "penny", other: "pence" },
+    },
+    JPY: { major: { one: "yen", other: "yens" } },
+    MAD: {
+      major: { one: "dirham", other: "dirhams" },
+      minor: { one: "centime", other: "centimes" },
+    },
+    USD: { major: { one: "dollar", other: "dollars" }, minor: { one: "cent", other: "cents" } },
+    XAF: { major: { one: "franc CFA", other: "francs CFA" } },
+    XOF: { major: { one: "franc CFA", other: "francs CFA" } },
+  },
+};
+
+/**
+ * @private
+ * @constant spellOutRules
+ * @description The rules of every supported language, keyed by language subtag (e.g., 'en').
+ */
+const spellOutRules = new Map<string, SpellOutRules>([
+  ["en", ENGLISH_RULES],
+  ["fr", FRENCH_RULES],
+]);
+
+/**
+ * @function registerSpellOutRules
+ * @description Adds or replaces the rules of a language, so that amounts can be spelled out in it.
+ * @param {string} language A language subtag (e.g., 'de'). Regional variants ('de-CH') use it too.
+ * @param {SpellOutRules} rules The spelling rules of the language.
+ */
+export const registerSpellOutRules = (language: string, rules: SpellOutRules): void => {
+  spellOutRules.set(language.toLowerCase(), rules);
+};
+
+/**
+ * @private
+ * @function getRules
+ * @description Finds the rules for a locale through its language subtag.
+ * @throws {RangeError} If no rules are registered for the language.
+ */
+const getRules = (locale?: string): SpellOutRules => {
+  const { language } = new Intl.Locale(locale ?? new Intl.NumberFormat().resolvedOptions().locale);
+  const rules = spellOutRules.get(language);
+  if (!rules) {
+    throw new RangeError(
+      `Cannot spell numbers out in "${language}". Supported languages: ${[...spellOutRules.keys()]}.`,
+    );
+  }
+  return rules;
+};
+
+/**
+ * @function spellOutInteger
+ * @description Spells an integer out in words.
+ * @param {bigint | number} value The integer to spell out.
+ * @param {string} [locale] The locale whose language to use. Defaults to the runtime locale.
+ * @returns {string} The number in words.
+ * @throws {RangeError} If `value` is not an integer, is too large, or the language is not supported.
+ * @example
+ * spellOutInteger(1234, 'en'); // "one thousand two hundred thirty-four"
+ * spellOutInteger(-81, 'fr-FR'); // "moins quatre-vingt-un"
+ * spellOutInteger(200080n, 'fr'); // "deux cent mille quatre-vingts"
+ */
+export const spellOutInteger = (value: bigint | number, locale?: string): string => {
+  if (typeof value === "number" && !Number.isSafeInteger(value)) {
+    throw new RangeError(`Cannot spell ${value} out: expected a safe integer or a bigint.`);
+  }
+  const rules = getRules(locale);
+  const integer = BigInt(value);
+  return integer < 0n ? `${rules.minus} ${rules.integer(-integer)}` : rules.integer(integer);
+};
+
+/**
+ * @private
+ * @function fallbackCurrencyWords
+ * @description Names currencies missing from the language rules: ISO currencies get the names
+ * `Intl.NumberFormat` knows (e.g., "Swedish kronor"), custom ones their registry symbol.
+ * Minor units stay unnamed.
+ */
+const fallbackCurrencyWords = (locale: string | undefined, currency: string): CurrencyWords => {
+  if (!CurrencyRegistry.isIso(currency)) {
+    const { symbol } = CurrencyRegistry.get(currency);
+    return { major: { one: symbol, other: symbol } };
+  }
+  const formatter = new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    currencyDisplay: "name",
+    maximumFractionDigits: 0,
+  });
+  const nameOf = (count: number) =>
+    formatter.formatToParts(count).find(({ type }) => type === "currency")?.value ?? currency;
+  return { major: { one: nameOf(1), other: nameOf(2) } };
+};
+
+/**
+ * @function spellOutMoney
+ * @description Spells an amount of money out the way cheques do: the main unit in words and the
+ * minor units in digits ("one hundred twenty-three dollars and 45 cents"). Minor units are left
+ * out when zero, and written as a fraction ("45/100") when the language has no name for them or
+ * the amount has more decimals than the currency's minor unit.
+ * @param {string} amount The exact decimal amount (e.g., "-123.45"), as given by `MoneyUtils.amount`.
+ * @param {string} currency A currency code registered in the CurrencyRegistry (e.g., 'USD').
+ * @param {string} [locale] The locale whose language to use. Defaults to the runtime locale.
+ * @returns {string} The amount in words.
+ * @throws {RangeError} If the amount is too large or the language is not supported.
+ * @throws {UnknownCurrencyError} If the currency is not registered.
+ * @example
+ * spellOutMoney("123.45", "USD", "en-US"); // "one hundred twenty-three dollars and 45 cents"
+ * spellOutMoney("1000000", "EUR", "fr-FR"); // "un million d'euros"
+ * spellOutMoney("21.01", "GBP", "fr-FR"); // "vingt et une livres sterling et 01 penny"
+ */
+export const spellOutMoney = (amount: string, currency: string, locale?: string): string => {
+  const rules = getRules(locale);
+  const [, sign, integerDigits, fractionDigits = ""] = /^(-?)(\d+)(?:\.(\d+))?$/.exec(amount) ?? [];
+  if (integerDigits === undefined) {
+    throw new RangeError(`Cannot spell "${amount}" out: expected a decimal amount.`);
+  }
+  const { code, minorUnit } = CurrencyRegistry.get(currency);
+  const words = rules.currencies[code] ?? fallbackCurrencyWords(locale, code);
+
+  let spelled = rules.count(BigInt(integerDigits), words.major);
+  const minorUnits = BigInt(fractionDigits || "0");
+  if (minorUnits > 0n) {
+    const minor =
+      words.minor && fractionDigits.length === minorUnit
+        ? `${fractionDigits} ${rules.isSingular(minorUnits) ? words.minor.one : words.minor.other}`
+        : `${fractionDigits}/${10n ** BigInt(fractionDigits.length)}`;
+    spelled += ` ${rules.and} ${minor}`;
+  }
+  return sign ? `${rules.minus} ${spelled}` : spelled;
+};
@@ -1,10 +1,28 @@
+import { convertCase, toTitleCase, type CaseStyle } from "./case-utils";
+import { FluentValue } from "./fluent-value";
+import { formatMessage, type MessageValues } from "./message-utils";
+import {
+  measureText,
+  splitGraphemes,
+  truncateGraphemes,
+  type LengthUnit,
+  type TruncateOptions,
+} from "./segment-utils";
+import { slugify, uniqueSlug, type SlugOptions } from "./slug-utils";
+
 /**
  * @class StringUtils
  * @description A utility class for performing common string manipulations
  * in a chainable, fluent manner. Designed for easy use without needing
  * the 'new' keyword, and for straightforward retrieval of the final string.
+ * In immutable mode, a base string such as a label can be reused to build several variants.
+ * @example
+ * const base = StringUtils.of("report").immutable();
+ * const title = base.capitalize();
+ * base.value; // "report" (unchanged)
+ * title.value; // "Report"
  */
-class StringUtils {
+class StringUtils extends FluentValue {
   /**
    * @private
    * @description The private instance variable to hold the current string value.
@@ -19,6 +37,7 @@ class StringUtils {
    * @param {string} initialValue The string to start chaining operations on.
    */
   private constructor(initialValue: string) {
+    super();
     this.currentString = String(initialValue);
   }
 
@@ -38,6 +57,54 @@ class StringUtils {
     return new StringUtils(initialValue);
   }
 
+  /**
+   * @static
+   * @method template
+   * @description Creates a StringUtils instance from an ICU MessageFormat template filled with
+   * values, instead of building UI strings by hand with `prepend` and `append`. Arguments can be
+   * formatted as numbers, dates or times, and `plural`, `selectordinal` and `select` pick the
+   * wording that fits the value, with the plural rules of the locale (`Intl.PluralRules`).
+   * See `formatMessage()` for the full syntax.
+   * @param {string} template The template (e.g., "{count, plural, one {# item} other {# items}}").
+   * @param {MessageValues} [values={}] The values of its arguments, by name.
+   * @param {string} [locale] The locale for plural rules and formatting. Defaults to the runtime locale.
+   * @returns {StringUtils} A new StringUtils instance holding the message, enabling method chaining.
+   * @throws {MessageFormatError} If the template is malformed, or a value is missing or of the
+   * wrong type. The error tells the position of the problem in the template.
+   * @example
+   * StringUtils.template("{count, plural, one {# item} other {# items}} in {name}'s cart", { count: 3, name: "Ana" }, "en").value;
+   * // "3 items in Ana's cart"
+   * StringUtils.template("{host, select, female {Elle} other {Il}} vous invite", { host: "female" }, "fr").value;
+   * // "Elle vous invite"
+   */
+  static template(template: string, values: MessageValues = {}, locale?: string): StringUtils {
+    return new StringUtils(formatMessage(template, values, locale));
+  }
+
+  /**
+   * @method equals
+   * @description Checks whether another value is a StringUtils instance holding the same string,
+   * compared case-sensitively, code unit by code unit (no Unicode normalization).
+   * @param {unknown} other The value to compare against.
+   * @returns {boolean} True if both instances hold the same value, false otherwise.
+   * @example
+   * StringUtils.of("hello").equals(StringUtils.of("hello")); // true
+   * StringUtils.of("hello").equals("hello"); // false
+   */
+  equals(other: unknown): boolean {
+    return other instanceof StringUtils && other.currentString === this.currentString;
+  }
+
+  /**
+   * @protected
+   * @method copy
+   * @description Creates a mutable instance holding the same string.
+   * @returns {this} The copy.
+   */
+  protected copy(): this {
+    return new StringUtils(this.currentString) as this;
+  }
+
   /**
    * @method capitalize
    * @description Capitalizes the very first letter of the string.
@@ -48,25 +115,128 @@ class StringUtils {
     if (this.currentString.length === 0) {
       return this;
     }
-    this.currentString = this.currentString.charAt(0).toUpperCase() + this.currentString.slice(1);
-    return this;
+    return this.apply((target) => {
+      target.currentString =
+        target.currentString.charAt(0).toUpperCase() + target.currentString.slice(1);
+    });
   }
 
   /**
    * @method capitalizeWords
-   * @description Capitalizes the first letter of each word in the string.
-   * Words are typically separated by spaces.
-   * For example, "hello world" becomes "Hello World".
+   * @description Capitalizes the first letter of each word in the string, leaving the rest of
+   * the word as it is, so "McDonald" is not turned into "Mcdonald". Words are separated by any
+   * whitespace (spaces, tabs, newlines), which is kept as it is.
+   * For example, "hello world" becomes "Hello World". For titles, see `toTitleCase()`.
    * @returns {StringUtils} The current StringUtils instance for continued chaining.
    */
   capitalizeWords(): this {
-    this.currentString = this.currentString
-      .split(" ")
-      .map((word) =>
-        word.length === 0 ? "" : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase(),
-      )
-      .join(" ");
-    return this;
+    return this.apply((target) => {
+      target.currentString = target.currentString
+        .split(/(\s+)/)
+        .map((word) => {
+          const [first = ""] = word;
+          return first.toUpperCase() + word.slice(first.length);
+        })
+        .join("");
+    });
+  }
+
+  /**
+   * @method toTitleCase
+   * @description Capitalizes the string as a title: minor words of the language ("of", "the"...)
+   * stay lowercase unless they start or end the title or follow a colon, and words with capitals
+   * inside ("iPhone", "McDonald", "NASA") are kept as they are. Separators are left untouched.
+   * English, French and Spanish minor words are built in; see `registerMinorWords()` for others.
+   * @param {string} [locale] The title's locale, for its minor words and case mappings
+   * (e.g., 'tr' capitalizes "istanbul" as "İstanbul"). Defaults to the runtime locale.
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @example
+   * StringUtils.of("the lord of the rings").toTitleCase("en").value; // "The Lord of the Rings"
+   * StringUtils.of("THE OLD MAN AND THE SEA").toTitleCase("en").value; // "The Old Man and the Sea"
+   * StringUtils.of("le rouge et le noir").toTitleCase("fr").value; // "Le Rouge et le Noir"
+   */
+  toTitleCase(locale?: string): this {
+    return this.apply((target) => {
+      target.currentString = toTitleCase(target.currentString, locale);
+    });
+  }
+
+  /**
+   * @private
+   * @method toCase
+   * @description Implements the identifier case conversions (`toCamelCase()`, `toSnakeCase()`...).
+   * @param {CaseStyle} style The identifier style to write.
+   * @param {string} [locale] The locale whose case mappings to use.
+   * @returns {this} The changed instance.
+   */
+  private toCase(style: CaseStyle, locale?: string): this {
+    return this.apply((target) => {
+      target.currentString = convertCase(target.currentString, style, locale);
+    });
+  }
+
+  /**
+   * @method toCamelCase
+   * @description Rewrites the string in camelCase. Words are found at separators (spaces, tabs,
+   * `_`, `-`...), at case changes and at the end of acronyms, so any other style converts back.
+   * @param {string} [locale] The locale whose case mappings to use (e.g., 'tr').
+   * Defaults to the locale-independent mappings, so the result is the same on every machine.
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @example
+   * StringUtils.of("XMLHttpRequest").toCamelCase().value; // "xmlHttpRequest"
+   * StringUtils.of("user_id").toCamelCase().value; // "userId"
+   */
+  toCamelCase(locale?: string): this {
+    return this.toCase("camel", locale);
+  }
+
+  /**
+   * @method toPascalCase
+   * @description Rewrites the string in PascalCase, with the same word detection as `toCamelCase()`.
+   * @param {string} [locale] The locale whose case mappings to use. Defaults to the locale-independent ones.
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @example
+   * StringUtils.of("order line-item").toPascalCase().value; // "OrderLineItem"
+   */
+  toPascalCase(locale?: string): this {
+    return this.toCase("pascal", locale);
+  }
+
+  /**
+   * @method toSnakeCase
+   * @description Rewrites the string in snake_case, with the same word detection as `toCamelCase()`.
+   * @param {string} [locale] The locale whose case mappings to use. Defaults to the locale-independent ones.
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @example
+   * StringUtils.of("XMLHttpRequest").toSnakeCase().value; // "xml_http_request"
+   * StringUtils.of("utf8Encoder").toSnakeCase().value; // "utf8_encoder"
+   */
+  toSnakeCase(locale?: string): this {
+    return this.toCase("snake", locale);
+  }
+
+  /**
+   * @method toKebabCase
+   * @description Rewrites the string in kebab-case, with the same word detection as `toCamelCase()`.
+   * @param {string} [locale] The locale whose case mappings to use. Defaults to the locale-independent ones.
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @example
+   * StringUtils.of("backgroundColor").toKebabCase().value; // "background-color"
+   */
+  toKebabCase(locale?: string): this {
+    return this.toCase("kebab", locale);
+  }
+
+  /**
+   * @method toConstantCase
+   * @description Rewrites the string in CONSTANT_CASE, with the same word detection as `toCamelCase()`.
+   * @param {string} [locale] The locale whose case mappings to use. Defaults to the locale-independent ones.
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @example
+   * StringUtils.of("maxRetryCount").toConstantCase().value; // "MAX_RETRY_COUNT"
+   */
+  toConstantCase(locale?: string): this {
+    return this.toCase("constant", locale);
   }
 
   /**
@@ -76,8 +246,9 @@ class StringUtils {
    * @returns {StringUtils} The current StringUtils instance for continued chaining.
    */
   toUpperCase(): this {
-    this.currentString = this.currentString.toUpperCase();
-    return this;
+    return this.apply((target) => {
+      target.currentString = target.currentString.toUpperCase();
+    });
   }
 
   /**
@@ -87,8 +258,48 @@ class StringUtils {
    * @returns {StringUtils} The current StringUtils instance for continued chaining.
    */
   toLowerCase(): this {
-    this.currentString = this.currentString.toLowerCase();
-    return this;
+    return this.apply((target) => {
+      target.currentString = target.currentString.toLowerCase();
+    });
+  }
+
+  /**
+   * @method slugify
+   * @description Turns the string into a URL slug of lowercase ASCII letters and digits
+   * ("Crème brûlée" becomes "creme-brulee"). Diacritics are stripped, Cyrillic and letters such
+   * as "ß" or "đ" are transliterated, and every other character separates words.
+   * See `registerTransliteration()` to add a language's table.
+   * @param {SlugOptions} [options] The `separator` (default "-"), `maxLength` (cut at a word
+   * boundary when possible) and `locale` (e.g., 'de' writes "ü" as "ue").
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @throws {RangeError} If `maxLength` is not a positive integer.
+   * @example
+   * StringUtils.of("Les Misérables: l'été").slugify({ locale: "fr" }).value; // "les-miserables-l-ete"
+   * StringUtils.of("Über uns").slugify({ locale: "de" }).value; // "ueber-uns"
+   * StringUtils.of("Đường phố Hà Nội").slugify({ separator: "_" }).value; // "duong_pho_ha_noi"
+   */
+  slugify(options: SlugOptions = {}): this {
+    return this.apply((target) => {
+      target.currentString = slugify(target.currentString, options);
+    });
+  }
+
+  /**
+   * @method slugifyUnique
+   * @description Like `slugify()`, then adds the first free numeric suffix ("-2", "-3"...) when the
+   * slug is already taken, shortening the slug to keep it within `maxLength`.
+   * The new slug is not added to `existing`.
+   * @param {Iterable<string>} existing The slugs already in use (e.g., a Set of route slugs).
+   * @param {SlugOptions} [options] The separator, maximum length and locale, as for `slugify()`.
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @throws {RangeError} If `maxLength` is not a positive integer, or too short for a suffix.
+   * @example
+   * StringUtils.of("Hello World").slugifyUnique(["hello-world", "hello-world-2"]).value; // "hello-world-3"
+   */
+  slugifyUnique(existing: Iterable<string>, options: SlugOptions = {}): this {
+    return this.apply((target) => {
+      target.currentString = uniqueSlug(target.currentString, existing, options);
+    });
   }
 
   /**
@@ -105,8 +316,9 @@ class StringUtils {
    * is the recommended and most commonly used approach over regex.
    */
   trim(): this {
-    this.currentString = this.currentString.trim();
-    return this;
+    return this.apply((target) => {
+      target.currentString = target.currentString.trim();
+    });
   }
 
   /**
@@ -141,8 +353,9 @@ class StringUtils {
     searchValue: string | RegExp,
     replaceValue: string | ((substring: string, ...args: any[]) => string),
   ): this {
-    this.currentString = this.currentString.replace(searchValue, replaceValue as any);
-    return this;
+    return this.apply((target) => {
+      target.currentString = target.currentString.replace(searchValue, replaceValue as any);
+    });
   }
 
   /**
@@ -152,8 +365,9 @@ class StringUtils {
    * @returns {StringUtils} The current StringUtils instance for continued chaining.
    */
   prepend(prefix: string): this {
-    this.currentString = prefix + this.currentString;
-    return this;
+    return this.apply((target) => {
+      target.currentString = prefix + target.currentString;
+    });
   }
 
   /**
@@ -163,8 +377,60 @@ class StringUtils {
    * @returns {StringUtils} The current StringUtils instance for continued chaining.
    */
   append(suffix: string): this {
-    this.currentString = this.currentString + suffix;
-    return this;
+    return this.apply((target) => {
+      target.currentString = target.currentString + suffix;
+    });
+  }
+
+  /**
+   * @method truncate
+   * @description Shortens the string to at most `maxLength` user-perceived characters (grapheme
+   * clusters), ellipsis included, without ever splitting an emoji or an accented letter.
+   * A string that already fits is left as it is.
+   * @param {number} maxLength The maximum number of grapheme clusters.
+   * @param {TruncateOptions} [options] The `ellipsis` (default "…", may be empty) and whether to
+   * cut at a `wordBoundary` instead of in the middle of a word.
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @throws {RangeError} If `maxLength` is not an integer, or is shorter than the ellipsis.
+   * @example
+   * StringUtils.of("Thanks 👍🏽👍🏽👍🏽").truncate(9).value; // "Thanks 👍🏽…"
+   * StringUtils.of("The quick brown fox").truncate(12, { wordBoundary: true }).value; // "The quick…"
+   */
+  truncate(maxLength: number, options: TruncateOptions = {}): this {
+    return this.apply((target) => {
+      target.currentString = truncateGraphemes(target.currentString, maxLength, options);
+    });
+  }
+
+  /**
+   * @method slice
+   * @description Keeps the grapheme clusters from `start` up to, but not including, `end`.
+   * Negative indexes count from the end, as with `Array.prototype.slice()`.
+   * @param {number} [start=0] The index of the first grapheme cluster to keep.
+   * @param {number} [end] The index of the grapheme cluster to stop at. Defaults to the end.
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @example
+   * StringUtils.of("🇫🇷 Paris").slice(0, 1).value; // "🇫🇷"
+   * StringUtils.of("café").slice(-1).value; // "é", even with a combining accent
+   */
+  slice(start: number = 0, end?: number): this {
+    return this.apply((target) => {
+      target.currentString = splitGraphemes(target.currentString).slice(start, end).join("");
+    });
+  }
+
+  /**
+   * @method reverse
+   * @description Reverses the order of the grapheme clusters, so emoji, flags and accented
+   * letters stay intact ("é👍🏽" becomes "👍🏽é", where reversing code units would break both).
+   * @returns {StringUtils} The current StringUtils instance for continued chaining.
+   * @example
+   * StringUtils.of("noël").reverse().value; // "lëon"
+   */
+  reverse(): this {
+    return this.apply((target) => {
+      target.currentString = splitGraphemes(target.currentString).reverse().join("");
+    });
   }
 
   /**
@@ -185,29 +451,36 @@ class StringUtils {
   /**
    * @method isLessThan
    * @description Checks if the length of the current string is less than a specified number.
+   * The length is counted in UTF-16 code units by default, like `String.prototype.length`;
+   * count in 'graphemes' to validate character limits as users see them.
    * This method does not modify the string.
    * @param {number} length The number to compare against.
+   * @param {LengthUnit} [unit='code-units'] What to count: 'code-units', 'code-points', 'graphemes' or 'words'.
    * @returns {boolean} True if the string's length is less than the given length, false otherwise.
    * @example
    * StringUtils.of("abc").isLessThan(5); // true
    * StringUtils.of("abcdef").isLessThan(5); // false
+   * StringUtils.of("👍🏽👍🏽").isLessThan(5, "graphemes"); // true (but 8 code units)
    */
-  isLessThan(length: number): boolean {
-    return this.currentString.length < length;
+  isLessThan(length: number, unit: LengthUnit = "code-units"): boolean {
+    return measureText(this.currentString, unit) < length;
   }
 
   /**
    * @method isMoreThan
    * @description Checks if the length of the current string is more than a specified number.
+   * The length is counted in UTF-16 code units by default, like `String.prototype.length`.
    * This method does not modify the string.
    * @param {number} length The number to compare against.
+   * @param {LengthUnit} [unit='code-units'] What to count: 'code-units', 'code-points', 'graphemes' or 'words'.
    * @returns {boolean} True if the string's length is more than the given length, false otherwise.
    * @example
    * StringUtils.of("abcdef").isMoreThan(5); // true
    * StringUtils.of("abc").isMoreThan(5); // false
+   * StringUtils.of("one two, three!").isMoreThan(2, "words"); // true
    */
-  isMoreThan(length: number): boolean {
-    return this.currentString.length > length;
+  isMoreThan(length: number, unit: LengthUnit = "code-units"): boolean {
+    return measureText(this.currentString, unit) > length;
   }
 
   /**
@@ -235,6 +508,16 @@ class StringUtils {
     return this.currentString;
   }
 
+  /**
+   * @property {number} graphemeLength
+   * @description A getter property to retrieve the number of user-perceived characters (grapheme
+   * clusters) in the string, as opposed to `value.length`, which counts UTF-16 code units.
+   * @returns {number} The number of grapheme clusters (e.g., 1 for "👨‍👩‍👧", whose length is 8).
+   */
+  get graphemeLength(): number {
+    return measureText(this.currentString, "graphemes");
+  }
+
   /**
    * @method valueOf
    * @description Returns the final string value. This is a JavaScript built-in method
@@ -306,6 +589,65 @@ console.log("Masked Email:", maskedEmail);
 const titleCaseText = StringUtils.of("a short story about a brave knight").capitalizeWords().value;
 console.log("Capitalized Words:", titleCaseText);
 
+// Example 7: Immutable mode
+const greeting = StringUtils.of("hello").immutable();
+const shouted = greeting.toUpperCase().append("!");
+console.log("Immutable greeting:", greeting.value, "shouted:", shouted.value); // hello shouted: HELLO!
+console.log("Shouted equals 'HELLO!'?", shouted.equals(StringUtils.of("HELLO!"))); // true
+
+// Example 8: Case conversion
+console.log("Snake case:", StringUtils.of("XMLHttpRequest").toSnakeCase().value); // xml_http_request
+console.log("Camel case:", StringUtils.of("user_id\tcreated-at").toCamelCase().value); // userIdCreatedAt
+console.log("Constant case:", StringUtils.of("maxRetryCount").toConstantCase().value); // MAX_RETRY_COUNT
+console.log(
+  "Title case:",
+  StringUtils.of("a guide to the iPhone at McDonald's").toTitleCase("en").value,
+); // A Guide to the iPhone at McDonald's
+console.log("Turkish title:", StringUtils.of("ılık ilkbahar").toTitleCase("tr").value); // Ilık İlkbahar
+
+// Example 9: URL slugs
+const routeSlugs = new Set(["about-us", "privet-mir"]);
+console.log(
+  "French slug:",
+  StringUtils.of("Les Misérables: l'été").slugify({ locale: "fr" }).value,
+); // les-miserables-l-ete
+console.log("German slug:", StringUtils.of("Größe & Gewicht").slugify({ locale: "de" }).value); // groesse-gewicht
+console.log("Vietnamese slug:", StringUtils.of("Phở bò Hà Nội").slugify().value); // pho-bo-ha-noi
+console.log(
+  "Short slug:",
+  StringUtils.of("A very long title for a blog post").slugify({ maxLength: 20 }).value,
+); // a-very-long-title
+console.log("Unique slug:", StringUtils.of("Привет, мир!").slugifyUnique(routeSlugs).value); // privet-mir-2
+
+// Example 10: Grapheme-aware operations
+const review = StringUtils.of("Great 👍🏽👍🏽 — merci à l'équipe 🇫🇷").immutable();
+console.log("Length:", review.value.length, "graphemes:", review.graphemeLength); // Length: 38 graphemes: 29
+console.log("Fits a 30-character limit?", !review.isMoreThan(30, "graphemes")); // true
+console.log("Truncated:", review.truncate(12).value); // Great 👍🏽👍🏽 —…
+console.log("Truncated at a word:", review.truncate(20, { wordBoundary: true }).value); // Great 👍🏽👍🏽 — merci à…
+console.log("Last grapheme:", review.slice(-1).value); // 🇫🇷
+console.log("Reversed:", StringUtils.of("noël 👍🏽").reverse().value); // 👍🏽 lëon
+
+// Example 11: Message templates
+const cartTemplate = "{count, plural, =0 {No items} one {# item} other {# items}} in {name}'s cart";
+console.log(StringUtils.template(cartTemplate, { count: 0, name: "Ana" }, "en").value); // No items in Ana's cart
+console.log(StringUtils.template(cartTemplate, { count: 1200, name: "Ana" }, "en").value); // 1,200 items in Ana's cart
+console.log(
+  StringUtils.template(
+    "{name} finished {place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}} on {day, date, long}",
+    { name: "Kim", place: 23, day: new Date(2024, 6, 14) },
+    "en",
+  ).value,
+); // Kim finished 23rd on July 14, 2024
+console.log(
+  StringUtils.template("Total : {total, number, ::currency/EUR}", { total: 1234.5 }, "fr-FR").value,
+); // Total : 1 234,50 €
+try {
+  StringUtils.template("{count, plural, one {# item}}", { count: 2 }, "en");
+} catch (error) {
+  console.log("Malformed template:", (error as Error).message); // ...at position 0: the plural argument "count" has no "other" option.
+}
+
 // --- Validation Examples ---
 console.log("\n--- StringUtils Validation Examples ---");
 
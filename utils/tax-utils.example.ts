@@ -0,0 +1,50 @@
+/**
+ * @file tax-utils.example.ts
+ * @description Runnable examples for TaxCalculator. They live outside `tax-utils.ts`, so that
+ * importing it prints nothing. Run them with `npx tsx utils/tax-utils.example.ts`.
+ */
+
+import { MoneyUtils } from "./money-utils";
+import { TaxCalculator } from "./tax-utils";
+
+console.log("\n--- TaxCalculator Examples ---");
+
+// Tax-exclusive price: taxes are added on top of the net amount
+const vat = TaxCalculator.of([{ name: "VAT", rate: 20 }]);
+const sale = vat.calculate(MoneyUtils.of(100));
+console.log("Net 100 + 20% VAT:", sale.net.value, sale.tax.value, sale.gross.value); // 100 20 120
+
+// Tax-inclusive price: the net amount is extracted from the gross one
+const shelfPrices = TaxCalculator.of([{ name: "VAT", rate: 20 }], { pricesIncludeTax: true });
+const shelf = shelfPrices.calculate(MoneyUtils.of(9.99));
+console.log("Gross 9.99 incl. 20% VAT:", shelf.net.value, shelf.tax.value); // 8.32 1.67
+
+// Compound rates: QST used to apply to the price plus GST
+const quebec = TaxCalculator.of([
+  { name: "GST", rate: 5 },
+  { name: "QST", rate: 8.5, compound: true },
+]);
+for (const { rate, base, tax } of quebec.calculate(MoneyUtils.of(100)).breakdown) {
+  console.log(`${rate.name} ${rate.rate}% on ${base.value}:`, tax.value); // GST 5 on 100, QST 8.93 on 105
+}
+
+// Per-line vs per-invoice rounding
+const items = [MoneyUtils.of(0.99), MoneyUtils.of(0.99), MoneyUtils.of(0.99)];
+const perLine = vat.calculateInvoice(items);
+const perInvoice = TaxCalculator.of([{ name: "VAT", rate: 20 }], {
+  rounding: "invoice",
+}).calculateInvoice(items);
+console.log("Per-line rounding tax:", perLine.tax.value); // 0.6
+console.log("Per-invoice rounding tax:", perInvoice.tax.value); // 0.59
+
+// Lines with their own rates are merged per rate in the breakdown
+const groceries = TaxCalculator.of([{ name: "Standard", rate: 20 }]).calculateInvoice([
+  MoneyUtils.of(10, "EUR"),
+  { amount: MoneyUtils.of(10, "EUR"), rates: [{ name: "Reduced", rate: 5.5 }] },
+  { amount: MoneyUtils.of(5, "EUR"), rates: [] },
+]);
+console.log(
+  "Invoice breakdown:",
+  groceries.breakdown.map(({ rate, base, tax }) => `${rate.name}: ${base.amount} → ${tax.amount}`),
+); // ["Standard: 10.00 → 2.00", "Reduced: 10.00 → 0.55"]
+console.log("Invoice gross:", groceries.gross.format("fr-FR")); // 27,55 €
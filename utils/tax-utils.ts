@@ -0,0 +1,446 @@
+/**
+ * @module tax-utils
+ * @description A VAT / sales-tax engine built on MoneyUtils. It handles tax-exclusive and
+ * tax-inclusive prices, several stacked or compound rates, and rounding per line or per invoice.
+ * Every result is made of MoneyUtils instances that reconcile to the minor unit:
+ * `net + tax === gross`, and the breakdown taxes always add up to `tax`.
+ */
+
+import { gcdOf } from "./fraction-utils";
+import { CurrencyMismatchError, MoneyUtils } from "./money-utils";
+import {
+  DEFAULT_ROUNDING_MODE,
+  assertRoundingMode,
+  parseDecimal,
+  roundQuotient,
+  type RoundingMode,
+} from "./rounding-utils";
+
+/**
+ * @interface TaxRate
+ * @description A named tax rate, expressed as a percentage.
+ */
+export interface TaxRate {
+  /**
+   * @description A label used in the breakdown (e.g., 'VAT', 'GST', 'State tax').
+   */
+  name: string;
+  /**
+   * @description The rate as a percentage (e.g., 20 or "5.5"). Decimal strings are kept exact.
+   */
+  rate: number | string;
+  /**
+   * @description When true, the rate applies to the net amount plus every tax listed before it
+   * (tax on tax). Otherwise it is stacked: it applies to the net amount only.
+   */
+  compound?: boolean;
+}
+
+/**
+ * @typedef {string} TaxRoundingLevel
+ * @description Where taxes are rounded to the minor unit:
+ * - `"line"`: each line's taxes are rounded, then added up (common for receipts).
+ * - `"invoice"`: the exact taxes of all lines are added up, then rounded once per rate
+ *   (required by some VAT regimes, and closer to the exact total).
+ */
+export type TaxRoundingLevel = "line" | "invoice";
+
+/**
+ * @interface TaxCalculatorOptions
+ * @description How a TaxCalculator reads amounts and rounds taxes.
+ */
+export interface TaxCalculatorOptions {
+  /**
+   * @description When true, amounts are gross prices (tax included) and the net is extracted
+   * from them. Defaults to false: amounts are net prices and taxes are added on top.
+   */
+  pricesIncludeTax?: boolean;
+  /**
+   * @description Where taxes are rounded. Defaults to 'line'.
+   */
+  rounding?: TaxRoundingLevel;
+  /**
+   * @description How taxes are rounded. Defaults to 'half-up'.
+   */
+  roundingMode?: RoundingMode;
+}
+
+/**
+ * @interface TaxLine
+ * @description An invoice line: its amount and, optionally, rates replacing the calculator ones
+ * (e.g., a reduced rate for food, or no rate at all for an exempt item).
+ */
+export interface TaxLine {
+  amount: MoneyUtils;
+  rates?: TaxRate[];
+}
+
+/**
+ * @interface TaxBreakdownEntry
+ * @description The share of a single rate in a result: the amount it applies to and the tax it adds.
+ */
+export interface TaxBreakdownEntry {
+  rate: TaxRate;
+  base: MoneyUtils;
+  tax: MoneyUtils;
+}
+
+/**
+ * @interface TaxResult
+ * @description The outcome of a tax calculation, with `net + tax === gross`.
+ */
+export interface TaxResult {
+  net: MoneyUtils;
+  tax: MoneyUtils;
+  gross: MoneyUtils;
+  breakdown: TaxBreakdownEntry[];
+}
+
+/**
+ * @interface InvoiceTaxResult
+ * @description The outcome of an invoice calculation: the totals, plus the result of each line.
+ * With 'invoice' rounding, line taxes are still rounded individually for display, so their sum
+ * may differ from the invoice tax by a few minor units; the totals are the amounts to charge.
+ */
+export interface InvoiceTaxResult extends TaxResult {
+  lines: TaxResult[];
+}
+
+/**
+ * @private
+ * @interface Ratio
+ * @description An exact rational number. Unlike a DecimalFraction, the denominator can be any
+ * positive integer, since extracting a net from a gross divides by the tax factor (e.g., 1.2).
+ */
+interface Ratio {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+/**
+ * @private
+ * @interface ExactTax
+ * @description The exact (unrounded) base and tax of a rate on a line, in minor units.
+ */
+interface ExactTax {
+  rate: TaxRate;
+  base: Ratio;
+  tax: Ratio;
+}
+
+/**
+ * @private
+ * @interface ExactLine
+ * @description A line before any rounding: its amount in minor units and its exact taxes.
+ */
+interface ExactLine {
+  amount: bigint;
+  taxes: ExactTax[];
+}
+
+/**
+ * @private
+ * @function ratio
+ * @description Builds a ratio in lowest terms, with a positive denominator.
+ */
+const ratio = (numerator: bigint, denominator: bigint = 1n): Ratio => {
+  const divisor = gcdOf(numerator, denominator) || 1n;
+  const sign = denominator < 0n ? -1n : 1n;
+  return { numerator: (sign * numerator) / divisor, denominator: (sign * denominator) / divisor };
+};
+
+const addRatios = (a: Ratio, b: Ratio): Ratio =>
+  ratio(a.numerator * b.denominator + b.numerator * a.denominator, a.denominator * b.denominator);
+
+const multiplyRatios = (a: Ratio, b: Ratio): Ratio =>
+  ratio(a.numerator * b.numerator, a.denominator * b.denominator);
+
+const divideRatios = (a: Ratio, b: Ratio): Ratio =>
+  ratio(a.numerator * b.denominator, a.denominator * b.numerator);
+
+/**
+ * @private
+ * @function rateKey
+ * @description Identifies a rate in the invoice breakdown, so lines sharing a rate are merged.
+ */
+const rateKey = ({ name, rate, compound = false }: TaxRate): string =>
+  `${name}|${rate}|${compound}`;
+
+/**
+ * @class TaxCalculator
+ * @description Computes taxes for a single amount or a whole invoice from a list of rates.
+ * Rates are applied in order: stacked rates on the net amount, compound rates on the net amount
+ * plus the taxes listed before them.
+ */
+export class TaxCalculator {
+  /**
+   * @private
+   * @description The default rates, used by lines that do not specify their own.
+   */
+  private readonly rates: TaxRate[];
+
+  /**
+   * @private
+   * @description Whether amounts are gross prices (tax included) rather than net ones.
+   */
+  private readonly pricesIncludeTax: boolean;
+
+  /**
+   * @private
+   * @description Whether taxes are rounded per line or once per invoice.
+   */
+  private readonly rounding: TaxRoundingLevel;
+
+  /**
+   * @private
+   * @description How taxes are rounded to the minor unit.
+   */
+  private readonly roundingMode: RoundingMode;
+
+  /**
+   * @private constructor
+   * @description Use the static `TaxCalculator.of()` factory method instead.
+   */
+  private constructor(rates: TaxRate[], options: TaxCalculatorOptions) {
+    const {
+      pricesIncludeTax = false,
+      rounding = "line",
+      roundingMode = DEFAULT_ROUNDING_MODE,
+    } = options;
+    if (rounding !== "line" && rounding !== "invoice") {
+      throw new RangeError(`Unknown tax rounding level "${rounding}".`);
+    }
+    rates.forEach((rate) => TaxCalculator.toRatio(rate)); // Validates the rates upfront
+    this.rates = [...rates];
+    this.pricesIncludeTax = pricesIncludeTax;
+    this.rounding = rounding;
+    this.roundingMode = assertRoundingMode(roundingMode);
+  }
+
+  /**
+   * @static
+   * @method of
+   * @description Creates a calculator for the given rates.
+   * @param {TaxRate[]} rates The default rates, applied in order. Can be empty (no tax).
+   * @param {TaxCalculatorOptions} [options] Whether prices include tax, and how taxes are rounded.
+   * @returns {TaxCalculator} A new TaxCalculator instance.
+   * @throws {RangeError} If a rate is not a non-negative decimal, or an option is unknown.
+   * @example
+   * const vat = TaxCalculator.of([{ name: 'VAT', rate: 20 }]);
+   * const canada = TaxCalculator.of([
+   *   { name: 'GST', rate: 5 },
+   *   { name: 'QST', rate: 8.5, compound: true }, // tax on tax
+   * ]);
+   */
+  static of(rates: TaxRate[], options: TaxCalculatorOptions = {}): TaxCalculator {
+    return new TaxCalculator(rates, options);
+  }
+
+  /**
+   * @method calculate
+   * @description Computes the taxes of a single amount. With tax-inclusive prices, this
+   * extracts the net amount from the gross one.
+   * @param {MoneyUtils} amount The net price, or the gross price if prices include tax.
+   * @param {TaxRate[]} [rates] Rates replacing the calculator ones for this amount.
+   * @returns {TaxResult} The net, tax and gross amounts, and the breakdown per rate.
+   * @example
+   * const vat = TaxCalculator.of([{ name: 'VAT', rate: 20 }]);
+   * vat.calculate(MoneyUtils.of(100)).gross.value; // 120
+   *
+   * const inclusive = TaxCalculator.of([{ name: 'VAT', rate: 20 }], { pricesIncludeTax: true });
+   * inclusive.calculate(MoneyUtils.of(120)).net.value; // 100
+   */
+  calculate(amount: MoneyUtils, rates: TaxRate[] = this.rates): TaxResult {
+    return this.calculateInvoice([{ amount, rates }]).lines[0];
+  }
+
+  /**
+   * @method calculateInvoice
+   * @description Computes the taxes of several lines sharing a currency, rounding them per line
+   * or once per invoice depending on the `rounding` option. The breakdown merges the lines
+   * sharing the same rate.
+   * @param {(MoneyUtils | TaxLine)[]} lines The line amounts, optionally with their own rates.
+   * @returns {InvoiceTaxResult} The invoice totals, their breakdown, and the result of each line.
+   * @throws {RangeError} If there is no line.
+   * @throws {CurrencyMismatchError} If the lines do not share the same currency.
+   * @example
+   * const vat = TaxCalculator.of([{ name: 'VAT', rate: 20 }], { rounding: 'invoice' });
+   * const invoice = vat.calculateInvoice([MoneyUtils.of(0.99), MoneyUtils.of(0.99), MoneyUtils.of(0.99)]);
+   * invoice.tax.value; // 0.59 (0.594 rounded once), whereas rounding per line gives 0.60
+   */
+  calculateInvoice(lines: (MoneyUtils | TaxLine)[]): InvoiceTaxResult {
+    if (lines.length === 0) {
+      throw new RangeError("An invoice needs at least one line.");
+    }
+    const taxLines = lines.map((line) => (line instanceof MoneyUtils ? { amount: line } : line));
+    const { currency } = taxLines[0].amount;
+    const scale = Math.max(...taxLines.map(({ amount }) => amount.scale));
+    for (const { amount } of taxLines) {
+      if (amount.currency !== currency) {
+        throw new CurrencyMismatchError(currency, amount.currency);
+      }
+    }
+
+    const exactLines = taxLines.map(({ amount, rates = this.rates }) =>
+      this.computeExactLine(amount.minorUnits * 10n ** BigInt(scale - amount.scale), rates),
+    );
+    const toMoney = (minorUnits: bigint) =>
+      MoneyUtils.fromMinorUnits(minorUnits, currency, scale, this.roundingMode);
+    const lineResults = exactLines.map((line) => this.roundLine(line, toMoney));
+
+    if (this.rounding === "line") {
+      return { ...this.mergeResults(lineResults, toMoney), lines: lineResults };
+    }
+    return { ...this.roundInvoice(exactLines, toMoney), lines: lineResults };
+  }
+
+  /**
+   * @private
+   * @static
+   * @method toRatio
+   * @description Converts a percentage rate into an exact fraction (e.g., 5.5 → 11/200).
+   * @throws {RangeError} If the rate is not a non-negative decimal.
+   */
+  private static toRatio({ name, rate }: TaxRate): Ratio {
+    const fraction = parseDecimal(rate);
+    if (fraction === null || fraction.numerator < 0n) {
+      throw new RangeError(
+        `Tax rate "${name}" must be a non-negative percentage, received "${rate}".`,
+      );
+    }
+    return ratio(fraction.numerator, fraction.denominator * 100n);
+  }
+
+  /**
+   * @private
+   * @method computeExactLine
+   * @description Computes the exact base and tax of every rate on a line amount.
+   * Each tax is a multiple of the net amount: a stacked rate r adds `net * r`, a compound one
+   * adds `r` times everything accumulated so far. The gross amount is therefore `net * factor`,
+   * which is how the net is extracted from a tax-inclusive amount.
+   */
+  private computeExactLine(amount: bigint, rates: TaxRate[]): ExactLine {
+    let factor = ratio(1n);
+    const coefficients = rates.map((rate) => {
+      const base = rate.compound ? factor : ratio(1n);
+      const tax = multiplyRatios(base, TaxCalculator.toRatio(rate));
+      factor = addRatios(factor, tax);
+      return { rate, base, tax };
+    });
+    const net = this.pricesIncludeTax ? divideRatios(ratio(amount), factor) : ratio(amount);
+    return {
+      amount,
+      taxes: coefficients.map(({ rate, base, tax }) => ({
+        rate,
+        base: multiplyRatios(net, base),
+        tax: multiplyRatios(net, tax),
+      })),
+    };
+  }
+
+  /**
+   * @private
+   * @method round
+   * @description Rounds an exact amount to the minor unit with the calculator rounding mode.
+   */
+  private round(value: Ratio): bigint {
+    return roundQuotient(value.numerator, value.denominator, this.roundingMode);
+  }
+
+  /**
+   * @private
+   * @method settle
+   * @description Builds a result from rounded taxes: the net (or gross) is derived from the line
+   * amount and the taxes, so that `net + tax === gross` holds exactly. Stacked rates apply to
+   * the net amount and compound ones to the net amount plus the taxes before them.
+   */
+  private settle(
+    amount: bigint,
+    taxes: { rate: TaxRate; tax: bigint }[],
+    toMoney: (minorUnits: bigint) => MoneyUtils,
+  ): TaxResult {
+    const totalTax = taxes.reduce((sum, { tax }) => sum + tax, 0n);
+    const net = this.pricesIncludeTax ? amount - totalTax : amount;
+    let compoundBase = net;
+    const breakdown = taxes.map(({ rate, tax }) => {
+      const base = rate.compound ? compoundBase : net;
+      compoundBase += tax;
+      return { rate, base: toMoney(base), tax: toMoney(tax) };
+    });
+    return {
+      net: toMoney(net),
+      tax: toMoney(totalTax),
+      gross: toMoney(net + totalTax),
+      breakdown,
+    };
+  }
+
+  /**
+   * @private
+   * @method roundLine
+   * @description Rounds each tax of a single line.
+   */
+  private roundLine(line: ExactLine, toMoney: (minorUnits: bigint) => MoneyUtils): TaxResult {
+    const taxes = line.taxes.map(({ rate, tax }) => ({ rate, tax: this.round(tax) }));
+    return this.settle(line.amount, taxes, toMoney);
+  }
+
+  /**
+   * @private
+   * @method mergeResults
+   * @description Adds up line results (per-line rounding), merging the breakdown entries of each rate.
+   */
+  private mergeResults(
+    results: TaxResult[],
+    toMoney: (minorUnits: bigint) => MoneyUtils,
+  ): TaxResult {
+    const breakdown = new Map<string, TaxBreakdownEntry>();
+    for (const { rate, base, tax } of results.flatMap((result) => result.breakdown)) {
+      const entry = breakdown.get(rateKey(rate));
+      if (entry) {
+        entry.base.add(base);
+        entry.tax.add(tax);
+      } else {
+        breakdown.set(rateKey(rate), { rate, base: base.clone(), tax: tax.clone() });
+      }
+    }
+    return {
+      net: results.reduce((sum, { net }) => sum.add(net), toMoney(0n)),
+      tax: results.reduce((sum, { tax }) => sum.add(tax), toMoney(0n)),
+      gross: results.reduce((sum, { gross }) => sum.add(gross), toMoney(0n)),
+      breakdown: [...breakdown.values()],
+    };
+  }
+
+  /**
+   * @private
+   * @method roundInvoice
+   * @description Adds up the exact taxes of every line per rate, then rounds each rate once.
+   * The bases are rounded once as well, from their exact sums.
+   */
+  private roundInvoice(lines: ExactLine[], toMoney: (minorUnits: bigint) => MoneyUtils): TaxResult {
+    const totals = new Map<string, { rate: TaxRate; base: Ratio; tax: Ratio }>();
+    for (const { rate, base, tax } of lines.flatMap((line) => line.taxes)) {
+      const total = totals.get(rateKey(rate));
+      if (total) {
+        total.base = addRatios(total.base, base);
+        total.tax = addRatios(total.tax, tax);
+      } else {
+        totals.set(rateKey(rate), { rate, base, tax });
+      }
+    }
+    const amount = lines.reduce((sum, line) => sum + line.amount, 0n);
+    const totalTax = [...totals.values()].reduce((sum, { tax }) => sum + this.round(tax), 0n);
+    const net = this.pricesIncludeTax ? amount - totalTax : amount;
+    return {
+      net: toMoney(net),
+      tax: toMoney(totalTax),
+      gross: toMoney(net + totalTax),
+      breakdown: [...totals.values()].map(({ rate, base, tax }) => ({
+        rate,
+        base: toMoney(this.round(base)),
+        tax: toMoney(this.round(tax)),
+      })),
+    };
+  }
+}
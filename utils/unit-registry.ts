@@ -0,0 +1,379 @@
+import {
+  parseDecimal,
+  roundQuotient,
+  type DecimalFraction,
+  type RoundingMode,
+} from "./rounding-utils";
+
+/**
+ * @interface UnitDefinition
+ * @description Describes a unit of measurement by how it converts to the base unit of its
+ * dimension: `base = (value + offset) * factor`. Most units only need a factor; the offset
+ * covers affine scales such as temperatures, whose zero is not the base unit's zero.
+ */
+export interface UnitDefinition {
+  /**
+   * @description The symbol used to look the unit up and to display it (e.g., 'km', 'MiB', '°F').
+   * Symbols are case-sensitive, so 'Mb' (megabits) and 'MB' (megabytes) are different units.
+   */
+  symbol: string;
+  /**
+   * @description What the unit measures (e.g., 'length', 'temperature'). Only units of the same
+   * dimension can be converted to one another.
+   */
+  dimension: string;
+  /**
+   * @description How many base units one unit is worth, once the offset is added
+   * (e.g., 1000 for 'km' when the base is the meter). A ratio such as `[5, 9]` keeps factors
+   * that have no exact decimal form (°F to kelvin) exact.
+   */
+  factor: number | [number, number];
+  /**
+   * @description What is added to a value before it is scaled to the base unit
+   * (e.g., 273.15 for '°C' when the base is the kelvin). Defaults to 0.
+   */
+  offset?: number;
+  /**
+   * @description Other symbols the unit can be looked up by (e.g., 'C' for '°C').
+   */
+  aliases?: string[];
+  /**
+   * @description The matching `Intl.NumberFormat` unit identifier (e.g., 'kilometer'), which
+   * gives localized labels. Units without one are displayed with their symbol.
+   */
+  intlUnit?: string;
+}
+
+/**
+ * @class UnknownUnitError
+ * @description Thrown when a unit symbol is neither a built-in unit nor a registered custom one.
+ */
+export class UnknownUnitError extends Error {
+  /**
+   * @param {string} symbol The symbol that could not be found.
+   */
+  constructor(public readonly symbol: string) {
+    super(`Unknown unit "${symbol}". Register it with UnitRegistry.register() first.`);
+    this.name = "UnknownUnitError";
+  }
+}
+
+/**
+ * @class DimensionMismatchError
+ * @description Thrown when converting between units that measure different things (e.g., 'kg' to 'km').
+ */
+export class DimensionMismatchError extends Error {
+  /**
+   * @param {UnitDefinition} from The unit converted from.
+   * @param {UnitDefinition} to The unit converted to.
+   */
+  constructor(
+    public readonly from: UnitDefinition,
+    public readonly to: UnitDefinition,
+  ) {
+    super(
+      `Cannot convert "${from.symbol}" (${from.dimension}) to "${to.symbol}" (${to.dimension}).`,
+    );
+    this.name = "DimensionMismatchError";
+  }
+}
+
+/**
+ * @private
+ * @constant BUILT_IN_UNITS
+ * @description The built-in units. The base units are the meter, the kilogram, the kelvin, the
+ * liter, the meter per second and the byte. Decimal byte prefixes are powers of 1000 (1 kB is
+ * 1000 B) and binary ones powers of 1024 (1 KiB is 1024 B); gallons and fluid ounces are US ones.
+ */
+const BUILT_IN_UNITS: UnitDefinition[] = [
+  { symbol: "mm", dimension: "length", factor: 0.001, intlUnit: "millimeter" },
+  { symbol: "cm", dimension: "length", factor: 0.01, intlUnit: "centimeter" },
+  { symbol: "m", dimension: "length", factor: 1, intlUnit: "meter" },
+  { symbol: "km", dimension: "length", factor: 1000, intlUnit: "kilometer" },
+  { symbol: "in", dimension: "length", factor: 0.0254, intlUnit: "inch" },
+  { symbol: "ft", dimension: "length", factor: 0.3048, intlUnit: "foot" },
+  { symbol: "yd", dimension: "length", factor: 0.9144, intlUnit: "yard" },
+  { symbol: "mi", dimension: "length", factor: 1609.344, intlUnit: "mile" },
+  { symbol: "nmi", dimension: "length", factor: 1852 },
+  { symbol: "mg", dimension: "mass", factor: 0.000001 },
+  { symbol: "g", dimension: "mass", factor: 0.001, intlUnit: "gram" },
+  { symbol: "kg", dimension: "mass", factor: 1, intlUnit: "kilogram" },
+  { symbol: "t", dimension: "mass", factor: 1000 },
+  { symbol: "oz", dimension: "mass", factor: 0.028349523125, intlUnit: "ounce" },
+  { symbol: "lb", dimension: "mass", factor: 0.45359237, intlUnit: "pound" },
+  { symbol: "st", dimension: "mass", factor: 6.35029318, intlUnit: "stone" },
+  { symbol: "K", dimension: "temperature", factor: 1 },
+  {
+    symbol: "°C",
+    dimension: "temperature",
+    factor: 1,
+    offset: 273.15,
+    aliases: ["C"],
+    intlUnit: "celsius",
+  },
+  {
+    symbol: "°F",
+    dimension: "temperature",
+    factor: [5, 9],
+    offset: 459.67,
+    aliases: ["F"],
+    intlUnit: "fahrenheit",
+  },
+  { symbol: "mL", dimension: "volume", factor: 0.001, aliases: ["ml"], intlUnit: "milliliter" },
+  { symbol: "L", dimension: "volume", factor: 1, aliases: ["l"], intlUnit: "liter" },
+  { symbol: "fl oz", dimension: "volume", factor: 0.0295735295625, intlUnit: "fluid-ounce" },
+  { symbol: "gal", dimension: "volume", factor: 3.785411784, intlUnit: "gallon" },
+  { symbol: "m/s", dimension: "speed", factor: 1, intlUnit: "meter-per-second" },
+  { symbol: "km/h", dimension: "speed", factor: [1000, 3600], intlUnit: "kilometer-per-hour" },
+  { symbol: "mph", dimension: "speed", factor: [1609.344, 3600], intlUnit: "mile-per-hour" },
+  { symbol: "kn", dimension: "speed", factor: [1852, 3600] },
+  { symbol: "b", dimension: "digital", factor: 0.125, intlUnit: "bit" },
+  { symbol: "kb", dimension: "digital", factor: 125, intlUnit: "kilobit" },
+  { symbol: "Mb", dimension: "digital", factor: 125e3, intlUnit: "megabit" },
+  { symbol: "Gb", dimension: "digital", factor: 125e6, intlUnit: "gigabit" },
+  { symbol: "B", dimension: "digital", factor: 1, intlUnit: "byte" },
+  { symbol: "kB", dimension: "digital", factor: 1e3, intlUnit: "kilobyte" },
+  { symbol: "MB", dimension: "digital", factor: 1e6, intlUnit: "megabyte" },
+  { symbol: "GB", dimension: "digital", factor: 1e9, intlUnit: "gigabyte" },
+  { symbol: "TB", dimension: "digital", factor: 1e12, intlUnit: "terabyte" },
+  { symbol: "PB", dimension: "digital", factor: 1e15, intlUnit: "petabyte" },
+  { symbol: "KiB", dimension: "digital", factor: 1024 },
+  { symbol: "MiB", dimension: "digital", factor: 1024 ** 2 },
+  { symbol: "GiB", dimension: "digital", factor: 1024 ** 3 },
+  { symbol: "TiB", dimension: "digital", factor: 1024 ** 4 },
+  { symbol: "PiB", dimension: "digital", factor: 1024 ** 5 },
+];
+
+/**
+ * @class UnitRegistry
+ * @description A registry of every unit NumberUtils can convert between: the built-in metric,
+ * imperial, temperature and digital units plus any custom unit registered at runtime.
+ * Like a service class, it only exposes static methods and holds a single shared registry.
+ * @example
+ * UnitRegistry.get("mi").factor; // 1609.344
+ * UnitRegistry.register({ symbol: "ly", dimension: "length", factor: 9460730472580800 });
+ * UnitRegistry.list("temperature").map((unit) => unit.symbol); // ["°C", "°F", "K"]
+ */
+export class UnitRegistry {
+  /**
+   * @private
+   * @description The registered units, keyed by their symbol and by each of their aliases.
+   */
+  private static units = new Map<string, UnitDefinition>(
+    BUILT_IN_UNITS.flatMap((unit) =>
+      [unit.symbol, ...(unit.aliases ?? [])].map((key): [string, UnitDefinition] => [key, unit]),
+    ),
+  );
+
+  /**
+   * @private
+   * @description The symbols of the built-in units.
+   */
+  private static builtInSymbols = new Set(BUILT_IN_UNITS.map((unit) => unit.symbol));
+
+  /**
+   * @static
+   * @method register
+   * @description Adds a custom unit (e.g., light-years, or a dimension of your own) to the registry.
+   * @param {UnitDefinition} definition The unit to register. Its symbol and aliases are trimmed.
+   * @returns {UnitDefinition} The stored definition.
+   * @throws {RangeError} If the symbol or dimension is empty, a symbol or alias is already
+   * registered, the factor is not positive and finite, or the offset is not finite.
+   * @example
+   * UnitRegistry.register({ symbol: "ly", dimension: "length", factor: 9460730472580800 });
+   * NumberUtils.of(4.24).unit("ly").to("km").value; // 40113497203742.59
+   */
+  static register(definition: UnitDefinition): UnitDefinition {
+    const symbol = definition.symbol.trim();
+    const aliases = (definition.aliases ?? []).map((alias) => alias.trim());
+    if (symbol.length === 0 || definition.dimension.trim().length === 0) {
+      throw new RangeError("A unit symbol and dimension cannot be empty.");
+    }
+    for (const key of [symbol, ...aliases]) {
+      if (UnitRegistry.units.has(key)) {
+        throw new RangeError(`The unit "${key}" is already registered.`);
+      }
+    }
+    const factors = typeof definition.factor === "number" ? [definition.factor] : definition.factor;
+    if (!factors.every((factor) => Number.isFinite(factor) && factor > 0)) {
+      throw new RangeError(`The factor of "${symbol}" must be positive and finite.`);
+    }
+    if (!Number.isFinite(definition.offset ?? 0)) {
+      throw new RangeError(`The offset of "${symbol}" must be finite.`);
+    }
+    const stored = { ...definition, symbol, aliases };
+    for (const key of [symbol, ...aliases]) {
+      UnitRegistry.units.set(key, stored);
+    }
+    return stored;
+  }
+
+  /**
+   * @static
+   * @method unregister
+   * @description Removes a custom unit and its aliases. Built-in units cannot be removed.
+   * @param {string} symbol The symbol or an alias of the custom unit.
+   * @returns {boolean} True if a unit was removed, false if it was not registered.
+   * @throws {RangeError} If `symbol` is a built-in unit.
+   */
+  static unregister(symbol: string): boolean {
+    const definition = UnitRegistry.units.get(symbol.trim());
+    if (definition === undefined) {
+      return false;
+    }
+    if (UnitRegistry.isBuiltIn(definition.symbol)) {
+      throw new RangeError(`The built-in unit "${definition.symbol}" cannot be unregistered.`);
+    }
+    for (const key of [definition.symbol, ...(definition.aliases ?? [])]) {
+      UnitRegistry.units.delete(key);
+    }
+    return true;
+  }
+
+  /**
+   * @static
+   * @method get
+   * @description Looks up a unit by symbol or alias (case-sensitively).
+   * @param {string} symbol The unit symbol (e.g., 'km' or '°C').
+   * @returns {UnitDefinition} The unit definition.
+   * @throws {UnknownUnitError} If the unit is not registered.
+   */
+  static get(symbol: string): UnitDefinition {
+    const definition = UnitRegistry.units.get(symbol.trim());
+    if (definition === undefined) {
+      throw new UnknownUnitError(symbol);
+    }
+    return definition;
+  }
+
+  /**
+   * @static
+   * @method has
+   * @description Checks whether a unit symbol or alias is registered.
+   * @param {string} symbol The unit symbol.
+   * @returns {boolean} True if the unit is known, false otherwise.
+   */
+  static has(symbol: string): boolean {
+    return UnitRegistry.units.has(symbol.trim());
+  }
+
+  /**
+   * @static
+   * @method isBuiltIn
+   * @description Checks whether a registered unit is a built-in one (as opposed to a custom unit).
+   * @param {string} symbol The unit symbol or alias.
+   * @returns {boolean} True for built-in units, false for custom or unknown ones.
+   */
+  static isBuiltIn(symbol: string): boolean {
+    const definition = UnitRegistry.units.get(symbol.trim());
+    return definition !== undefined && UnitRegistry.builtInSymbols.has(definition.symbol);
+  }
+
+  /**
+   * @static
+   * @method list
+   * @description Returns every registered unit, optionally of a single dimension, sorted by
+   * dimension and then by symbol.
+   * @param {string} [dimension] Only list the units of this dimension (e.g., 'length').
+   * @returns {UnitDefinition[]} The registered units.
+   */
+  static list(dimension?: string): UnitDefinition[] {
+    return [...new Set(UnitRegistry.units.values())]
+      .filter((unit) => dimension === undefined || unit.dimension === dimension)
+      .sort((a, b) => a.dimension.localeCompare(b.dimension) || a.symbol.localeCompare(b.symbol));
+  }
+}
+
+/**
+ * @interface Ratio
+ * @description An exact rational number `numerator / denominator`. Unlike a DecimalFraction,
+ * the denominator is not always a power of ten, since unit factors such as `[5, 9]` (°F to
+ * kelvin) have no exact decimal form. It may be negative.
+ */
+export interface Ratio {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+/**
+ * @private
+ * @function toRatio
+ * @description Reads a unit factor or offset as an exact ratio.
+ * @param {number | [number, number]} value A number, or a `[numerator, denominator]` ratio.
+ * @returns {Ratio} The exact ratio.
+ */
+const toRatio = (value: number | [number, number]): Ratio => {
+  const [numerator, denominator] = (typeof value === "number" ? [value, 1] : value).map(
+    (part) => parseDecimal(part) as DecimalFraction,
+  );
+  return {
+    numerator: numerator.numerator * denominator.denominator,
+    denominator: numerator.denominator * denominator.numerator,
+  };
+};
+
+/**
+ * @function convertUnitExactly
+ * @description Converts a value between two units of the same dimension with exact `bigint`
+ * arithmetic and no rounding at all. Converting through the base unit exactly is what makes
+ * 100 °C exactly 212 °F.
+ * @param {DecimalFraction} value The value, in the `from` unit.
+ * @param {string} from The symbol of the unit to convert from.
+ * @param {string} to The symbol of the unit to convert to.
+ * @returns {Ratio} The exact converted value, not reduced to lowest terms.
+ * @throws {UnknownUnitError} If either unit is not registered.
+ * @throws {DimensionMismatchError} If the units measure different things.
+ * @example
+ * convertUnitExactly({ numerator: 1n, denominator: 1n }, "°F", "K"); // 230335 / 900 (255.92777...)
+ */
+export const convertUnitExactly = (value: DecimalFraction, from: string, to: string): Ratio => {
+  const source = UnitRegistry.get(from);
+  const target = UnitRegistry.get(to);
+  if (source.dimension !== target.dimension) {
+    throw new DimensionMismatchError(source, target);
+  }
+  const sourceOffset = toRatio(source.offset ?? 0);
+  const sourceFactor = toRatio(source.factor);
+  const targetOffset = toRatio(target.offset ?? 0);
+  const targetFactor = toRatio(target.factor);
+
+  // base = (value + sourceOffset) * sourceFactor
+  let numerator =
+    (value.numerator * sourceOffset.denominator + sourceOffset.numerator * value.denominator) *
+    sourceFactor.numerator;
+  let denominator = value.denominator * sourceOffset.denominator * sourceFactor.denominator;
+  // result = base / targetFactor - targetOffset
+  numerator *= targetFactor.denominator;
+  denominator *= targetFactor.numerator;
+  numerator = numerator * targetOffset.denominator - targetOffset.numerator * denominator;
+  denominator *= targetOffset.denominator;
+  return { numerator, denominator };
+};
+
+/**
+ * @function convertUnit
+ * @description Converts a value between two units of the same dimension exactly (see
+ * `convertUnitExactly`), then rounds the result once to a number of decimal places.
+ * @param {DecimalFraction} value The value, in the `from` unit.
+ * @param {string} from The symbol of the unit to convert from.
+ * @param {string} to The symbol of the unit to convert to.
+ * @param {number} decimals The number of decimal places to keep. Must be a non-negative integer.
+ * @param {RoundingMode} mode How to round the result.
+ * @returns {DecimalFraction} The converted value, with exactly `decimals` decimal places.
+ * @throws {UnknownUnitError} If either unit is not registered.
+ * @throws {DimensionMismatchError} If the units measure different things.
+ * @example
+ * convertUnit({ numerator: 100n, denominator: 1n }, "°C", "°F", 2, "half-up"); // 212.00
+ * convertUnit({ numerator: 1n, denominator: 1n }, "GiB", "MB", 3, "half-up"); // 1073.742
+ */
+export const convertUnit = (
+  value: DecimalFraction,
+  from: string,
+  to: string,
+  decimals: number,
+  mode: RoundingMode,
+): DecimalFraction => {
+  const { numerator, denominator } = convertUnitExactly(value, from, to);
+  const scale = 10n ** BigInt(decimals);
+  return { numerator: roundQuotient(numerator * scale, denominator, mode), denominator: scale };
+};